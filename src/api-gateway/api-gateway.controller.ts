@@ -2,6 +2,8 @@ import { Controller, Get, UseGuards, Request } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Roles } from '@shared/decorators/roles.decorator';
 import { UserRole } from '@core/domain/entities/user.entity';
+import { Permission } from '@core/domain/permissions';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
 
 @Controller()
 export class ApiGatewayController {
@@ -17,31 +19,129 @@ export class ApiGatewayController {
           login: 'POST /api/auth/login',
           register: 'POST /api/auth/register',
           profile: 'GET /api/auth/profile',
+          refresh: 'POST /api/auth/refresh',
+          logout: 'POST /api/auth/logout',
+          logoutAll: 'POST /api/auth/logout-all',
+          magicLink: 'POST /api/auth/magic-link',
+          magicLinkVerify: 'POST /api/auth/magic-link/verify',
+          forgotPassword: 'POST /api/auth/forgot-password',
+          resetPassword: 'POST /api/auth/reset-password',
+          verifyEmail: 'POST /api/auth/verify-email',
+          resendVerification: 'POST /api/auth/resend-verification',
+          twoFactorVerify: 'POST /api/auth/2fa/verify',
+          twoFactorSetup: 'POST /api/auth/2fa/setup',
+          twoFactorEnable: 'POST /api/auth/2fa/enable',
+          twoFactorDisable: 'POST /api/auth/2fa/disable',
+          twoFactorRecoveryCodes: 'POST /api/auth/2fa/recovery-codes',
+          sessions: 'GET /api/auth/sessions',
+          revokeSession: 'DELETE /api/auth/sessions/:id',
+          jwks: 'GET /.well-known/jwks.json',
+        },
+        oidc: {
+          providers: 'GET /api/auth/oidc/providers',
+          authorize: 'GET /api/auth/oidc/:provider/authorize',
+          callback: 'POST /api/auth/oidc/:provider/callback',
+          link: 'POST /api/auth/oidc/:provider/link',
+          linkCallback: 'POST /api/auth/oidc/:provider/link/callback',
+          identities: 'GET /api/auth/oidc/identities',
+          unlink: 'DELETE /api/auth/oidc/identities/:provider',
+        },
+        impersonation: {
+          start: 'POST /api/auth/impersonation',
+          stop: 'POST /api/auth/impersonation/stop',
+          audit: 'GET /api/auth/impersonation/:id/audit',
+        },
+        apiKeys: {
+          create: 'POST /api/auth/api-keys',
+          list: 'GET /api/auth/api-keys',
+          revoke: 'DELETE /api/auth/api-keys/:id',
+        },
+        addresses: {
+          list: 'GET /api/users/profile/addresses',
+          create: 'POST /api/users/profile/addresses',
+          update: 'PATCH /api/users/profile/addresses/:addressId',
+          remove: 'DELETE /api/users/profile/addresses/:addressId',
+        },
+        dataExports: {
+          request: 'POST /api/users/profile/data-exports',
+          list: 'GET /api/users/profile/data-exports',
+          download: 'GET /api/users/profile/data-exports/:exportId/download',
+        },
+        accountErasure: {
+          request: 'POST /api/users/profile/erasure',
+          confirm: 'POST /api/users/profile/erasure/confirm',
+          status: 'GET /api/users/profile/erasure',
+          cancel: 'DELETE /api/users/profile/erasure',
         },
         products: {
           list: 'GET /api/products',
           details: 'GET /api/products/:id',
           featured: 'GET /api/products/featured',
           category: 'GET /api/products/category/:category',
+          addVariant: 'POST /api/products/:id/variants',
+          updateVariant: 'PATCH /api/products/:id/variants/:variantId',
+          removeVariant: 'DELETE /api/products/:id/variants/:variantId',
+        },
+        categories: {
+          tree: 'GET /api/categories',
+          details: 'GET /api/categories/:idOrSlug',
+          create: 'POST /api/categories',
+          update: 'PATCH /api/categories/:id',
+          remove: 'DELETE /api/categories/:id',
+          uploadImage: 'POST /api/categories/:id/image',
+        },
+        wishlists: {
+          list: 'GET /api/wishlists',
+          create: 'POST /api/wishlists',
+          details: 'GET /api/wishlists/:id',
+          addToDefault: 'POST /api/wishlists/items',
+          addItem: 'POST /api/wishlists/:id/items',
+          removeItem: 'DELETE /api/wishlists/:id/items/:productId',
+          share: 'POST /api/wishlists/:id/share',
+          shared: 'GET /api/wishlists/shared/:shareToken',
+        },
+        reviews: {
+          product: 'GET /api/reviews/product/:productId',
+          mine: 'GET /api/reviews/me',
+          pending: 'GET /api/reviews/me/pending',
+          create: 'POST /api/reviews',
+          update: 'PATCH /api/reviews/:id',
+          remove: 'DELETE /api/reviews/:id',
+          addPhotos: 'POST /api/reviews/:id/photos',
+          helpful: 'POST /api/reviews/:id/helpful',
+          moderation: 'GET /api/reviews/moderation',
+          moderate: 'PATCH /api/reviews/:id/moderation',
         },
         cart: {
           get: 'GET /api/cart',
           add: 'POST /api/cart/add',
           update: 'PATCH /api/cart/item/:itemId',
           remove: 'DELETE /api/cart/item/:itemId',
+          guest: 'POST /api/cart/guest',
         },
         orders: {
           create: 'POST /api/orders',
           list: 'GET /api/orders',
           details: 'GET /api/orders/:id',
+          all: 'GET /api/orders/all',
+          guestCreate: 'POST /api/orders/guest',
+          guestDetails: 'GET /api/orders/guest/:id',
+          claim: 'POST /api/orders/claim',
         },
         payments: {
           process: 'POST /api/payments/process',
           refund: 'POST /api/payments/:paymentId/refund',
+          guestCheckout: 'POST /api/payments/stripe/guest-checkout-session',
         },
         notifications: {
           list: 'GET /api/notifications',
           markRead: 'PATCH /api/notifications/:id/read',
+          preferences: 'GET /api/notifications/preferences',
+          updatePreferences: 'PATCH /api/notifications/preferences',
+          registerDevice: 'POST /api/notifications/devices',
+          devices: 'GET /api/notifications/devices',
+          unregisterDevice: 'POST /api/notifications/devices/unregister',
+          removeDevice: 'DELETE /api/notifications/devices/:deviceId',
         },
       },
     };
@@ -87,7 +187,7 @@ export class ApiGatewayController {
 
   @Get('stats')
   @UseGuards(AuthGuard('jwt'))
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.SYSTEM_STATS)
   async getSystemStats() {
     return {
       timestamp: new Date().toISOString(),
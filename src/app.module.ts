@@ -2,22 +2,27 @@ import { Module, MiddlewareConsumer } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { EventEmitterModule } from '@nestjs/event-emitter';
-import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
+import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { ApiGatewayModule } from './api-gateway/api-gateway.module';
 import { CoreModule } from './core/core.module';
 import { SharedModule } from './shared/shared.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
 import { ProductsModule } from './modules/products/products.module';
+import { CategoriesModule } from './modules/categories/categories.module';
 import { CartModule } from './modules/cart/cart.module';
 import { OrdersModule } from './modules/orders/orders.module';
 import { PaymentsModule } from './modules/payments/payments.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
+import { WishlistsModule } from './modules/wishlists/wishlists.module';
+import { ReviewsModule } from './modules/reviews/reviews.module';
 import { DevModule } from './modules/dev/dev.module';
 import { LoggingMiddleware } from './shared/middleware/logging.middleware';
 import { RateLimitingMiddleware } from './shared/middleware/rate-limiting.middleware';
 import { HttpExceptionFilter } from './shared/filters/http-exception.filter';
 import { TransformInterceptor } from './shared/interceptors/transform.interceptor';
+import { RolesGuard } from './shared/guards/roles.guard';
+import { ImpersonationInterceptor } from './modules/auth/interceptors/impersonation.interceptor';
 
 @Module({
   imports: [
@@ -53,10 +58,13 @@ import { TransformInterceptor } from './shared/interceptors/transform.intercepto
     AuthModule,
     UsersModule,
     ProductsModule,
+    CategoriesModule,
     CartModule,
     OrdersModule,
     PaymentsModule,
     NotificationsModule,
+    WishlistsModule,
+    ReviewsModule,
     DevModule,
   ],
   providers: [
@@ -64,6 +72,14 @@ import { TransformInterceptor } from './shared/interceptors/transform.intercepto
       provide: APP_FILTER,
       useClass: HttpExceptionFilter,
     },
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ImpersonationInterceptor,
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: TransformInterceptor,
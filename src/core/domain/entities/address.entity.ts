@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from './base.entity';
+
+@Schema({ collection: 'addresses' })
+export class Address extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  // Nombre con el que el usuario identifica la dirección ("Casa", "Oficina")
+  @Prop()
+  label?: string;
+
+  @Prop({ required: true })
+  firstName: string;
+
+  @Prop({ required: true })
+  lastName: string;
+
+  @Prop({ required: true })
+  street: string;
+
+  @Prop({ required: true })
+  city: string;
+
+  @Prop({ required: true })
+  state: string;
+
+  @Prop({ required: true })
+  zipCode: string;
+
+  // Código ISO 3166-1 alfa-2
+  @Prop({ required: true, uppercase: true })
+  country: string;
+
+  @Prop()
+  phone?: string;
+
+  @Prop({ default: false })
+  isDefaultShipping: boolean;
+
+  @Prop({ default: false })
+  isDefaultBilling: boolean;
+}
+
+export const AddressSchema = SchemaFactory.createForClass(Address);
@@ -10,6 +10,13 @@ export class CartItem {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   productId: Types.ObjectId;
 
+  // Variante elegida cuando el producto tiene variantes
+  @Prop({ type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @Prop()
+  sku?: string;
+
   @Prop({ required: true, min: 1 })
   quantity: number;
 
@@ -30,8 +37,13 @@ export const CartItemSchema = SchemaFactory.createForClass(CartItem);
 
 @Schema({ collection: 'carts' })
 export class Cart extends BaseEntity {
-  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
-  userId: Types.ObjectId;
+  // Los carritos de invitado no tienen usuario: se identifican por el hash
+  // del token anónimo que guarda el cliente
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ unique: true, sparse: true })
+  guestTokenHash?: string;
 
   @Prop({ type: [CartItemSchema], default: [] })
   items: CartItem[];
@@ -41,6 +53,12 @@ export class Cart extends BaseEntity {
 
   @Prop({ default: 0 })
   totalItems: number;
+
+  // Solo se rellena en los carritos de invitado
+  @Prop()
+  expiresAt?: Date;
 }
 
 export const CartSchema = SchemaFactory.createForClass(Cart);
+
+CartSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from './base.entity';
+import { ProductImage } from './product.entity';
+
+export enum CategoryAttributeType {
+  TEXT = 'text',
+  NUMBER = 'number',
+  BOOLEAN = 'boolean',
+  SELECT = 'select',
+}
+
+/**
+ * Atributo que deben o pueden rellenar los productos de la categoría, p. ej.
+ * { key: 'heelHeight', label: 'Altura del tacón', type: 'number', unit: 'cm' }.
+ * Las subcategorías heredan los atributos de sus antecesoras.
+ */
+@Schema({ _id: false })
+export class CategoryAttribute {
+  @Prop({ required: true })
+  key: string;
+
+  @Prop({ required: true })
+  label: string;
+
+  @Prop({
+    type: String,
+    enum: CategoryAttributeType,
+    default: CategoryAttributeType.TEXT,
+  })
+  type: CategoryAttributeType;
+
+  // Valores permitidos de los atributos de tipo select
+  @Prop({ type: [String], default: [] })
+  options: string[];
+
+  @Prop({ default: false })
+  required: boolean;
+
+  @Prop()
+  unit?: string;
+}
+
+export const CategoryAttributeSchema =
+  SchemaFactory.createForClass(CategoryAttribute);
+
+@Schema({ collection: 'categories' })
+export class Category extends BaseEntity {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true, unique: true })
+  slug: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Category', default: null, index: true })
+  parentId?: Types.ObjectId;
+
+  // De la raíz al padre, para obtener descendientes y migas de pan sin
+  // recorrer el árbol
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Category' }], default: [] })
+  ancestors: Types.ObjectId[];
+
+  @Prop({ default: 0 })
+  sortOrder: number;
+
+  @Prop({ type: ProductImage })
+  image?: ProductImage;
+
+  @Prop({ type: [CategoryAttributeSchema], default: [] })
+  attributes: CategoryAttribute[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const CategorySchema = SchemaFactory.createForClass(Category);
+
+CategorySchema.index({ ancestors: 1 });
@@ -27,6 +27,12 @@ export class OrderItem {
   @Prop({ required: true })
   productName: string;
 
+  @Prop({ type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @Prop()
+  sku?: string;
+
   @Prop({ required: true, min: 1 })
   quantity: number;
 
@@ -74,8 +80,19 @@ export class Order extends BaseEntity {
   @Prop({ required: true, unique: true })
   orderNumber: string;
 
-  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
-  userId: Types.ObjectId;
+  // Vacío en los pedidos de invitado hasta que se reclaman desde una cuenta
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ lowercase: true, trim: true, index: true })
+  contactEmail?: string;
+
+  // Hash del token del enlace de consulta que se envía al invitado
+  @Prop({ select: false, index: true, sparse: true })
+  guestAccessTokenHash?: string;
+
+  @Prop()
+  claimedAt?: Date;
 
   @Prop({ type: [OrderItem], required: true })
   items: OrderItem[];
@@ -110,6 +127,9 @@ export class Order extends BaseEntity {
   @Prop()
   trackingNumber?: string;
 
+  @Prop()
+  deliveredAt?: Date;
+
   @Prop()
   notes?: string;
 }
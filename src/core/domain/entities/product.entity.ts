@@ -1,4 +1,5 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { BaseEntity } from './base.entity';
 
 @Schema({ _id: false })
@@ -10,16 +11,6 @@ export class ProductImage {
   publicId: string;
 }
 
-export enum ProductCategory {
-  SHIRTS = 'shirts',
-  PANTS = 'pants',
-  DRESSES = 'dresses',
-  SHOES = 'shoes',
-  ACCESSORIES = 'accessories',
-  JACKETS = 'jackets',
-  UNDERWEAR = 'underwear',
-}
-
 export enum ProductSize {
   XS = 'XS',
   S = 'S',
@@ -35,6 +26,49 @@ export enum ProductGender {
   UNISEX = 'unisex',
 }
 
+/**
+ * Combinación concreta de un producto (talla × color × otras opciones) con
+ * su propio SKU y stock. Sin precio propio se vende al precio del producto.
+ */
+@Schema()
+export class ProductVariant {
+  _id?: Types.ObjectId;
+
+  @Prop({ required: true })
+  sku: string;
+
+  @Prop()
+  barcode?: string;
+
+  @Prop({ type: String, enum: ProductSize })
+  size?: ProductSize;
+
+  @Prop()
+  color?: string;
+
+  // Opciones adicionales de la combinación, p. ej. { largo: 'regular' }
+  @Prop({ type: Object, default: {} })
+  options: Record<string, string>;
+
+  @Prop({ min: 0 })
+  price?: number;
+
+  @Prop({ min: 0 })
+  discountPrice?: number;
+
+  @Prop({ required: true, min: 0, default: 0 })
+  stock: number;
+
+  @Prop({ type: [ProductImage], default: [] })
+  images: ProductImage[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const ProductVariantSchema =
+  SchemaFactory.createForClass(ProductVariant);
+
 @Schema({ collection: 'products' })
 export class Product extends BaseEntity {
   @Prop({ required: true })
@@ -52,8 +86,12 @@ export class Product extends BaseEntity {
   @Prop({ required: true })
   sku: string;
 
-  @Prop({ type: String, enum: ProductCategory, required: true })
-  category: ProductCategory;
+  @Prop({ type: Types.ObjectId, ref: 'Category', required: true, index: true })
+  category: Types.ObjectId;
+
+  // Valores de los atributos definidos por la categoría, p. ej. { fit: 'slim' }
+  @Prop({ type: Object, default: {} })
+  attributes: Record<string, string | number | boolean>;
 
   @Prop({ type: String, enum: ProductGender, required: true })
   gender: ProductGender;
@@ -67,9 +105,13 @@ export class Product extends BaseEntity {
   @Prop({ type: [ProductImage] })
   images: ProductImage[];
 
+  // Con variantes es la suma del stock de las variantes activas
   @Prop({ required: true, min: 0 })
   stock: number;
 
+  @Prop({ type: [ProductVariantSchema], default: [] })
+  variants: ProductVariant[];
+
   @Prop({ type: [String] })
   tags: string[];
 
@@ -82,6 +124,11 @@ export class Product extends BaseEntity {
   @Prop({ default: 0 })
   reviewCount: number;
 
+  // Suma de las valoraciones aprobadas, para recalcular la media sin releer
+  // todas las reseñas
+  @Prop({ default: 0, select: false })
+  ratingTotal: number;
+
   @Prop()
   brand?: string;
 
@@ -90,4 +137,23 @@ export class Product extends BaseEntity {
 }
 
 export const ProductSchema = SchemaFactory.createForClass(Product);
+
+// Búsqueda de texto: sin distinguir tildes ni mayúsculas y con raíces en
+// español; el nombre pesa más que las etiquetas, la marca y la descripción
+ProductSchema.index(
+  { name: 'text', tags: 'text', brand: 'text', description: 'text' },
+  {
+    name: 'product_text_search',
+    weights: { name: 10, tags: 5, brand: 3, description: 1 },
+    default_language: 'spanish',
+  }
+);
+
+ProductSchema.index(
+  { 'variants.sku': 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'variants.sku': { $exists: true } },
+  }
+);
 export const ProductImageSchema = SchemaFactory.createForClass(ProductImage);
@@ -4,6 +4,8 @@ import { BaseEntity } from './base.entity';
 export enum UserRole {
   CUSTOMER = 'customer',
   ADMIN = 'admin',
+  WAREHOUSE = 'warehouse',
+  SUPPORT = 'support',
 }
 
 @Schema({ collection: 'users' })
@@ -14,6 +16,10 @@ export class User extends BaseEntity {
   @Prop({ required: true })
   password: string;
 
+  // Hashes de contraseñas anteriores para impedir su reutilización
+  @Prop({ type: [String], select: false, default: [] })
+  passwordHistory: string[];
+
   @Prop({ required: true })
   firstName: string;
 
@@ -37,6 +43,45 @@ export class User extends BaseEntity {
 
   @Prop({ default: true })
   isActive: boolean;
+
+  @Prop({ default: false })
+  emailVerified: boolean;
+
+  @Prop()
+  emailVerifiedAt?: Date;
+
+  // Protección contra fuerza bruta
+  @Prop({ default: 0 })
+  failedLoginAttempts: number;
+
+  @Prop()
+  lastFailedLoginAt?: Date;
+
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop()
+  lastLoginAt?: Date;
+
+  // Autenticación en dos pasos (TOTP). Los secretos no se devuelven por defecto
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  @Prop({ select: false })
+  twoFactorSecret?: string;
+
+  @Prop({ select: false })
+  twoFactorPendingSecret?: string;
+
+  @Prop({ type: [String], select: false, default: [] })
+  twoFactorRecoveryCodes: string[];
+
+  @Prop({ select: false })
+  twoFactorLastUsedStep?: number;
+
+  // Se incrementa para invalidar todos los access tokens emitidos
+  @Prop({ default: 0 })
+  tokenVersion: number;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { UserRole } from './entities/user.entity';
+
+export enum Permission {
+  // Productos
+  PRODUCTS_WRITE = 'products:write',
+
+  // Categorías
+  CATEGORIES_WRITE = 'categories:write',
+
+  // Pedidos
+  ORDERS_READ_ALL = 'orders:read_all',
+  ORDERS_FULFILL = 'orders:fulfill',
+
+  // Pagos
+  PAYMENTS_REFUND = 'payments:refund',
+
+  // Reseñas
+  REVIEWS_MODERATE = 'reviews:moderate',
+
+  // Usuarios
+  USERS_READ = 'users:read',
+  USERS_WRITE = 'users:write',
+  USERS_IMPERSONATE = 'users:impersonate',
+
+  // Sistema
+  SYSTEM_STATS = 'system:stats',
+}
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.CUSTOMER]: [],
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.WAREHOUSE]: [
+    Permission.PRODUCTS_WRITE,
+    Permission.ORDERS_READ_ALL,
+    Permission.ORDERS_FULFILL,
+  ],
+  [UserRole.SUPPORT]: [
+    Permission.ORDERS_READ_ALL,
+    Permission.PAYMENTS_REFUND,
+    Permission.USERS_READ,
+    Permission.REVIEWS_MODERATE,
+  ],
+};
+
+export function getRolePermissions(role: UserRole): Permission[] {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+export function hasPermissions(
+  role: UserRole,
+  permissions: Permission[]
+): boolean {
+  const granted = getRolePermissions(role);
+  return permissions.every((permission) => granted.includes(permission));
+}
@@ -47,7 +47,8 @@ async function bootstrap() {
     credentials: true,
   });
 
-  app.setGlobalPrefix('api');
+  // El JWKS se publica en la ruta estándar, fuera del prefijo de la API
+  app.setGlobalPrefix('api', { exclude: ['.well-known/jwks.json'] });
 
   // Configuración de Swagger
   const config = new DocumentBuilder()
@@ -63,6 +64,7 @@ async function bootstrap() {
     .addTag('orders', 'Gestión de pedidos')
     .addTag('payments', 'Procesamiento de pagos')
     .addTag('notifications', 'Sistema de notificaciones')
+    .addTag('api-keys', 'API keys para integraciones')
     .addBearerAuth(
       {
         type: 'http',
@@ -74,6 +76,15 @@ async function bootstrap() {
       },
       'JWT-auth'
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'X-API-Key',
+        description: 'API key para integraciones servidor a servidor',
+        in: 'header',
+      },
+      'api-key'
+    )
     .addServer('http://localhost:3001', 'Servidor de Desarrollo Local')
     .addServer(
       'https://moda-elegante-backend-production.up.railway.app',
@@ -0,0 +1,107 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+  // lastUsedAt se actualiza como mucho una vez por minuto
+  private readonly touchIntervalMs = 60 * 1000;
+
+  constructor(@InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKey>) {}
+
+  /**
+   * Crea una clave nueva. El valor en claro solo se devuelve en esta respuesta
+   */
+  async create(createApiKeyDto: CreateApiKeyDto, createdBy: string) {
+    const { name, scopes, expiresInDays } = createApiKeyDto;
+
+    const prefix = crypto.randomBytes(4).toString('hex');
+    const key = `sk_${prefix}_${crypto.randomBytes(24).toString('hex')}`;
+
+    const apiKey = await this.apiKeyModel.create({
+      name,
+      prefix,
+      keyHash: this.hashKey(key),
+      scopes,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+      createdBy,
+    });
+
+    this.logger.log(`API key creada: ${apiKey._id} (${name})`);
+
+    return { ...this.toResponse(apiKey), key };
+  }
+
+  async findAll() {
+    const apiKeys = await this.apiKeyModel.find().sort({ createdAt: -1 });
+    return apiKeys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  async revoke(id: string) {
+    const apiKey = Types.ObjectId.isValid(id)
+      ? await this.apiKeyModel.findOneAndUpdate(
+          { _id: id, revokedAt: { $exists: false } },
+          { revokedAt: new Date() },
+          { new: true }
+        )
+      : null;
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    this.logger.log(`API key revocada: ${apiKey._id} (${apiKey.name})`);
+
+    return { message: 'API key revoked successfully' };
+  }
+
+  /**
+   * Devuelve la clave si es válida (no revocada ni caducada) y registra su uso
+   */
+  async validate(key: string, ip?: string): Promise<ApiKey | null> {
+    const apiKey = await this.apiKeyModel.findOne({
+      keyHash: this.hashKey(key),
+      revokedAt: { $exists: false },
+    });
+
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      Date.now() - apiKey.lastUsedAt.getTime() > this.touchIntervalMs
+    ) {
+      await this.apiKeyModel.updateOne(
+        { _id: apiKey._id },
+        { lastUsedAt: new Date(), lastUsedIp: ip }
+      );
+    }
+
+    return apiKey;
+  }
+
+  private toResponse(apiKey: ApiKey) {
+    return {
+      id: apiKey._id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
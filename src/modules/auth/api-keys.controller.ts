@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ApiKeyService } from './api-key.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { Roles } from '@shared/decorators/roles.decorator';
+import { CurrentUser } from '@shared/decorators/current-user.decorator';
+import { UserRole } from '@core/domain/entities/user.entity';
+
+@ApiTags('api-keys')
+@Controller('auth/api-keys')
+@UseGuards(AuthGuard('jwt'))
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class ApiKeysController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Crear API key',
+    description:
+      'Crea una clave para integraciones con los scopes indicados. La clave solo se muestra en esta respuesta (solo administradores)',
+  })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'API key creada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Datos inválidos',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  create(@CurrentUser() user: any, @Body() createApiKeyDto: CreateApiKeyDto) {
+    return this.apiKeyService.create(createApiKeyDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Listar API keys',
+    description:
+      'Lista las claves con sus scopes, caducidad y último uso (solo administradores)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'API keys obtenidas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  findAll() {
+    return this.apiKeyService.findAll();
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Revocar API key',
+    description:
+      'Revoca una clave con efecto inmediato (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la API key' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'API key revocada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'API key no encontrada',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  revoke(@Param('id') id: string) {
+    return this.apiKeyService.revoke(id);
+  }
+}
@@ -4,8 +4,11 @@ import {
   Body,
   UseGuards,
   Get,
+  Delete,
+  Param,
   Request,
   HttpStatus,
+  HttpCode,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import {
@@ -14,17 +17,42 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiBody,
+  ApiParam,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
+import { PasswordResetService } from './password-reset.service';
+import { EmailVerificationService } from './email-verification.service';
+import { MagicLinkService } from './magic-link.service';
+import { TwoFactorService } from './two-factor.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { RequestMagicLinkDto } from './dto/request-magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import {
+  TwoFactorSetupResponseDto,
+  RecoveryCodesResponseDto,
+} from './dto/two-factor-response.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
 import { UserResponseDto } from './dto/user-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { DisallowImpersonation } from '@shared/decorators/disallow-impersonation.decorator';
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly magicLinkService: MagicLinkService,
+    private readonly twoFactorService: TwoFactorService
+  ) {}
 
   @Post('register')
   @ApiOperation({
@@ -45,14 +73,18 @@ export class AuthController {
     status: HttpStatus.CONFLICT,
     description: 'El email ya está registrado',
   })
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  async register(@Request() req, @Body() registerDto: RegisterDto) {
+    return this.authService.register(registerDto, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
   }
 
   @Post('login')
   @ApiOperation({
     summary: 'Iniciar sesión',
-    description: 'Autentica un usuario y devuelve un token JWT',
+    description:
+      'Autentica un usuario y devuelve un token JWT. Si el usuario tiene 2FA activo devuelve un token temporal para completar el login en /auth/2fa/verify',
   })
   @ApiBody({ type: LoginDto })
   @ApiResponse({
@@ -68,8 +100,405 @@ export class AuthController {
     status: HttpStatus.BAD_REQUEST,
     description: 'Datos de login inválidos',
   })
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Demasiados intentos fallidos, reintentar más tarde',
+  })
+  @ApiResponse({
+    status: 423,
+    description: 'Cuenta bloqueada temporalmente',
+  })
+  async login(@Request() req, @Body() loginDto: LoginDto) {
+    return this.authService.login(loginDto, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  @Post('magic-link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Solicitar enlace de acceso',
+    description:
+      'Envía por email un enlace de un solo uso para iniciar sesión sin contraseña. La respuesta es la misma exista o no la cuenta',
+  })
+  @ApiBody({ type: RequestMagicLinkDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Solicitud procesada',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Demasiadas solicitudes, intenta más tarde',
+  })
+  async requestMagicLink(
+    @Request() req,
+    @Body() requestMagicLinkDto: RequestMagicLinkDto
+  ) {
+    return this.magicLinkService.requestLink(requestMagicLinkDto.email, req.ip);
+  }
+
+  @Post('magic-link/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Iniciar sesión con enlace de acceso',
+    description:
+      'Intercambia el token del enlace por el par de tokens. Si el usuario tiene 2FA activo devuelve un token temporal para completar el login en /auth/2fa/verify',
+  })
+  @ApiBody({ type: VerifyMagicLinkDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Login exitoso',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Enlace inválido, expirado o ya utilizado',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Demasiados intentos fallidos, reintentar más tarde',
+  })
+  @ApiResponse({
+    status: 423,
+    description: 'Cuenta bloqueada temporalmente',
+  })
+  async verifyMagicLink(
+    @Request() req,
+    @Body() verifyMagicLinkDto: VerifyMagicLinkDto
+  ) {
+    return this.authService.loginWithMagicLink(verifyMagicLinkDto.token, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Renovar tokens',
+    description:
+      'Intercambia un refresh token válido por un nuevo par de tokens. El refresh token usado queda invalidado',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Tokens renovados exitosamente',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Refresh token inválido, expirado o revocado',
+  })
+  async refresh(@Request() req, @Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto.refreshToken, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cerrar sesión',
+    description: 'Revoca el refresh token de la sesión actual',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sesión cerrada exitosamente',
+  })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('logout-all')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Cerrar todas las sesiones',
+    description:
+      'Revoca todos los refresh tokens del usuario e invalida sus access tokens activos',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sesiones cerradas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  async logoutAll(@Request() req) {
+    return this.authService.logoutAll(req.user.id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('sessions')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Listar sesiones activas',
+    description:
+      'Devuelve los dispositivos con sesión abierta, su IP y última actividad. La sesión actual se marca con current',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sesiones obtenidas exitosamente',
+    type: [SessionResponseDto],
+  })
+  async getSessions(@Request() req) {
+    return this.authService.getSessions(req.user.id, req.user.sessionId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete('sessions/:id')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Cerrar una sesión',
+    description:
+      'Revoca la sesión indicada y todos sus tokens, con efecto inmediato',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la sesión' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sesión cerrada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Sesión no encontrada',
+  })
+  async revokeSession(@Request() req, @Param('id') id: string) {
+    return this.authService.revokeSession(req.user.id, id);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Solicitar restablecimiento de contraseña',
+    description:
+      'Envía un enlace de un solo uso para restablecer la contraseña. La respuesta es la misma exista o no la cuenta',
+  })
+  @ApiBody({ type: ForgotPasswordDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Solicitud procesada',
+  })
+  async forgotPassword(
+    @Request() req,
+    @Body() forgotPasswordDto: ForgotPasswordDto
+  ) {
+    return this.passwordResetService.requestReset(
+      forgotPasswordDto.email,
+      req.ip
+    );
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restablecer contraseña',
+    description:
+      'Establece una nueva contraseña usando el token recibido y cierra todas las sesiones activas',
+  })
+  @ApiBody({ type: ResetPasswordDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Contraseña restablecida exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Token inválido o expirado, o contraseña demasiado débil',
+  })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword
+    );
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verificar email',
+    description: 'Confirma la dirección de correo usando el token recibido',
+  })
+  @ApiBody({ type: VerifyEmailDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Email verificado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Token inválido o expirado',
+  })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.emailVerificationService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Reenviar email de verificación',
+    description: 'Envía un nuevo enlace de verificación al email del usuario',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Email de verificación enviado',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'El email ya está verificado',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Demasiadas solicitudes, intenta más tarde',
+  })
+  async resendVerification(@Request() req) {
+    return this.emailVerificationService.resendVerification(req.user.id);
+  }
+
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Completar login con 2FA',
+    description:
+      'Intercambia el token temporal del login y un código TOTP o de recuperación por el par de tokens',
+  })
+  @ApiBody({ type: VerifyTwoFactorDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Login completado exitosamente',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Código o token temporal inválido o expirado',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Demasiados intentos fallidos, reintentar más tarde',
+  })
+  async verifyTwoFactor(
+    @Request() req,
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto
+  ) {
+    return this.authService.verifyTwoFactorLogin(verifyTwoFactorDto, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/setup')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Configurar 2FA',
+    description:
+      'Genera un secreto TOTP y su URI otpauth. No se activa hasta confirmarlo con un código',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Secreto generado exitosamente',
+    type: TwoFactorSetupResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'El 2FA ya está activo',
+  })
+  async setupTwoFactor(@Request() req) {
+    return this.twoFactorService.setup(req.user.id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/enable')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Activar 2FA',
+    description:
+      'Confirma el secreto con un código de la aplicación y devuelve los códigos de recuperación',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: '2FA activado exitosamente',
+    type: RecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Código inválido o configuración no iniciada',
+  })
+  async enableTwoFactor(
+    @Request() req,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto
+  ) {
+    return this.twoFactorService.enable(req.user.id, twoFactorCodeDto.code);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/disable')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Desactivar 2FA',
+    description: 'Desactiva el 2FA con un código TOTP o de recuperación',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: '2FA desactivado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Código inválido o 2FA no activo',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'El 2FA es obligatorio para el rol del usuario',
+  })
+  async disableTwoFactor(
+    @Request() req,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto
+  ) {
+    return this.twoFactorService.disable(req.user.id, twoFactorCodeDto.code);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('2fa/recovery-codes')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Regenerar códigos de recuperación',
+    description:
+      'Invalida los códigos de recuperación anteriores y genera unos nuevos',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Códigos regenerados exitosamente',
+    type: RecoveryCodesResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Código inválido o 2FA no activo',
+  })
+  async regenerateRecoveryCodes(
+    @Request() req,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(
+      req.user.id,
+      twoFactorCodeDto.code
+    );
   }
 
   @UseGuards(AuthGuard('jwt'))
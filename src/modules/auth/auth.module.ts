@@ -4,21 +4,104 @@ import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AuthController } from './auth.controller';
+import { ApiKeysController } from './api-keys.controller';
+import { ImpersonationController } from './impersonation.controller';
+import { JwksController } from './jwks.controller';
+import { OidcController } from './oidc.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
+import { TokenService } from './token.service';
+import { PasswordResetService } from './password-reset.service';
+import { EmailVerificationService } from './email-verification.service';
+import { EmailVerificationMigrationService } from './email-verification-migration.service';
+import { LoginProtectionService } from './login-protection.service';
+import { TwoFactorService } from './two-factor.service';
+import { SessionService } from './session.service';
+import { ApiKeyService } from './api-key.service';
+import { ImpersonationService } from './impersonation.service';
+import { MagicLinkService } from './magic-link.service';
+import { SigningKeyService } from './signing-key.service';
+import { OidcService } from './oidc.service';
+import { OidcProviderService } from './oidc-provider.service';
 import { User, UserSchema } from '@core/domain/entities/user.entity';
+import {
+  RefreshToken,
+  RefreshTokenSchema,
+} from './entities/refresh-token.entity';
+import {
+  PasswordResetToken,
+  PasswordResetTokenSchema,
+} from './entities/password-reset-token.entity';
+import {
+  EmailVerificationToken,
+  EmailVerificationTokenSchema,
+} from './entities/email-verification-token.entity';
+import {
+  LoginAttempt,
+  LoginAttemptSchema,
+} from './entities/login-attempt.entity';
+import {
+  TwoFactorChallenge,
+  TwoFactorChallengeSchema,
+} from './entities/two-factor-challenge.entity';
+import { Session, SessionSchema } from './entities/session.entity';
+import { ApiKey, ApiKeySchema } from './entities/api-key.entity';
+import {
+  Impersonation,
+  ImpersonationSchema,
+} from './entities/impersonation.entity';
+import {
+  ImpersonationAuditLog,
+  ImpersonationAuditLogSchema,
+} from './entities/impersonation-audit-log.entity';
+import {
+  MagicLinkToken,
+  MagicLinkTokenSchema,
+} from './entities/magic-link-token.entity';
+import { SigningKey, SigningKeySchema } from './entities/signing-key.entity';
+import {
+  OidcAuthorization,
+  OidcAuthorizationSchema,
+} from './entities/oidc-authorization.entity';
+import {
+  ExternalIdentity,
+  ExternalIdentitySchema,
+} from './entities/external-identity.entity';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { PatternsModule } from '@shared/patterns/patterns.module';
+import { UtilsModule } from '@shared/utils/utils.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: RefreshToken.name, schema: RefreshTokenSchema },
+      { name: PasswordResetToken.name, schema: PasswordResetTokenSchema },
+      {
+        name: EmailVerificationToken.name,
+        schema: EmailVerificationTokenSchema,
+      },
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
+      { name: TwoFactorChallenge.name, schema: TwoFactorChallengeSchema },
+      { name: Session.name, schema: SessionSchema },
+      { name: ApiKey.name, schema: ApiKeySchema },
+      { name: Impersonation.name, schema: ImpersonationSchema },
+      {
+        name: ImpersonationAuditLog.name,
+        schema: ImpersonationAuditLogSchema,
+      },
+      { name: MagicLinkToken.name, schema: MagicLinkTokenSchema },
+      { name: SigningKey.name, schema: SigningKeySchema },
+      { name: OidcAuthorization.name, schema: OidcAuthorizationSchema },
+      { name: ExternalIdentity.name, schema: ExternalIdentitySchema },
+    ]),
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
+      // La clave de firma la aporta SigningKeyService en cada token
       useFactory: async (configService: ConfigService) => ({
-        secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
           expiresIn: configService.get<string>('JWT_EXPIRES_IN'),
         },
@@ -27,9 +110,40 @@ import { PatternsModule } from '@shared/patterns/patterns.module';
     }),
     NotificationsModule,
     PatternsModule,
+    UtilsModule,
+  ],
+  controllers: [
+    AuthController,
+    ApiKeysController,
+    ImpersonationController,
+    JwksController,
+    OidcController,
+  ],
+  providers: [
+    AuthService,
+    TokenService,
+    PasswordResetService,
+    EmailVerificationService,
+    EmailVerificationMigrationService,
+    LoginProtectionService,
+    TwoFactorService,
+    SessionService,
+    ApiKeyService,
+    ImpersonationService,
+    MagicLinkService,
+    SigningKeyService,
+    OidcService,
+    OidcProviderService,
+    JwtStrategy,
+    LocalStrategy,
+    ApiKeyStrategy,
+  ],
+  exports: [
+    AuthService,
+    TokenService,
+    SessionService,
+    ImpersonationService,
+    EmailVerificationService,
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, LocalStrategy],
-  exports: [AuthService],
 })
 export class AuthModule {}
\ No newline at end of file
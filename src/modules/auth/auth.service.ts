@@ -5,24 +5,44 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
-import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import { User } from '@core/domain/entities/user.entity';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
 import { NotificationsService } from '../notifications/notifications.service';
 import { EventHandlerService } from '@shared/patterns/event-handler.service';
+import { TokenService, TokenPair } from './token.service';
+import { EmailVerificationService } from './email-verification.service';
+import {
+  LoginProtectionService,
+  LoginContext,
+} from './login-protection.service';
+import { TwoFactorService } from './two-factor.service';
+import { SessionService } from './session.service';
+import { MagicLinkService } from './magic-link.service';
+import { OidcService } from './oidc.service';
+import { TwoFactorPolicy } from '@shared/utils/two-factor.policy';
+import { PasswordPolicy } from '@shared/utils/password.policy';
 
 @Injectable()
 export class AuthService {
   constructor(
     @InjectModel(User.name) private userModel: Model<User>,
-    private jwtService: JwtService,
+    private tokenService: TokenService,
+    private emailVerificationService: EmailVerificationService,
+    private loginProtectionService: LoginProtectionService,
+    private twoFactorService: TwoFactorService,
+    private sessionService: SessionService,
+    private magicLinkService: MagicLinkService,
+    private oidcService: OidcService,
+    private twoFactorPolicy: TwoFactorPolicy,
+    private passwordPolicy: PasswordPolicy,
     private notificationsService: NotificationsService,
     private eventHandlerService: EventHandlerService
   ) {}
 
-  async register(registerDto: RegisterDto) {
+  async register(registerDto: RegisterDto, context: LoginContext = {}) {
     const { email, password, firstName, lastName } = registerDto;
 
     const existingUser = await this.userModel.findOne({ email });
@@ -30,6 +50,8 @@ export class AuthService {
       throw new ConflictException('User with this email already exists');
     }
 
+    await this.passwordPolicy.assertValid(password);
+
     const hashedPassword = await bcrypt.hash(password, 10);
 
     const user = new this.userModel({
@@ -41,6 +63,194 @@ export class AuthService {
 
     await user.save();
 
+    await this.onUserRegistered(user);
+
+    const tokens = await this.tokenService.issueTokens(user, { context });
+    return this.buildAuthResponse(user, tokens);
+  }
+
+  async login(loginDto: LoginDto, context: LoginContext = {}) {
+    const { email, password } = loginDto;
+
+    const user = await this.verifyCredentials(email, password, context);
+
+    // Con 2FA activo el login se completa en /auth/2fa/verify
+    if (user.twoFactorEnabled) {
+      const challenge = await this.twoFactorService.createChallenge(user);
+      return { twoFactorRequired: true, ...challenge };
+    }
+
+    await this.loginProtectionService.recordSuccess(user, context);
+
+    const tokens = await this.tokenService.issueTokens(user, { context });
+    return this.buildAuthResponse(user, tokens);
+  }
+
+  async verifyTwoFactorLogin(
+    verifyTwoFactorDto: VerifyTwoFactorDto,
+    context: LoginContext = {}
+  ) {
+    const { twoFactorToken, code } = verifyTwoFactorDto;
+
+    await this.loginProtectionService.assertIpAllowed(context.ip);
+
+    const user = await this.twoFactorService.completeChallenge(
+      twoFactorToken,
+      code,
+      context
+    );
+
+    await this.loginProtectionService.recordSuccess(user, context);
+
+    const tokens = await this.tokenService.issueTokens(user, {
+      twoFactorVerified: true,
+      context,
+    });
+    return this.buildAuthResponse(user, tokens);
+  }
+
+  /**
+   * Completa el login sin contraseña con el token del enlace enviado por
+   * email. Respeta el bloqueo de cuenta y el segundo factor igual que /login.
+   */
+  async loginWithMagicLink(token: string, context: LoginContext = {}) {
+    await this.loginProtectionService.assertIpAllowed(context.ip);
+
+    // El estado de la cuenta se comprueba antes de consumir el enlace para
+    // que un bloqueo temporal no lo gaste
+    const user = await this.magicLinkService.findLinkUser(token);
+    this.loginProtectionService.assertAccountAllowed(user);
+    await this.magicLinkService.consumeLink(token, user);
+
+    if (user.twoFactorEnabled) {
+      const challenge = await this.twoFactorService.createChallenge(user);
+      return { twoFactorRequired: true, ...challenge };
+    }
+
+    await this.loginProtectionService.recordSuccess(user, context);
+
+    const tokens = await this.tokenService.issueTokens(user, { context });
+    return this.buildAuthResponse(user, tokens);
+  }
+
+  /**
+   * Completa el login con un proveedor OIDC. Las cuentas creadas en el
+   * primer acceso reciben la misma bienvenida que un registro normal.
+   */
+  async loginWithOidc(
+    provider: string,
+    code: string,
+    state: string,
+    context: LoginContext = {}
+  ) {
+    await this.loginProtectionService.assertIpAllowed(context.ip);
+
+    const { user, isNewUser } = await this.oidcService.completeAuthorization(
+      provider,
+      code,
+      state
+    );
+    if (isNewUser) {
+      await this.onUserRegistered(user);
+    }
+
+    this.loginProtectionService.assertAccountAllowed(user);
+
+    if (user.twoFactorEnabled) {
+      const challenge = await this.twoFactorService.createChallenge(user);
+      return { twoFactorRequired: true, ...challenge };
+    }
+
+    await this.loginProtectionService.recordSuccess(user, context);
+
+    const tokens = await this.tokenService.issueTokens(user, { context });
+    return this.buildAuthResponse(user, tokens);
+  }
+
+  async refresh(refreshToken: string, context: LoginContext = {}) {
+    const { user, tokens } = await this.tokenService.rotateRefreshToken(
+      refreshToken,
+      context
+    );
+    return this.buildAuthResponse(user, tokens);
+  }
+
+  async logout(refreshToken: string) {
+    await this.tokenService.revokeRefreshToken(refreshToken);
+    return { message: 'Logged out successfully' };
+  }
+
+  async logoutAll(userId: string) {
+    await this.tokenService.revokeAllForUser(userId);
+    return { message: 'Logged out from all devices successfully' };
+  }
+
+  async getSessions(userId: string, currentSessionId?: string) {
+    return this.sessionService.findActiveForUser(userId, currentSessionId);
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const session = await this.sessionService.findActiveById(
+      userId,
+      sessionId
+    );
+    await this.tokenService.revokeFamily(session.family);
+    return { message: 'Session revoked successfully' };
+  }
+
+  async validateUser(
+    email: string,
+    password: string,
+    context: LoginContext = {}
+  ): Promise<any> {
+    const user = await this.verifyCredentials(email, password, context);
+    if (user.twoFactorEnabled) {
+      throw new UnauthorizedException('Two-factor authentication required');
+    }
+
+    await this.loginProtectionService.recordSuccess(user, context);
+
+    const { password: _password, ...result } = user.toObject();
+    return result;
+  }
+
+  async findById(id: string): Promise<User> {
+    return this.userModel.findById(id).select('-password');
+  }
+
+  /**
+   * Comprueba las credenciales aplicando los límites por IP y por cuenta.
+   * Los fallos quedan registrados; el éxito lo registra el llamador cuando
+   * el login se completa, para que el 2FA no reinicie el contador.
+   */
+  private async verifyCredentials(
+    email: string,
+    password: string,
+    context: LoginContext
+  ): Promise<User> {
+    await this.loginProtectionService.assertIpAllowed(context.ip);
+
+    const user = await this.userModel.findOne({ email, isActive: true });
+    if (!user) {
+      await this.loginProtectionService.recordFailure(email, null, context);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    this.loginProtectionService.assertAccountAllowed(user);
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      await this.loginProtectionService.recordFailure(email, user, context);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    return user;
+  }
+
+  /**
+   * Bienvenida, evento de alta y verificación de email de una cuenta nueva
+   */
+  private async onUserRegistered(user: User): Promise<void> {
     try {
       await this.notificationsService.sendWelcomeNotification(
         user._id.toString(),
@@ -63,37 +273,12 @@ export class AuthService {
       console.error('Failed to send welcome notification:', error);
     }
 
-    const payload = { sub: user._id, email: user.email, role: user.role };
-    const token = this.jwtService.sign(payload, { expiresIn: '1h' });
-
-    return {
-      user: {
-        id: user._id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-      },
-      token,
-    };
-  }
-
-  async login(loginDto: LoginDto) {
-    const { email, password } = loginDto;
-
-    const user = await this.userModel.findOne({ email, isActive: true });
-    if (!user) {
-      throw new UnauthorizedException('Invalid credentials');
-    }
-
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
-      throw new UnauthorizedException('Invalid credentials');
+    if (!user.emailVerified) {
+      await this.emailVerificationService.sendVerification(user);
     }
+  }
 
-    const payload = { sub: user._id, email: user.email, role: user.role };
-    const token = this.jwtService.sign(payload, { expiresIn: '1h' });
-
+  private buildAuthResponse(user: User, tokens: TokenPair) {
     return {
       user: {
         id: user._id,
@@ -101,21 +286,15 @@ export class AuthService {
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
       },
-      token,
+      // El rol exige 2FA y aún no está configurado: debe activarlo antes de
+      // poder usar las rutas privilegiadas
+      twoFactorSetupRequired:
+        this.twoFactorPolicy.isRequiredFor(user.role) &&
+        !user.twoFactorEnabled,
+      ...tokens,
     };
   }
-
-  async validateUser(email: string, password: string): Promise<any> {
-    const user = await this.userModel.findOne({ email, isActive: true });
-    if (user && (await bcrypt.compare(password, user.password))) {
-      const { password, ...result } = user.toObject();
-      return result;
-    }
-    return null;
-  }
-
-  async findById(id: string): Promise<User> {
-    return this.userModel.findById(id).select('-password');
-  }
 }
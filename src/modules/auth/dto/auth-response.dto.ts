@@ -5,7 +5,20 @@ export class AuthResponseDto {
     description: 'Token JWT para autenticación',
     example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
   })
-  access_token: string;
+  token: string;
+
+  @ApiProperty({
+    description:
+      'Refresh token de un solo uso para obtener un nuevo par de tokens',
+    example: 'c3f1a9e2b7d04c8e9f...',
+  })
+  refreshToken: string;
+
+  @ApiProperty({
+    description: 'Duración del token JWT',
+    example: '15m',
+  })
+  expiresIn: string;
 
   @ApiProperty({
     description: 'Información del usuario autenticado',
@@ -17,8 +30,32 @@ export class AuthResponseDto {
     firstName: string;
     lastName: string;
     role: string;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
   };
 
+  @ApiProperty({
+    description:
+      'Presente cuando el usuario tiene 2FA activo: el login se completa en /auth/2fa/verify',
+    example: true,
+    required: false,
+  })
+  twoFactorRequired?: boolean;
+
+  @ApiProperty({
+    description: 'Token temporal para enviar junto al código en /auth/2fa/verify',
+    example: '9b1f3c7a2e...',
+    required: false,
+  })
+  twoFactorToken?: string;
+
+  @ApiProperty({
+    description:
+      'Indica que el rol del usuario exige 2FA y todavía no lo ha configurado',
+    example: false,
+  })
+  twoFactorSetupRequired: boolean;
+
   @ApiProperty({
     description: 'Mensaje de respuesta',
     example: 'Login exitoso',
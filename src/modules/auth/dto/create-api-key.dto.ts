@@ -0,0 +1,47 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  ArrayNotEmpty,
+  IsEnum,
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission } from '@core/domain/permissions';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Nombre descriptivo de la integración',
+    example: 'ERP - sincronización de catálogo',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Permisos concedidos a la clave',
+    enum: Permission,
+    isArray: true,
+    example: [Permission.PRODUCTS_WRITE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(Permission, { each: true })
+  scopes: Permission[];
+
+  @ApiProperty({
+    description: 'Días de validez. Sin valor la clave no caduca',
+    example: 90,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  expiresInDays?: number;
+}
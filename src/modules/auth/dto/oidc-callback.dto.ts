@@ -0,0 +1,20 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class OidcCallbackDto {
+  @ApiProperty({
+    description: 'Código de autorización devuelto por el proveedor',
+    example: '4/0AbCD...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({
+    description: 'Valor state devuelto por el proveedor junto al código',
+    example: 'q8Zk2v...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+}
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token obtenido en el login o en la última renovación',
+    example: 'c3f1a9e2b7d04c8e9f...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
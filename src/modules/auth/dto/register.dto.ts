@@ -1,4 +1,4 @@
-import { IsEmail, IsString, MinLength, IsNotEmpty } from 'class-validator';
+import { IsEmail, IsString, IsNotEmpty } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class RegisterDto {
@@ -12,12 +12,11 @@ export class RegisterDto {
   email: string;
 
   @ApiProperty({
-    description: 'Contraseña del usuario (mínimo 6 caracteres)',
-    example: 'miContraseña123',
-    minLength: 6,
+    description: 'Contraseña del usuario (debe cumplir la política de contraseñas)',
+    example: 'MiContraseña123!',
   })
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   password: string;
 
   @ApiProperty({
@@ -0,0 +1,13 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestMagicLinkDto {
+  @ApiProperty({
+    description: 'Correo electrónico de la cuenta a la que se envía el enlace',
+    example: 'usuario@ejemplo.com',
+    format: 'email',
+  })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+}
@@ -0,0 +1,21 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Token recibido en el enlace de restablecimiento',
+    example: '9b1f4c2e7a...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description:
+      'Nueva contraseña del usuario (debe cumplir la política de contraseñas)',
+    example: 'NuevaContraseña123!',
+  })
+  @IsString()
+  @IsNotEmpty()
+  newPassword: string;
+}
@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({
+    description: 'ID de la sesión',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Dispositivo detectado a partir del user agent',
+    example: 'Chrome en Windows',
+  })
+  deviceName: string;
+
+  @ApiProperty({
+    description: 'IP desde la que se inició la sesión',
+    example: '203.0.113.10',
+  })
+  ip: string;
+
+  @ApiProperty({
+    description: 'User agent del cliente',
+    example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...',
+  })
+  userAgent: string;
+
+  @ApiProperty({
+    description: 'Fecha de inicio de la sesión',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Última actividad registrada',
+    example: '2023-01-01T12:00:00.000Z',
+  })
+  lastSeenAt: Date;
+
+  @ApiProperty({
+    description: 'IP de la última actividad',
+    example: '203.0.113.10',
+  })
+  lastSeenIp: string;
+
+  @ApiProperty({
+    description: 'Indica si es la sesión desde la que se hace la petición',
+    example: true,
+  })
+  current: boolean;
+}
@@ -0,0 +1,20 @@
+import { IsMongoId, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StartImpersonationDto {
+  @ApiProperty({
+    description: 'ID del cliente a suplantar',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsMongoId()
+  userId: string;
+
+  @ApiProperty({
+    description: 'Motivo de la suplantación, queda registrado en la auditoría',
+    example: 'Ticket #1234: el cliente no ve su último pedido',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
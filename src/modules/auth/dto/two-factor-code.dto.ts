@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description:
+      'Código de 6 dígitos de la aplicación de autenticación o un código de recuperación',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
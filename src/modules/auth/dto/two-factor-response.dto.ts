@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorSetupResponseDto {
+  @ApiProperty({
+    description: 'Secreto en base32 para introducirlo manualmente',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    description: 'URI otpauth para generar el código QR',
+    example:
+      'otpauth://totp/Moda%20Elegante%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Moda+Elegante',
+  })
+  otpauthUrl: string;
+}
+
+export class RecoveryCodesResponseDto {
+  @ApiProperty({
+    description:
+      'Códigos de recuperación de un solo uso. Solo se muestran esta vez',
+    example: ['a1b2c3d4e5', 'f6a7b8c9d0'],
+  })
+  recoveryCodes: string[];
+}
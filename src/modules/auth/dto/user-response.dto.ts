@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '@core/domain/entities/user.entity';
 
 export class UserResponseDto {
   @ApiProperty({
@@ -28,7 +29,7 @@ export class UserResponseDto {
   @ApiProperty({
     description: 'Rol del usuario en el sistema',
     example: 'customer',
-    enum: ['customer', 'admin'],
+    enum: UserRole,
   })
   role: string;
 
@@ -45,6 +46,18 @@ export class UserResponseDto {
   })
   isActive: boolean;
 
+  @ApiProperty({
+    description: 'Indica si el usuario verificó su correo electrónico',
+    example: true,
+  })
+  emailVerified: boolean;
+
+  @ApiProperty({
+    description: 'Indica si el usuario tiene activa la autenticación en dos pasos',
+    example: false,
+  })
+  twoFactorEnabled: boolean;
+
   @ApiProperty({
     description: 'Fecha de creación del usuario',
     example: '2024-01-15T10:30:00.000Z',
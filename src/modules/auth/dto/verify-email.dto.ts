@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({
+    description: 'Token recibido en el enlace de verificación',
+    example: '4e8a1c9f0b...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyMagicLinkDto {
+  @ApiProperty({
+    description: 'Token recibido en el enlace de acceso',
+    example: '7c2d9e4a1f...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,21 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyTwoFactorDto {
+  @ApiProperty({
+    description: 'Token temporal devuelto por el login cuando el 2FA está activo',
+    example: '9b1f3c7a2e...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  twoFactorToken: string;
+
+  @ApiProperty({
+    description:
+      'Código de 6 dígitos de la aplicación de autenticación o un código de recuperación',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
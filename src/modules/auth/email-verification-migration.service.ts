@@ -0,0 +1,39 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { User } from '@core/domain/entities/user.entity';
+
+/**
+ * Marca como verificadas las cuentas creadas antes de la verificación de
+ * email (las que no tienen el campo emailVerified) para que la política de
+ * verificación no les bloquee la compra. Se ejecuta al arrancar y solo toca
+ * las cuentas pendientes, por lo que puede repetirse.
+ */
+@Injectable()
+export class EmailVerificationMigrationService implements OnModuleInit {
+  private readonly logger = new Logger(EmailVerificationMigrationService.name);
+
+  constructor(@InjectModel(User.name) private userModel: Model<User>) {}
+
+  async onModuleInit() {
+    try {
+      await this.migrateUsers();
+    } catch (error) {
+      this.logger.error('Error migrando la verificación de email:', error);
+    }
+  }
+
+  async migrateUsers(): Promise<number> {
+    const result = await this.userModel.updateMany(
+      { emailVerified: { $exists: false } },
+      { $set: { emailVerified: true } }
+    );
+
+    if (result.modifiedCount > 0) {
+      this.logger.log(
+        `${result.modifiedCount} cuentas existentes marcadas como verificadas`
+      );
+    }
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { User } from '@core/domain/entities/user.entity';
+import { EmailVerificationToken } from './entities/email-verification-token.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+  private readonly resendWindowMs = 60 * 60 * 1000; // 1 hour
+  private readonly maxResendsPerWindow = 3;
+
+  constructor(
+    @InjectModel(EmailVerificationToken.name)
+    private emailVerificationTokenModel: Model<EmailVerificationToken>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private notificationsService: NotificationsService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Genera un token de verificación y envía el enlace al email actual del usuario
+   */
+  async sendVerification(user: User): Promise<void> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresInHours = this.getExpiresInHours();
+
+    await this.emailVerificationTokenModel.create({
+      userId: user._id,
+      email: user.email,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+
+    try {
+      await this.notificationsService.sendAccountVerification(
+        user._id.toString(),
+        {
+          verificationUrl: `${this.configService.get<string>('FRONTEND_URL')}/verify-email?token=${token}`,
+          expiresInHours,
+        }
+      );
+    } catch (error) {
+      this.logger.error('Error enviando verificación de email:', error);
+    }
+  }
+
+  async resendVerification(userId: string) {
+    const user = await this.userModel.findById(userId);
+    if (!user || user.isDeleted) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.emailVerified) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    const recentRequests =
+      await this.emailVerificationTokenModel.countDocuments({
+        userId: user._id,
+        createdAt: { $gte: new Date(Date.now() - this.resendWindowMs) },
+      });
+    if (recentRequests >= this.maxResendsPerWindow) {
+      throw new HttpException(
+        'Too many verification emails requested, please try again later',
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+
+    await this.sendVerification(user);
+
+    return { message: 'Verification email sent' };
+  }
+
+  async verifyEmail(token: string) {
+    const verificationToken =
+      await this.emailVerificationTokenModel.findOneAndUpdate(
+        {
+          tokenHash: this.hashToken(token),
+          usedAt: { $exists: false },
+          expiresAt: { $gt: new Date() },
+        },
+        { usedAt: new Date() }
+      );
+    if (!verificationToken) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    const user = await this.userModel.findOneAndUpdate(
+      {
+        _id: verificationToken.userId,
+        email: verificationToken.email,
+        isDeleted: false,
+      },
+      { emailVerified: true, emailVerifiedAt: new Date() },
+      { new: true }
+    );
+    if (!user) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    await this.emailVerificationTokenModel.updateMany(
+      { userId: user._id, usedAt: { $exists: false } },
+      { usedAt: new Date() }
+    );
+
+    return { message: 'Email verified successfully' };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getExpiresInHours(): number {
+    return (
+      Number(
+        this.configService.get<string>('EMAIL_VERIFICATION_EXPIRES_HOURS')
+      ) || 24
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+import { Permission } from '@core/domain/permissions';
+
+/**
+ * Clave para integraciones servidor a servidor (ERP, almacén). No está
+ * asociada a un usuario: sus permisos son los scopes asignados al crearla.
+ */
+@Schema({ collection: 'api_keys' })
+export class ApiKey extends BaseEntity {
+  @Prop({ required: true })
+  name: string;
+
+  // Inicio visible de la clave para identificarla en los listados
+  @Prop({ required: true })
+  prefix: string;
+
+  @Prop({ required: true, unique: true })
+  keyHash: string;
+
+  @Prop({ type: [String], enum: Permission, default: [] })
+  scopes: Permission[];
+
+  @Prop()
+  expiresAt?: Date;
+
+  @Prop()
+  lastUsedAt?: Date;
+
+  @Prop()
+  lastUsedIp?: string;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+@Schema({ collection: 'email_verification_tokens' })
+export class EmailVerificationToken extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  // Email al que se envió el enlace; si el usuario lo cambia, el token deja de valer
+  @Prop({ required: true })
+  email: string;
+
+  @Prop({ required: true, unique: true })
+  tokenHash: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  usedAt?: Date;
+}
+
+export const EmailVerificationTokenSchema = SchemaFactory.createForClass(
+  EmailVerificationToken
+);
+
+EmailVerificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
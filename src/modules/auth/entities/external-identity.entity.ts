@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+/**
+ * Identidad de un proveedor externo (sub del id_token) vinculada a un usuario
+ */
+@Schema({ collection: 'external_identities' })
+export class ExternalIdentity extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop({ required: true })
+  subject: string;
+
+  @Prop()
+  email?: string;
+
+  @Prop()
+  lastLoginAt?: Date;
+}
+
+export const ExternalIdentitySchema =
+  SchemaFactory.createForClass(ExternalIdentity);
+
+ExternalIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+ExternalIdentitySchema.index({ userId: 1, provider: 1 }, { unique: true });
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+/**
+ * Registro de cada petición hecha con un token de suplantación, incluidas
+ * las bloqueadas. No caduca: forma parte del rastro de auditoría.
+ */
+@Schema({ collection: 'impersonation_audit_logs' })
+export class ImpersonationAuditLog extends BaseEntity {
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'Impersonation',
+    required: true,
+    index: true,
+  })
+  impersonationId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  impersonatorId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  method: string;
+
+  @Prop({ required: true })
+  path: string;
+
+  @Prop()
+  statusCode?: number;
+
+  @Prop({ default: false })
+  blocked: boolean;
+
+  @Prop()
+  ip?: string;
+}
+
+export const ImpersonationAuditLogSchema = SchemaFactory.createForClass(
+  ImpersonationAuditLog
+);
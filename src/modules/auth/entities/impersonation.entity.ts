@@ -0,0 +1,29 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+@Schema({ collection: 'impersonations' })
+export class Impersonation extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  impersonatorId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  reason: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  endedAt?: Date;
+
+  @Prop()
+  ip?: string;
+
+  @Prop()
+  userAgent?: string;
+}
+
+export const ImpersonationSchema = SchemaFactory.createForClass(Impersonation);
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+@Schema({ collection: 'login_attempts' })
+export class LoginAttempt extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', index: true })
+  userId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  email: string;
+
+  @Prop({ index: true })
+  ip?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  // Hash del user agent, usado para detectar inicios de sesión desde dispositivos nuevos
+  @Prop()
+  deviceHash?: string;
+
+  @Prop({ required: true })
+  success: boolean;
+}
+
+export const LoginAttemptSchema = SchemaFactory.createForClass(LoginAttempt);
+
+// Los intentos se conservan 30 días
+LoginAttemptSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 }
+);
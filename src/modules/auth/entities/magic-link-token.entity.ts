@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+@Schema({ collection: 'magic_link_tokens' })
+export class MagicLinkToken extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  tokenHash: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  usedAt?: Date;
+
+  @Prop({ index: true })
+  requestedFromIp?: string;
+}
+
+export const MagicLinkTokenSchema =
+  SchemaFactory.createForClass(MagicLinkToken);
+
+MagicLinkTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+/**
+ * Petición de autorización OIDC en curso. Guarda el code_verifier de PKCE
+ * y el nonce hasta que el proveedor redirige con el código.
+ */
+@Schema({ collection: 'oidc_authorizations' })
+export class OidcAuthorization extends BaseEntity {
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop({ required: true, unique: true })
+  stateHash: string;
+
+  @Prop({ required: true })
+  nonce: string;
+
+  @Prop({ required: true })
+  codeVerifier: string;
+
+  // Usuario autenticado que quiere vincular el proveedor a su cuenta
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  linkUserId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  usedAt?: Date;
+}
+
+export const OidcAuthorizationSchema =
+  SchemaFactory.createForClass(OidcAuthorization);
+
+OidcAuthorizationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
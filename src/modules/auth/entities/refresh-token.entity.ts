@@ -0,0 +1,34 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+@Schema({ collection: 'refresh_tokens' })
+export class RefreshToken extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  // Solo se guarda el hash SHA-256 del token, nunca el valor en claro
+  @Prop({ required: true, unique: true })
+  tokenHash: string;
+
+  // Todos los tokens obtenidos por rotación desde un mismo login comparten familia
+  @Prop({ required: true, index: true })
+  family: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop()
+  replacedByHash?: string;
+
+  // Indica si el login que originó la familia superó el segundo factor
+  @Prop({ default: false })
+  twoFactorVerified: boolean;
+}
+
+export const RefreshTokenSchema = SchemaFactory.createForClass(RefreshToken);
+
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
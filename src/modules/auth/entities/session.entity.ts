@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+/**
+ * Sesión iniciada en un dispositivo. Corresponde a una familia de refresh
+ * tokens, por lo que revocarla invalida todos los tokens de ese login.
+ */
+@Schema({ collection: 'sessions' })
+export class Session extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  family: string;
+
+  @Prop()
+  deviceName?: string;
+
+  @Prop()
+  ip?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop({ required: true })
+  lastSeenAt: Date;
+
+  @Prop()
+  lastSeenIp?: string;
+
+  // Se extiende con cada rotación hasta la caducidad del último refresh token
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
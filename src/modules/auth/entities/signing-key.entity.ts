@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+export enum SigningAlgorithm {
+  RS256 = 'RS256',
+  ES256 = 'ES256',
+}
+
+/**
+ * Par de claves para firmar los JWT. La clave activa es la más reciente sin
+ * retiredAt; las retiradas se siguen publicando en el JWKS hasta expiresAt.
+ */
+@Schema({ collection: 'signing_keys' })
+export class SigningKey extends BaseEntity {
+  @Prop({ required: true, unique: true })
+  kid: string;
+
+  @Prop({ type: String, enum: SigningAlgorithm, required: true })
+  algorithm: SigningAlgorithm;
+
+  @Prop({ required: true })
+  publicKey: string;
+
+  // PEM PKCS#8 cifrado con JWT_KEY_PASSPHRASE
+  @Prop({ required: true, select: false })
+  privateKey: string;
+
+  @Prop()
+  retiredAt?: Date;
+
+  @Prop()
+  expiresAt?: Date;
+}
+
+export const SigningKeySchema = SchemaFactory.createForClass(SigningKey);
+
+SigningKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+/**
+ * Paso intermedio del login cuando el usuario tiene 2FA activo: la
+ * contraseña ya se validó y falta el código TOTP o de recuperación.
+ */
+@Schema({ collection: 'two_factor_challenges' })
+export class TwoFactorChallenge extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  tokenHash: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  usedAt?: Date;
+}
+
+export const TwoFactorChallengeSchema =
+  SchemaFactory.createForClass(TwoFactorChallenge);
+
+TwoFactorChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
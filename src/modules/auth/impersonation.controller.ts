@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ImpersonationService } from './impersonation.service';
+import { StartImpersonationDto } from './dto/start-impersonation.dto';
+import { Permission } from '@core/domain/permissions';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
+
+@ApiTags('auth')
+@Controller('auth/impersonation')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth('JWT-auth')
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  @Post()
+  @RequirePermissions(Permission.USERS_IMPERSONATE)
+  @ApiOperation({
+    summary: 'Suplantar a un cliente',
+    description:
+      'Emite un token de corta duración para ver la cuenta como el cliente. Los pagos y el cambio de contraseña quedan bloqueados y cada petición se audita (solo administradores)',
+  })
+  @ApiBody({ type: StartImpersonationDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Token de suplantación emitido',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Usuario no encontrado',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'No tienes permisos o la cuenta indicada no es de cliente',
+  })
+  start(
+    @Request() req,
+    @Body() startImpersonationDto: StartImpersonationDto
+  ) {
+    return this.impersonationService.start(
+      req.user.id,
+      startImpersonationDto,
+      { ip: req.ip, userAgent: req.headers['user-agent'] }
+    );
+  }
+
+  @Post('stop')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Terminar suplantación',
+    description:
+      'Invalida el token de suplantación con el que se hace la petición',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Suplantación terminada',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'El token no es de suplantación',
+  })
+  stop(@Request() req) {
+    return this.impersonationService.stop(req.user.impersonationId);
+  }
+
+  @Get(':id/audit')
+  @RequirePermissions(Permission.USERS_IMPERSONATE)
+  @ApiOperation({
+    summary: 'Auditoría de una suplantación',
+    description:
+      'Devuelve la suplantación y todas las peticiones realizadas con ella (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la suplantación' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Auditoría obtenida exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Suplantación no encontrada',
+  })
+  getAuditLog(@Param('id') id: string) {
+    return this.impersonationService.getAuditLog(id);
+  }
+}
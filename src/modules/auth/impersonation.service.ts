@@ -0,0 +1,158 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { User, UserRole } from '@core/domain/entities/user.entity';
+import { Impersonation } from './entities/impersonation.entity';
+import { ImpersonationAuditLog } from './entities/impersonation-audit-log.entity';
+import { StartImpersonationDto } from './dto/start-impersonation.dto';
+import { TokenService } from './token.service';
+import { LoginContext } from './login-protection.service';
+
+export interface ImpersonatedRequest {
+  impersonationId: string;
+  impersonatorId: string;
+  userId: string;
+  method: string;
+  path: string;
+  statusCode?: number;
+  blocked: boolean;
+  ip?: string;
+}
+
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    @InjectModel(Impersonation.name)
+    private impersonationModel: Model<Impersonation>,
+    @InjectModel(ImpersonationAuditLog.name)
+    private auditLogModel: Model<ImpersonationAuditLog>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private tokenService: TokenService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Emite un token de corta duración para ver la cuenta como el cliente.
+   * Solo se pueden suplantar cuentas de cliente.
+   */
+  async start(
+    impersonatorId: string,
+    startImpersonationDto: StartImpersonationDto,
+    context: LoginContext = {}
+  ) {
+    const { userId, reason } = startImpersonationDto;
+
+    if (userId === impersonatorId) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const user = await this.userModel.findOne({ _id: userId, isDeleted: false });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (!user.isActive) {
+      throw new BadRequestException('User is not active');
+    }
+    if (user.role !== UserRole.CUSTOMER) {
+      throw new ForbiddenException('Only customer accounts can be impersonated');
+    }
+
+    const expiresInMinutes = this.getExpiresInMinutes();
+    const impersonation = await this.impersonationModel.create({
+      impersonatorId,
+      userId: user._id,
+      reason,
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+      ip: context.ip,
+      userAgent: context.userAgent,
+    });
+
+    this.logger.warn(
+      `Suplantación iniciada: ${impersonatorId} como ${user._id} (${impersonation._id})`
+    );
+
+    const token = this.tokenService.issueImpersonationToken(
+      user,
+      impersonatorId,
+      impersonation._id.toString(),
+      expiresInMinutes
+    );
+
+    return {
+      token,
+      expiresIn: `${expiresInMinutes}m`,
+      impersonationId: impersonation._id,
+      user: {
+        id: user._id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+      },
+    };
+  }
+
+  async stop(impersonationId?: string) {
+    if (!impersonationId) {
+      throw new BadRequestException('You are not impersonating a user');
+    }
+
+    await this.impersonationModel.updateOne(
+      { _id: impersonationId, endedAt: { $exists: false } },
+      { endedAt: new Date() }
+    );
+
+    return { message: 'Impersonation ended successfully' };
+  }
+
+  async isActive(impersonationId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(impersonationId)) return false;
+
+    const impersonation = await this.impersonationModel.exists({
+      _id: impersonationId,
+      endedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+
+    return !!impersonation;
+  }
+
+  async recordRequest(request: ImpersonatedRequest): Promise<void> {
+    try {
+      await this.auditLogModel.create(request);
+    } catch (error) {
+      this.logger.error('Error registrando auditoría de suplantación:', error);
+    }
+  }
+
+  async getAuditLog(impersonationId: string) {
+    const impersonation = Types.ObjectId.isValid(impersonationId)
+      ? await this.impersonationModel.findById(impersonationId)
+      : null;
+    if (!impersonation) {
+      throw new NotFoundException('Impersonation not found');
+    }
+
+    const requests = await this.auditLogModel
+      .find({ impersonationId: impersonation._id })
+      .sort({ createdAt: 1 });
+
+    return { impersonation, requests };
+  }
+
+  private getExpiresInMinutes(): number {
+    return (
+      Number(this.configService.get<string>('IMPERSONATION_EXPIRES_MINUTES')) ||
+      15
+    );
+  }
+}
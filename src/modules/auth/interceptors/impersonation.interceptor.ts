@@ -0,0 +1,72 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, throwError } from 'rxjs';
+import { tap, catchError } from 'rxjs/operators';
+import { DISALLOW_IMPERSONATION_KEY } from '@shared/decorators/disallow-impersonation.decorator';
+import { ImpersonationService } from '../impersonation.service';
+
+/**
+ * Interceptor global para las peticiones hechas con un token de suplantación:
+ * bloquea las rutas marcadas con @DisallowImpersonation y registra todas
+ * las peticiones en la auditoría. Se ejecuta después de los guards, cuando
+ * el usuario ya está autenticado.
+ */
+@Injectable()
+export class ImpersonationInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private impersonationService: ImpersonationService
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user?.impersonatorId) {
+      return next.handle();
+    }
+
+    const record = (statusCode: number, blocked = false) =>
+      this.impersonationService.recordRequest({
+        impersonationId: user.impersonationId,
+        impersonatorId: user.impersonatorId,
+        userId: user.id,
+        method: request.method,
+        path: request.originalUrl || request.url,
+        statusCode,
+        blocked,
+        ip: request.ip,
+      });
+
+    const disallowed = this.reflector.getAllAndOverride<boolean>(
+      DISALLOW_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()]
+    );
+    if (disallowed) {
+      record(HttpStatus.FORBIDDEN, true);
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating a user'
+      );
+    }
+
+    return next.handle().pipe(
+      tap(() => record(context.switchToHttp().getResponse().statusCode)),
+      catchError((error) => {
+        record(
+          error instanceof HttpException
+            ? error.getStatus()
+            : HttpStatus.INTERNAL_SERVER_ERROR
+        );
+        return throwError(() => error);
+      })
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Header, HttpStatus, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Response } from 'express';
+import { SigningKeyService } from './signing-key.service';
+
+@ApiTags('auth')
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly signingKeyService: SigningKeyService) {}
+
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  @ApiOperation({
+    summary: 'Claves públicas de firma (JWKS)',
+    description:
+      'Publica las claves con las que se firman los tokens, incluidas las retiradas que siguen vigentes, para que otros servicios puedan verificarlos por su kid',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Conjunto de claves en formato JWKS',
+  })
+  async getJwks(@Res() res: Response) {
+    // Se responde sin el envoltorio de TransformInterceptor: los clientes
+    // JWKS esperan el formato estándar { keys: [...] }
+    res.json(await this.signingKeyService.getJwks());
+  }
+}
@@ -0,0 +1,208 @@
+import { Injectable, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { User } from '@core/domain/entities/user.entity';
+import { LoginAttempt } from './entities/login-attempt.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+
+export interface LoginContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+@Injectable()
+export class LoginProtectionService {
+  private readonly logger = new Logger(LoginProtectionService.name);
+  private readonly ipWindowMs = 15 * 60 * 1000; // 15 minutes
+  private readonly delayFreeAttempts = 2;
+  private readonly maxDelaySeconds = 60;
+
+  constructor(
+    @InjectModel(LoginAttempt.name)
+    private loginAttemptModel: Model<LoginAttempt>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private notificationsService: NotificationsService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Rechaza la petición si la IP acumula demasiados intentos fallidos
+   */
+  async assertIpAllowed(ip?: string): Promise<void> {
+    if (!ip) return;
+
+    const failures = await this.loginAttemptModel.countDocuments({
+      ip,
+      success: false,
+      createdAt: { $gte: new Date(Date.now() - this.ipWindowMs) },
+    });
+
+    if (failures >= this.getMaxAttemptsPerIp()) {
+      throw new HttpException(
+        'Too many failed login attempts from this IP, please try again later',
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+  }
+
+  /**
+   * Comprueba el bloqueo temporal de la cuenta y el retardo progresivo
+   * entre intentos fallidos consecutivos.
+   */
+  assertAccountAllowed(user: User): void {
+    const now = Date.now();
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw new HttpException(
+        `Account temporarily locked, try again after ${user.lockedUntil.toISOString()}`,
+        423 // Locked
+      );
+    }
+
+    const delaySeconds = this.getRequiredDelaySeconds(
+      user.failedLoginAttempts || 0
+    );
+    if (delaySeconds > 0 && user.lastFailedLoginAt) {
+      const retryAt = user.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+      if (retryAt > now) {
+        throw new HttpException(
+          `Too many failed attempts, wait ${Math.ceil((retryAt - now) / 1000)} seconds before trying again`,
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+    }
+  }
+
+  async recordFailure(
+    email: string,
+    user: User | null,
+    context: LoginContext
+  ): Promise<void> {
+    await this.loginAttemptModel.create({
+      userId: user?._id,
+      email,
+      ip: context.ip,
+      userAgent: context.userAgent,
+      deviceHash: this.getDeviceHash(context),
+      success: false,
+    });
+
+    if (!user) return;
+
+    const updated = await this.userModel.findByIdAndUpdate(
+      user._id,
+      {
+        $inc: { failedLoginAttempts: 1 },
+        lastFailedLoginAt: new Date(),
+      },
+      { new: true }
+    );
+
+    if (updated.failedLoginAttempts >= this.getMaxAttemptsPerAccount()) {
+      const lockedUntil = new Date(
+        Date.now() + this.getLockoutMinutes() * 60 * 1000
+      );
+      await this.userModel.findByIdAndUpdate(user._id, {
+        failedLoginAttempts: 0,
+        lockedUntil,
+      });
+
+      this.logger.warn(`Cuenta bloqueada temporalmente: ${user._id}`);
+      await this.sendSecurityAlert(
+        user,
+        context,
+        'bloqueo de cuenta por intentos fallidos'
+      );
+    }
+  }
+
+  async recordSuccess(user: User, context: LoginContext): Promise<void> {
+    const deviceHash = this.getDeviceHash(context);
+
+    const [previousLogins, knownDevice] = await Promise.all([
+      this.loginAttemptModel.countDocuments({
+        userId: user._id,
+        success: true,
+      }),
+      deviceHash
+        ? this.loginAttemptModel.exists({
+            userId: user._id,
+            success: true,
+            deviceHash,
+          })
+        : Promise.resolve(null),
+    ]);
+
+    await Promise.all([
+      this.loginAttemptModel.create({
+        userId: user._id,
+        email: user.email,
+        ip: context.ip,
+        userAgent: context.userAgent,
+        deviceHash,
+        success: true,
+      }),
+      this.userModel.findByIdAndUpdate(user._id, {
+        failedLoginAttempts: 0,
+        $unset: { lastFailedLoginAt: 1, lockedUntil: 1 },
+        lastLoginAt: new Date(),
+      }),
+    ]);
+
+    if (deviceHash && previousLogins > 0 && !knownDevice) {
+      await this.sendSecurityAlert(
+        user,
+        context,
+        'inicio de sesión desde un nuevo dispositivo'
+      );
+    }
+  }
+
+  private async sendSecurityAlert(
+    user: User,
+    context: LoginContext,
+    activity: string
+  ): Promise<void> {
+    try {
+      await this.notificationsService.sendSecurityAlert(user._id.toString(), {
+        activity,
+        ip: context.ip,
+        userAgent: context.userAgent,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.error('Error enviando alerta de seguridad:', error);
+    }
+  }
+
+  private getRequiredDelaySeconds(failedAttempts: number): number {
+    if (failedAttempts <= this.delayFreeAttempts) return 0;
+    return Math.min(
+      2 ** (failedAttempts - this.delayFreeAttempts - 1),
+      this.maxDelaySeconds
+    );
+  }
+
+  private getDeviceHash(context: LoginContext): string | undefined {
+    if (!context.userAgent) return undefined;
+    return crypto.createHash('sha256').update(context.userAgent).digest('hex');
+  }
+
+  private getMaxAttemptsPerAccount(): number {
+    return Number(this.configService.get<string>('LOGIN_MAX_ATTEMPTS')) || 5;
+  }
+
+  private getMaxAttemptsPerIp(): number {
+    return (
+      Number(this.configService.get<string>('LOGIN_MAX_ATTEMPTS_PER_IP')) || 20
+    );
+  }
+
+  private getLockoutMinutes(): number {
+    return (
+      Number(this.configService.get<string>('LOGIN_LOCKOUT_MINUTES')) || 15
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  Injectable,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { User } from '@core/domain/entities/user.entity';
+import { MagicLinkToken } from './entities/magic-link-token.entity';
+import { EmailService } from '@shared/services/email.service';
+
+@Injectable()
+export class MagicLinkService {
+  private readonly logger = new Logger(MagicLinkService.name);
+  private readonly throttleWindowMs = 60 * 60 * 1000; // 1 hour
+  private readonly maxRequestsPerIp = 10;
+
+  constructor(
+    @InjectModel(MagicLinkToken.name)
+    private magicLinkTokenModel: Model<MagicLinkToken>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private emailService: EmailService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Envía un enlace de acceso de un solo uso. La respuesta es siempre la
+   * misma para no revelar qué emails están registrados.
+   */
+  async requestLink(email: string, ip?: string) {
+    const response = {
+      message:
+        'If an account exists for this email, a sign-in link has been sent',
+    };
+
+    if (ip) {
+      const requestsFromIp = await this.magicLinkTokenModel.countDocuments({
+        requestedFromIp: ip,
+        createdAt: { $gte: new Date(Date.now() - this.throttleWindowMs) },
+      });
+      if (requestsFromIp >= this.maxRequestsPerIp) {
+        throw new HttpException(
+          'Too many sign-in links requested, please try again later',
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+    }
+
+    const user = await this.userModel.findOne({
+      email,
+      isActive: true,
+      isDeleted: false,
+    });
+    if (!user) {
+      return response;
+    }
+
+    const recentRequests = await this.magicLinkTokenModel.countDocuments({
+      userId: user._id,
+      createdAt: { $gte: new Date(Date.now() - this.throttleWindowMs) },
+    });
+    if (recentRequests >= this.getMaxRequestsPerWindow()) {
+      this.logger.warn(
+        `Límite de enlaces de acceso alcanzado para ${user._id}`
+      );
+      return response;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresInMinutes = this.getExpiresInMinutes();
+
+    await this.magicLinkTokenModel.create({
+      userId: user._id,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+      requestedFromIp: ip,
+    });
+
+    const sent = await this.emailService.sendMagicLinkEmail(user.email, {
+      customerName: `${user.firstName} ${user.lastName}`,
+      loginUrl: `${this.configService.get<string>('FRONTEND_URL')}/magic-link?token=${token}`,
+      expiresInMinutes,
+    });
+    if (!sent) {
+      this.logger.error(`Error enviando enlace de acceso a ${user._id}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Usuario de un enlace pendiente, sin consumirlo, para comprobar el estado
+   * de la cuenta antes de gastar el enlace
+   */
+  async findLinkUser(token: string): Promise<User> {
+    const pendingToken = await this.magicLinkTokenModel.findOne(
+      this.getPendingFilter(token)
+    );
+    const user = pendingToken
+      ? await this.userModel.findById(pendingToken.userId)
+      : null;
+    if (!user || !user.isActive || user.isDeleted) {
+      throw new BadRequestException('Invalid or expired sign-in link');
+    }
+
+    return user;
+  }
+
+  /**
+   * Consume el enlace del usuario de forma atómica. Al usarse uno, se
+   * invalidan los demás enlaces pendientes del usuario.
+   */
+  async consumeLink(token: string, user: User): Promise<void> {
+    const magicLinkToken = await this.magicLinkTokenModel.findOneAndUpdate(
+      { ...this.getPendingFilter(token), userId: user._id },
+      { usedAt: new Date() }
+    );
+    if (!magicLinkToken) {
+      throw new BadRequestException('Invalid or expired sign-in link');
+    }
+
+    await this.magicLinkTokenModel.updateMany(
+      { userId: user._id, usedAt: { $exists: false } },
+      { usedAt: new Date() }
+    );
+  }
+
+  private getPendingFilter(token: string) {
+    return {
+      tokenHash: this.hashToken(token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getExpiresInMinutes(): number {
+    return (
+      Number(this.configService.get<string>('MAGIC_LINK_EXPIRES_MINUTES')) || 15
+    );
+  }
+
+  private getMaxRequestsPerWindow(): number {
+    return (
+      Number(this.configService.get<string>('MAGIC_LINK_MAX_PER_HOUR')) || 3
+    );
+  }
+}
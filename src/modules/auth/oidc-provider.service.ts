@@ -0,0 +1,322 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import axios from 'axios';
+import * as crypto from 'crypto';
+
+export interface OidcProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  redirectUri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  nonce?: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface CachedValue<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+const ID_TOKEN_ALGORITHMS = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'ES256',
+  'ES384',
+] as const;
+
+/**
+ * Cliente OIDC (authorization code + PKCE) para los proveedores declarados
+ * en OIDC_PROVIDERS (p. ej. "google,microsoft"). Cada proveedor se configura
+ * con OIDC_<NOMBRE>_ISSUER, OIDC_<NOMBRE>_CLIENT_ID, OIDC_<NOMBRE>_CLIENT_SECRET
+ * (opcional para clientes públicos), OIDC_<NOMBRE>_SCOPES y
+ * OIDC_<NOMBRE>_REDIRECT_URI. Los endpoints se obtienen por discovery, así que
+ * basta con apuntar el issuer a un proveedor falso local para las pruebas.
+ * Las peticiones al proveedor se cortan a los OIDC_HTTP_TIMEOUT_MS (por
+ * defecto 10000).
+ */
+@Injectable()
+export class OidcProviderService {
+  private readonly logger = new Logger(OidcProviderService.name);
+  private readonly cacheTtlMs = 60 * 60 * 1000; // 1 hour
+  private readonly discoveryCache = new Map<
+    string,
+    CachedValue<OidcDiscovery>
+  >();
+  private readonly jwksCache = new Map<
+    string,
+    CachedValue<crypto.JsonWebKey[]>
+  >();
+
+  constructor(
+    private jwtService: JwtService,
+    private configService: ConfigService
+  ) {}
+
+  getProviderNames(): string[] {
+    return (this.configService.get<string>('OIDC_PROVIDERS') || '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name) => name && this.readProviderConfig(name));
+  }
+
+  getProvider(name: string): OidcProviderConfig {
+    const provider = this.getProviderNames().includes(name)
+      ? this.readProviderConfig(name)
+      : null;
+    if (!provider) {
+      throw new NotFoundException('Unknown identity provider');
+    }
+    return provider;
+  }
+
+  async buildAuthorizationUrl(
+    provider: OidcProviderConfig,
+    params: { state: string; nonce: string; codeVerifier: string }
+  ): Promise<string> {
+    const discovery = await this.discover(provider);
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: provider.redirectUri,
+      scope: provider.scopes,
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: crypto
+        .createHash('sha256')
+        .update(params.codeVerifier)
+        .digest('base64url'),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return url.toString();
+  }
+
+  /**
+   * Intercambia el código por los tokens del proveedor y devuelve los
+   * claims del id_token ya verificado
+   */
+  async exchangeCode(
+    provider: OidcProviderConfig,
+    code: string,
+    codeVerifier: string,
+    nonce: string
+  ): Promise<OidcClaims> {
+    const discovery = await this.discover(provider);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    let idToken: string;
+    try {
+      const response = await axios.post(
+        discovery.token_endpoint,
+        body.toString(),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: this.getHttpTimeout(),
+        }
+      );
+      idToken = response.data.id_token;
+    } catch (error) {
+      this.logger.error(
+        `Error intercambiando el código con ${provider.name}:`,
+        error.response?.data || error.message
+      );
+    }
+    if (!idToken) {
+      throw new UnauthorizedException(
+        'Could not exchange the authorization code'
+      );
+    }
+
+    return this.verifyIdToken(provider, discovery, idToken, nonce);
+  }
+
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscovery,
+    idToken: string,
+    nonce: string
+  ): Promise<OidcClaims> {
+    const decoded = this.jwtService.decode(idToken, { complete: true });
+    const algorithm = ID_TOKEN_ALGORITHMS.find(
+      (alg) => alg === decoded?.header?.alg
+    );
+    if (!algorithm) {
+      throw new UnauthorizedException('Invalid identity token');
+    }
+
+    const publicKey = await this.getPublicKey(
+      provider,
+      discovery,
+      decoded.header.kid
+    );
+
+    let claims: OidcClaims;
+    try {
+      claims = this.jwtService.verify<OidcClaims>(idToken, {
+        publicKey,
+        algorithms: [algorithm],
+        issuer: discovery.issuer,
+        audience: provider.clientId,
+      });
+    } catch (error) {
+      throw new UnauthorizedException('Invalid identity token');
+    }
+
+    if (!claims.sub || claims.nonce !== nonce) {
+      throw new UnauthorizedException('Invalid identity token');
+    }
+
+    return claims;
+  }
+
+  private async discover(provider: OidcProviderConfig): Promise<OidcDiscovery> {
+    const cached = this.discoveryCache.get(provider.name);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtlMs) {
+      return cached.value;
+    }
+
+    let discovery: OidcDiscovery;
+    try {
+      const response = await axios.get<OidcDiscovery>(
+        `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+        { timeout: this.getHttpTimeout() }
+      );
+      discovery = response.data;
+    } catch (error) {
+      this.logger.error(
+        `Error obteniendo la configuración OIDC de ${provider.name}:`,
+        error.message
+      );
+      throw new UnauthorizedException('Identity provider is unavailable');
+    }
+
+    if (
+      discovery.issuer?.replace(/\/$/, '') !==
+      provider.issuer.replace(/\/$/, '')
+    ) {
+      throw new UnauthorizedException(
+        'Identity provider returned an unexpected issuer'
+      );
+    }
+
+    this.discoveryCache.set(provider.name, {
+      value: discovery,
+      fetchedAt: Date.now(),
+    });
+    return discovery;
+  }
+
+  /**
+   * Clave pública del proveedor para el kid indicado. Si no está en caché
+   * se vuelve a descargar el JWKS por si el proveedor ha rotado sus claves.
+   */
+  private async getPublicKey(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscovery,
+    kid?: string
+  ): Promise<string> {
+    const findKey = (keys: crypto.JsonWebKey[]) =>
+      kid
+        ? keys.find((key) => key.kid === kid)
+        : keys.length === 1
+          ? keys[0]
+          : undefined;
+
+    const cached = this.jwksCache.get(provider.name);
+    let jwk =
+      cached && Date.now() - cached.fetchedAt < this.cacheTtlMs
+        ? findKey(cached.value)
+        : undefined;
+
+    if (!jwk) {
+      try {
+        const response = await axios.get<{ keys: crypto.JsonWebKey[] }>(
+          discovery.jwks_uri,
+          { timeout: this.getHttpTimeout() }
+        );
+        const keys = response.data.keys || [];
+        this.jwksCache.set(provider.name, {
+          value: keys,
+          fetchedAt: Date.now(),
+        });
+        jwk = findKey(keys);
+      } catch (error) {
+        this.logger.error(
+          `Error obteniendo las claves de ${provider.name}:`,
+          error.message
+        );
+      }
+    }
+
+    if (!jwk) {
+      throw new UnauthorizedException('Invalid identity token');
+    }
+
+    return crypto
+      .createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' }) as string;
+  }
+
+  private getHttpTimeout(): number {
+    return (
+      Number(this.configService.get<string>('OIDC_HTTP_TIMEOUT_MS')) || 10000
+    );
+  }
+
+  private readProviderConfig(name: string): OidcProviderConfig | null {
+    const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const issuer = this.configService.get<string>(`${prefix}ISSUER`);
+    const clientId = this.configService.get<string>(`${prefix}CLIENT_ID`);
+    if (!issuer || !clientId) return null;
+
+    return {
+      name,
+      issuer,
+      clientId,
+      clientSecret: this.configService.get<string>(`${prefix}CLIENT_SECRET`),
+      scopes:
+        this.configService.get<string>(`${prefix}SCOPES`) ||
+        'openid email profile',
+      redirectUri:
+        this.configService.get<string>(`${prefix}REDIRECT_URI`) ||
+        `${this.configService.get<string>('FRONTEND_URL')}/auth/oidc/${name}/callback`,
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { OidcService } from './oidc.service';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { DisallowImpersonation } from '@shared/decorators/disallow-impersonation.decorator';
+
+@ApiTags('auth')
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly oidcService: OidcService
+  ) {}
+
+  @Get('providers')
+  @ApiOperation({
+    summary: 'Listar proveedores de identidad',
+    description:
+      'Devuelve los proveedores OIDC configurados para el login social',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Proveedores obtenidos exitosamente',
+  })
+  getProviders() {
+    return this.oidcService.getProviders();
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('identities')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Listar proveedores vinculados',
+    description: 'Devuelve los proveedores externos vinculados a la cuenta',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Identidades obtenidas exitosamente',
+  })
+  getIdentities(@Request() req) {
+    return this.oidcService.getIdentities(req.user.id);
+  }
+
+  @Get(':provider/authorize')
+  @ApiOperation({
+    summary: 'Iniciar login con un proveedor',
+    description:
+      'Devuelve la URL de autorización (authorization code con PKCE) a la que redirigir al usuario',
+  })
+  @ApiParam({ name: 'provider', description: 'Nombre del proveedor' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'URL de autorización generada',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Proveedor no configurado',
+  })
+  authorize(@Param('provider') provider: string) {
+    return this.oidcService.startAuthorization(provider);
+  }
+
+  @Post(':provider/callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Completar login con un proveedor',
+    description:
+      'Intercambia el código devuelto por el proveedor por el par de tokens. Si la identidad no está vinculada se vincula por email verificado (solo cuentas de cliente) o se crea una cuenta nueva. Con 2FA activo devuelve un token temporal para /auth/2fa/verify. No acepta flujos de vinculación',
+  })
+  @ApiParam({ name: 'provider', description: 'Nombre del proveedor' })
+  @ApiBody({ type: OidcCallbackDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Login exitoso',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Código, state o id_token inválido',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'Ya existe una cuenta con ese email que no puede vincularse automáticamente (email sin verificar por el proveedor o cuenta que no es de cliente), o la identidad está vinculada a otra cuenta',
+  })
+  callback(
+    @Request() req,
+    @Param('provider') provider: string,
+    @Body() oidcCallbackDto: OidcCallbackDto
+  ) {
+    return this.authService.loginWithOidc(
+      provider,
+      oidcCallbackDto.code,
+      oidcCallbackDto.state,
+      { ip: req.ip, userAgent: req.headers['user-agent'] }
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':provider/link')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Vincular un proveedor',
+    description:
+      'Devuelve la URL de autorización para vincular el proveedor a la cuenta actual. El flujo se completa en /auth/oidc/:provider/link/callback con la misma sesión',
+  })
+  @ApiParam({ name: 'provider', description: 'Nombre del proveedor' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'URL de autorización generada',
+  })
+  link(@Request() req, @Param('provider') provider: string) {
+    return this.oidcService.startAuthorization(provider, req.user.id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':provider/link/callback')
+  @DisallowImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Completar vinculación de un proveedor',
+    description:
+      'Vincula la identidad devuelta por el proveedor a la cuenta actual. Solo acepta el state generado por /auth/oidc/:provider/link para este mismo usuario y no emite tokens',
+  })
+  @ApiParam({ name: 'provider', description: 'Nombre del proveedor' })
+  @ApiBody({ type: OidcCallbackDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Proveedor vinculado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Código, state o id_token inválido',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'La identidad ya está vinculada a otra cuenta',
+  })
+  linkCallback(
+    @Request() req,
+    @Param('provider') provider: string,
+    @Body() oidcCallbackDto: OidcCallbackDto
+  ) {
+    return this.oidcService.completeLink(
+      req.user.id,
+      provider,
+      oidcCallbackDto.code,
+      oidcCallbackDto.state
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete('identities/:provider')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Desvincular un proveedor',
+    description: 'Elimina la vinculación del proveedor con la cuenta actual',
+  })
+  @ApiParam({ name: 'provider', description: 'Nombre del proveedor' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Proveedor desvinculado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'El proveedor no está vinculado',
+  })
+  unlink(@Request() req, @Param('provider') provider: string) {
+    return this.oidcService.unlink(req.user.id, provider);
+  }
+}
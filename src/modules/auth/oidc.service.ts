@@ -0,0 +1,305 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { User, UserRole } from '@core/domain/entities/user.entity';
+import { OidcAuthorization } from './entities/oidc-authorization.entity';
+import { ExternalIdentity } from './entities/external-identity.entity';
+import { OidcProviderService, OidcClaims } from './oidc-provider.service';
+import { PasswordService } from '@shared/utils/password.service';
+
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly authorizationExpiresInMinutes = 10;
+
+  constructor(
+    @InjectModel(OidcAuthorization.name)
+    private oidcAuthorizationModel: Model<OidcAuthorization>,
+    @InjectModel(ExternalIdentity.name)
+    private externalIdentityModel: Model<ExternalIdentity>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private oidcProviderService: OidcProviderService,
+    private passwordService: PasswordService
+  ) {}
+
+  getProviders() {
+    return this.oidcProviderService
+      .getProviderNames()
+      .map((name) => ({ name }));
+  }
+
+  /**
+   * Genera la URL de autorización con state, nonce y PKCE. Si se indica un
+   * usuario, el flujo solo puede completarse con completeLink y la sesión de
+   * ese mismo usuario.
+   */
+  async startAuthorization(providerName: string, linkUserId?: string) {
+    const provider = this.oidcProviderService.getProvider(providerName);
+
+    const state = this.generateRandomString();
+    const nonce = this.generateRandomString();
+    const codeVerifier = this.generateRandomString();
+
+    await this.oidcAuthorizationModel.create({
+      provider: provider.name,
+      stateHash: this.hashToken(state),
+      nonce,
+      codeVerifier,
+      linkUserId,
+      expiresAt: new Date(
+        Date.now() + this.authorizationExpiresInMinutes * 60 * 1000
+      ),
+    });
+
+    const authorizationUrl =
+      await this.oidcProviderService.buildAuthorizationUrl(provider, {
+        state,
+        nonce,
+        codeVerifier,
+      });
+
+    return { authorizationUrl };
+  }
+
+  /**
+   * Completa un login con el código devuelto por el proveedor y resuelve el
+   * usuario: identidad ya vinculada, vinculación por email verificado (solo
+   * cuentas de cliente) o alta de una cuenta nueva. Los flujos de
+   * vinculación no se aceptan aquí.
+   */
+  async completeAuthorization(
+    providerName: string,
+    code: string,
+    state: string
+  ): Promise<{ user: User; isNewUser: boolean }> {
+    const provider = this.oidcProviderService.getProvider(providerName);
+    const authorization = await this.claimAuthorization(provider.name, state);
+
+    const claims = await this.oidcProviderService.exchangeCode(
+      provider,
+      code,
+      authorization.codeVerifier,
+      authorization.nonce
+    );
+
+    const identity = await this.externalIdentityModel.findOne({
+      provider: provider.name,
+      subject: claims.sub,
+    });
+
+    if (identity) {
+      const user = await this.userModel.findById(identity.userId);
+      this.assertActive(user);
+      await this.externalIdentityModel.updateOne(
+        { _id: identity._id },
+        { lastLoginAt: new Date(), email: claims.email }
+      );
+      return { user, isNewUser: false };
+    }
+
+    if (!claims.email) {
+      throw new BadRequestException(
+        'The identity provider did not return an email address'
+      );
+    }
+    const email = claims.email.toLowerCase();
+
+    const existingUser = await this.userModel.findOne({ email });
+    if (existingUser) {
+      // Solo se vincula automáticamente si el proveedor garantiza el email y
+      // la cuenta es de cliente: las cuentas con privilegios vinculan sus
+      // proveedores con la sesión iniciada
+      if (
+        !this.isEmailVerified(claims) ||
+        existingUser.role !== UserRole.CUSTOMER
+      ) {
+        throw new ConflictException(
+          'An account with this email already exists, sign in and link the provider from your profile'
+        );
+      }
+      this.assertActive(existingUser);
+      await this.createIdentity(existingUser, provider.name, claims);
+      return { user: existingUser, isNewUser: false };
+    }
+
+    const user = await this.userModel.create({
+      email,
+      // Contraseña aleatoria: la cuenta se usa con el proveedor o con
+      // restablecimiento de contraseña
+      password: await this.passwordService.hashPassword(
+        this.generateRandomString()
+      ),
+      firstName: claims.given_name || claims.name || email.split('@')[0],
+      lastName: claims.family_name || '-',
+      emailVerified: this.isEmailVerified(claims),
+      emailVerifiedAt: this.isEmailVerified(claims) ? new Date() : undefined,
+    });
+    await this.createIdentity(user, provider.name, claims);
+
+    this.logger.log(`Cuenta creada con ${provider.name}: ${user._id}`);
+
+    return { user, isNewUser: true };
+  }
+
+  /**
+   * Completa una vinculación iniciada por el mismo usuario autenticado. Un
+   * state generado para otra cuenta se rechaza sin consumirlo, de modo que
+   * nadie puede vincular su cuenta con la identidad de otra persona.
+   */
+  async completeLink(
+    userId: string,
+    providerName: string,
+    code: string,
+    state: string
+  ) {
+    const provider = this.oidcProviderService.getProvider(providerName);
+    const authorization = await this.claimAuthorization(
+      provider.name,
+      state,
+      userId
+    );
+
+    const claims = await this.oidcProviderService.exchangeCode(
+      provider,
+      code,
+      authorization.codeVerifier,
+      authorization.nonce
+    );
+
+    const identity = await this.externalIdentityModel.findOne({
+      provider: provider.name,
+      subject: claims.sub,
+    });
+    await this.linkIdentity(userId, provider.name, claims, identity);
+
+    return { message: 'Identity provider linked successfully' };
+  }
+
+  async getIdentities(userId: string) {
+    const identities = await this.externalIdentityModel
+      .find({ userId })
+      .sort({ createdAt: 1 });
+
+    return identities.map((identity) => ({
+      provider: identity.provider,
+      email: identity.email,
+      linkedAt: identity.createdAt,
+      lastLoginAt: identity.lastLoginAt,
+    }));
+  }
+
+  async unlink(userId: string, providerName: string) {
+    const result = await this.externalIdentityModel.deleteOne({
+      userId,
+      provider: providerName,
+    });
+    if (!result.deletedCount) {
+      throw new NotFoundException('Identity provider is not linked');
+    }
+
+    return { message: 'Identity provider unlinked successfully' };
+  }
+
+  /**
+   * Marca el state como usado. Sin linkUserId solo acepta flujos de login;
+   * con él, solo la vinculación iniciada por ese usuario.
+   */
+  private async claimAuthorization(
+    providerName: string,
+    state: string,
+    linkUserId?: string
+  ): Promise<OidcAuthorization> {
+    if (linkUserId && !Types.ObjectId.isValid(linkUserId)) {
+      throw new UnauthorizedException('Invalid or expired authorization state');
+    }
+
+    const authorization = await this.oidcAuthorizationModel.findOneAndUpdate(
+      {
+        provider: providerName,
+        stateHash: this.hashToken(state),
+        linkUserId: linkUserId
+          ? new Types.ObjectId(linkUserId)
+          : { $exists: false },
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      },
+      { usedAt: new Date() }
+    );
+    if (!authorization) {
+      throw new UnauthorizedException('Invalid or expired authorization state');
+    }
+    return authorization;
+  }
+
+  private async linkIdentity(
+    userId: string,
+    providerName: string,
+    claims: OidcClaims,
+    identity: ExternalIdentity | null
+  ): Promise<User> {
+    const user = await this.userModel.findById(userId);
+    this.assertActive(user);
+
+    if (identity) {
+      if (identity.userId.toString() !== userId) {
+        throw new ConflictException(
+          'This external account is already linked to another user'
+        );
+      }
+      return user;
+    }
+
+    const alreadyLinked = await this.externalIdentityModel.exists({
+      userId,
+      provider: providerName,
+    });
+    if (alreadyLinked) {
+      throw new ConflictException(
+        'Another account from this provider is already linked'
+      );
+    }
+
+    await this.createIdentity(user, providerName, claims);
+    return user;
+  }
+
+  private async createIdentity(
+    user: User,
+    providerName: string,
+    claims: OidcClaims
+  ): Promise<void> {
+    await this.externalIdentityModel.create({
+      userId: user._id,
+      provider: providerName,
+      subject: claims.sub,
+      email: claims.email,
+      lastLoginAt: new Date(),
+    });
+  }
+
+  private assertActive(user: User | null): void {
+    if (!user || !user.isActive || user.isDeleted) {
+      throw new UnauthorizedException('User is no longer active');
+    }
+  }
+
+  private isEmailVerified(claims: OidcClaims): boolean {
+    return claims.email_verified === true || claims.email_verified === 'true';
+  }
+
+  private generateRandomString(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
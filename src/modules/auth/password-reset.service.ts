@@ -0,0 +1,153 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { User } from '@core/domain/entities/user.entity';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { TokenService } from './token.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PasswordService } from '@shared/utils/password.service';
+import { PasswordPolicy } from '@shared/utils/password.policy';
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+  private readonly throttleWindowMs = 60 * 60 * 1000; // 1 hour
+
+  constructor(
+    @InjectModel(PasswordResetToken.name)
+    private passwordResetTokenModel: Model<PasswordResetToken>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private tokenService: TokenService,
+    private notificationsService: NotificationsService,
+    private passwordService: PasswordService,
+    private passwordPolicy: PasswordPolicy,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Inicia el restablecimiento. La respuesta es siempre la misma para no
+   * revelar qué emails están registrados.
+   */
+  async requestReset(email: string, ip?: string) {
+    const response = {
+      message:
+        'If an account exists for this email, password reset instructions have been sent',
+    };
+
+    const user = await this.userModel.findOne({
+      email,
+      isActive: true,
+      isDeleted: false,
+    });
+    if (!user) {
+      return response;
+    }
+
+    const recentRequests = await this.passwordResetTokenModel.countDocuments({
+      userId: user._id,
+      createdAt: { $gte: new Date(Date.now() - this.throttleWindowMs) },
+    });
+    if (recentRequests >= this.getMaxRequestsPerWindow()) {
+      this.logger.warn(
+        `Límite de solicitudes de restablecimiento alcanzado para ${user._id}`
+      );
+      return response;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresInMinutes = this.getExpiresInMinutes();
+
+    await this.passwordResetTokenModel.create({
+      userId: user._id,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+      requestedFromIp: ip,
+    });
+
+    try {
+      await this.notificationsService.sendPasswordReset(user._id.toString(), {
+        resetUrl: `${this.configService.get<string>('FRONTEND_URL')}/reset-password?token=${token}`,
+        expiresInMinutes,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.error(
+        'Error enviando notificación de restablecimiento:',
+        error
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Completa el restablecimiento con un token de un solo uso y cierra
+   * todas las sesiones abiertas del usuario.
+   */
+  async resetPassword(token: string, newPassword: string) {
+    const tokenFilter = {
+      tokenHash: this.hashToken(token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    };
+
+    // Validar antes de consumir el token para que un error de la política
+    // no obligue a pedir otro enlace
+    const pendingToken =
+      await this.passwordResetTokenModel.findOne(tokenFilter);
+    const user = pendingToken
+      ? await this.userModel
+          .findById(pendingToken.userId)
+          .select('+passwordHistory')
+      : null;
+    if (!user || !user.isActive || user.isDeleted) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.passwordPolicy.assertValid(newPassword, user);
+
+    // Marcar el token como usado de forma atómica para que sea de un solo uso
+    const resetToken = await this.passwordResetTokenModel.findOneAndUpdate(
+      tokenFilter,
+      { usedAt: new Date() }
+    );
+    if (!resetToken) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    user.passwordHistory = this.passwordPolicy.buildHistory(user);
+    user.password = await this.passwordService.hashPassword(newPassword);
+    await user.save();
+
+    // Invalidar cualquier otro token pendiente del usuario
+    await this.passwordResetTokenModel.updateMany(
+      { userId: user._id, usedAt: { $exists: false } },
+      { usedAt: new Date() }
+    );
+
+    await this.tokenService.revokeAllForUser(user._id.toString());
+
+    return { message: 'Password has been reset successfully' };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getExpiresInMinutes(): number {
+    return (
+      Number(
+        this.configService.get<string>('PASSWORD_RESET_EXPIRES_MINUTES')
+      ) || 30
+    );
+  }
+
+  private getMaxRequestsPerWindow(): number {
+    return (
+      Number(this.configService.get<string>('PASSWORD_RESET_MAX_PER_HOUR')) ||
+      3
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { User } from '@core/domain/entities/user.entity';
+import { Session } from './entities/session.entity';
+import { LoginContext } from './login-protection.service';
+
+@Injectable()
+export class SessionService {
+  // lastSeenAt se actualiza como mucho una vez por minuto
+  private readonly touchIntervalMs = 60 * 1000;
+
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<Session>
+  ) {}
+
+  /**
+   * Registra el uso de una familia de tokens. La primera vez (login) crea
+   * la sesión con los datos del dispositivo; en las rotaciones la actualiza.
+   */
+  async recordActivity(
+    user: User,
+    family: string,
+    context: LoginContext,
+    expiresAt: Date
+  ): Promise<Session> {
+    return this.sessionModel.findOneAndUpdate(
+      { family },
+      {
+        $set: { lastSeenAt: new Date(), lastSeenIp: context.ip, expiresAt },
+        $setOnInsert: {
+          userId: user._id,
+          ip: context.ip,
+          userAgent: context.userAgent,
+          deviceName: this.describeDevice(context.userAgent),
+        },
+      },
+      { upsert: true, new: true }
+    );
+  }
+
+  /**
+   * Comprueba que la sesión de un access token sigue activa y actualiza su
+   * última actividad
+   */
+  async touch(sessionId: string, ip?: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) return false;
+
+    const session = await this.sessionModel
+      .findById(sessionId)
+      .select('revokedAt lastSeenAt');
+    if (!session || session.revokedAt) return false;
+
+    if (Date.now() - session.lastSeenAt.getTime() > this.touchIntervalMs) {
+      await this.sessionModel.updateOne(
+        { _id: session._id },
+        { lastSeenAt: new Date(), lastSeenIp: ip }
+      );
+    }
+
+    return true;
+  }
+
+  async findActiveForUser(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionModel
+      .find({
+        userId,
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastSeenAt: -1 });
+
+    return sessions.map((session) => ({
+      id: session._id,
+      deviceName: session.deviceName,
+      ip: session.ip,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      lastSeenIp: session.lastSeenIp,
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  async findActiveById(userId: string, sessionId: string): Promise<Session> {
+    const session = Types.ObjectId.isValid(sessionId)
+      ? await this.sessionModel.findOne({
+          _id: sessionId,
+          userId,
+          revokedAt: { $exists: false },
+        })
+      : null;
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    return session;
+  }
+
+  async revokeByFamily(family: string): Promise<void> {
+    await this.sessionModel.updateOne(
+      { family, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+  }
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.sessionModel.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+  }
+
+  /**
+   * Nombre legible del dispositivo a partir del user agent (p. ej. "Chrome en Windows")
+   */
+  private describeDevice(userAgent?: string): string {
+    if (!userAgent) return 'Dispositivo desconocido';
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Chrome\//, 'Chrome'],
+      [/Firefox\//, 'Firefox'],
+      [/Safari\//, 'Safari'],
+      [/PostmanRuntime/, 'Postman'],
+    ];
+    const systems: [RegExp, string][] = [
+      [/Windows/, 'Windows'],
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iOS/, 'iOS'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent));
+    const system = systems.find(([pattern]) => pattern.test(userAgent));
+
+    if (browser && system) return `${browser[1]} en ${system[1]}`;
+    return browser?.[1] || system?.[1] || 'Dispositivo desconocido';
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  Injectable,
+  UnauthorizedException,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { SigningKey, SigningAlgorithm } from './entities/signing-key.entity';
+
+interface ActiveSigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: crypto.KeyObject;
+}
+
+/**
+ * Anillo de claves asimétricas para firmar los JWT. La clave activa se rota
+ * cada JWT_KEY_ROTATION_DAYS (por defecto 30) y las anteriores se siguen
+ * aceptando y publicando en el JWKS durante JWT_KEY_OVERLAP_HOURS (por
+ * defecto 24), que debe superar la duración de los access tokens.
+ */
+@Injectable()
+export class SigningKeyService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SigningKeyService.name);
+  private readonly rotationCheckIntervalMs = 60 * 60 * 1000; // 1 hour
+  private readonly reloadThrottleMs = 60 * 1000;
+
+  private activeKey: ActiveSigningKey | null = null;
+  private verificationKeys = new Map<string, SigningKey>();
+  private loadedAt = 0;
+  private rotationTimer: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(SigningKey.name)
+    private signingKeyModel: Model<SigningKey>,
+    private jwtService: JwtService,
+    private configService: ConfigService
+  ) {}
+
+  async onModuleInit() {
+    await this.rotateIfDue();
+
+    this.rotationTimer = setInterval(() => {
+      this.rotateIfDue().catch((error) =>
+        this.logger.error('Error rotando la clave de firma:', error)
+      );
+    }, this.rotationCheckIntervalMs);
+    this.rotationTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.rotationTimer);
+  }
+
+  /**
+   * Genera una clave nueva si no hay ninguna activa para el algoritmo
+   * configurado o si la activa ha cumplido su periodo de rotación
+   */
+  async rotateIfDue(): Promise<void> {
+    const active = await this.signingKeyModel
+      .findOne({
+        algorithm: this.getAlgorithm(),
+        retiredAt: { $exists: false },
+      })
+      .sort({ createdAt: -1 });
+
+    const rotationMs = this.getRotationDays() * 24 * 60 * 60 * 1000;
+    if (!active || active.createdAt.getTime() + rotationMs <= Date.now()) {
+      await this.rotate();
+      return;
+    }
+
+    await this.loadKeys();
+  }
+
+  async rotate(): Promise<void> {
+    const algorithm = this.getAlgorithm();
+    const { publicKey, privateKey } =
+      algorithm === SigningAlgorithm.ES256
+        ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+        : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    const key = await this.signingKeyModel.create({
+      kid: crypto.randomUUID(),
+      algorithm,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }),
+      privateKey: privateKey.export({
+        type: 'pkcs8',
+        format: 'pem',
+        cipher: 'aes-256-cbc',
+        passphrase: this.getPassphrase(),
+      }),
+    });
+
+    // Las claves anteriores se retiran pero siguen validando los tokens
+    // ya emitidos hasta que termina el solapamiento
+    const now = new Date();
+    await this.signingKeyModel.updateMany(
+      { _id: { $ne: key._id }, retiredAt: { $exists: false } },
+      {
+        retiredAt: now,
+        expiresAt: new Date(
+          now.getTime() + this.getOverlapHours() * 60 * 60 * 1000
+        ),
+      }
+    );
+
+    this.logger.log(`Nueva clave de firma ${key.kid} (${algorithm})`);
+
+    await this.loadKeys();
+  }
+
+  getSignOptions(): JwtSignOptions {
+    if (!this.activeKey) {
+      throw new Error('No active JWT signing key is available');
+    }
+
+    return {
+      privateKey: this.activeKey.privateKey,
+      algorithm: this.activeKey.algorithm,
+      keyid: this.activeKey.kid,
+    };
+  }
+
+  /**
+   * Clave pública con la que verificar un token según el kid de su cabecera
+   */
+  async getVerificationKey(token: string): Promise<string> {
+    const decoded = this.jwtService.decode(token, { complete: true });
+    const kid = decoded?.header?.kid;
+    if (!kid) {
+      throw new UnauthorizedException('Token is missing a key id');
+    }
+
+    // Otra instancia puede haber rotado la clave: recargar el anillo
+    if (
+      !this.verificationKeys.has(kid) &&
+      Date.now() - this.loadedAt > this.reloadThrottleMs
+    ) {
+      await this.loadKeys();
+    }
+
+    const key = this.verificationKeys.get(kid);
+    if (!key || this.isExpired(key)) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+
+    return key.publicKey;
+  }
+
+  /**
+   * Claves públicas vigentes en formato JWK para /.well-known/jwks.json. El
+   * anillo se recarga antes de publicarlo para incluir las claves que haya
+   * rotado otra instancia.
+   */
+  async getJwks() {
+    if (Date.now() - this.loadedAt > this.reloadThrottleMs) {
+      await this.loadKeys();
+    }
+
+    const keys = [...this.verificationKeys.values()]
+      .filter((key) => !this.isExpired(key))
+      .map((key) => ({
+        ...crypto.createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      }));
+
+    return { keys };
+  }
+
+  private async loadKeys(): Promise<void> {
+    const keys = await this.signingKeyModel
+      .find({
+        $or: [
+          { retiredAt: { $exists: false } },
+          { expiresAt: { $gt: new Date() } },
+        ],
+      })
+      .select('+privateKey')
+      .sort({ createdAt: -1 });
+
+    const active = keys.find(
+      (key) => !key.retiredAt && key.algorithm === this.getAlgorithm()
+    );
+    this.activeKey = active
+      ? {
+          kid: active.kid,
+          algorithm: active.algorithm,
+          privateKey: crypto.createPrivateKey({
+            key: active.privateKey,
+            format: 'pem',
+            passphrase: this.getPassphrase(),
+          }),
+        }
+      : null;
+
+    this.verificationKeys = new Map(keys.map((key) => [key.kid, key]));
+    this.loadedAt = Date.now();
+  }
+
+  private isExpired(key: SigningKey): boolean {
+    return !!key.expiresAt && key.expiresAt.getTime() <= Date.now();
+  }
+
+  private getAlgorithm(): SigningAlgorithm {
+    const algorithm = this.configService.get<string>('JWT_ALGORITHM');
+    return algorithm === SigningAlgorithm.ES256
+      ? SigningAlgorithm.ES256
+      : SigningAlgorithm.RS256;
+  }
+
+  private getPassphrase(): string {
+    const passphrase =
+      this.configService.get<string>('JWT_KEY_PASSPHRASE') ||
+      this.configService.get<string>('JWT_SECRET');
+    if (!passphrase) {
+      throw new Error(
+        'JWT_KEY_PASSPHRASE is not defined in environment variables'
+      );
+    }
+    return passphrase;
+  }
+
+  private getRotationDays(): number {
+    return (
+      Number(this.configService.get<string>('JWT_KEY_ROTATION_DAYS')) || 30
+    );
+  }
+
+  private getOverlapHours(): number {
+    return (
+      Number(this.configService.get<string>('JWT_KEY_OVERLAP_HOURS')) || 24
+    );
+  }
+}
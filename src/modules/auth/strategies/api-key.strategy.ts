@@ -0,0 +1,64 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport';
+import { Request } from 'express';
+import { ApiKeyService } from '../api-key.service';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+type VerifyCallback = (
+  req: Request,
+  apiKey: string,
+  done: (error: any, user?: any) => void
+) => void;
+
+/**
+ * Estrategia de Passport que lee la clave de la cabecera X-API-Key
+ */
+class HeaderApiKeyStrategy extends Strategy {
+  name = 'api-key';
+
+  constructor(
+    _options: Record<string, never>,
+    private readonly verify: VerifyCallback
+  ) {
+    super();
+  }
+
+  authenticate(req: Request): void {
+    const apiKey = req.headers[API_KEY_HEADER];
+    if (typeof apiKey !== 'string' || !apiKey) {
+      return this.fail(401);
+    }
+
+    this.verify(req, apiKey, (error, user) => {
+      if (error) return this.error(error);
+      if (!user) return this.fail(401);
+      this.success(user);
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(
+  HeaderApiKeyStrategy,
+  'api-key'
+) {
+  constructor(private apiKeyService: ApiKeyService) {
+    super({});
+  }
+
+  async validate(req: Request, key: string) {
+    const apiKey = await this.apiKeyService.validate(key, req.ip);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid or expired API key');
+    }
+
+    // Las integraciones no son usuarios: no tienen id ni rol, solo scopes
+    return {
+      apiKeyId: apiKey._id.toString(),
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+    };
+  }
+}
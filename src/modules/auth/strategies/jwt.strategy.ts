@@ -1,28 +1,76 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
+import { User } from '@core/domain/entities/user.entity';
+import { SessionService } from '../session.service';
+import { ImpersonationService } from '../impersonation.service';
+import { SigningKeyService } from '../signing-key.service';
+import { SigningAlgorithm } from '../entities/signing-key.entity';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService) {
-    const secret = configService.get<string>('JWT_SECRET');
-    if (!secret) {
-      throw new Error('JWT_SECRET is not defined in environment variables');
-    }
-
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private sessionService: SessionService,
+    private impersonationService: ImpersonationService,
+    signingKeyService: SigningKeyService
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: secret,
+      // La clave pública se elige por el kid de la cabecera del token
+      secretOrKeyProvider: (_req, rawJwtToken, done) => {
+        signingKeyService
+          .getVerificationKey(rawJwtToken)
+          .then((key) => done(null, key))
+          .catch((error) => done(error));
+      },
+      algorithms: Object.values(SigningAlgorithm),
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any) {
+  async validate(req: any, payload: any) {
+    // Verificar contra la base de datos para que las revocaciones y
+    // desactivaciones tengan efecto inmediato
+    const user = await this.userModel
+      .findById(payload.sub)
+      .select('isActive isDeleted tokenVersion role');
+
+    if (!user || !user.isActive || user.isDeleted) {
+      throw new UnauthorizedException('User is no longer active');
+    }
+
+    if ((payload.tv || 0) !== (user.tokenVersion || 0)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
+    // Los tokens emitidos antes de existir las sesiones no llevan sid
+    if (
+      payload.sid &&
+      !(await this.sessionService.touch(payload.sid, req.ip))
+    ) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Los tokens de suplantación dejan de valer en cuanto se da por terminada
+    if (
+      payload.imp &&
+      !(await this.impersonationService.isActive(payload.iid))
+    ) {
+      throw new UnauthorizedException('Impersonation session has ended');
+    }
+
     return {
       id: payload.sub,
       email: payload.email,
-      role: payload.role,
+      role: user.role,
+      twoFactorAuthenticated: !!payload.mfa,
+      sessionId: payload.sid,
+      impersonatorId: payload.imp,
+      impersonationId: payload.iid,
     };
   }
 }
@@ -8,11 +8,15 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
   constructor(private authService: AuthService) {
     super({
       usernameField: 'email',
+      passReqToCallback: true,
     });
   }
 
-  async validate(email: string, password: string): Promise<any> {
-    const user = await this.authService.validateUser(email, password);
+  async validate(req: any, email: string, password: string): Promise<any> {
+    const user = await this.authService.validateUser(email, password, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
     if (!user) {
       throw new UnauthorizedException();
     }
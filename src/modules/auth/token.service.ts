@@ -0,0 +1,219 @@
+import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { User } from '@core/domain/entities/user.entity';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { SessionService } from './session.service';
+import { SigningKeyService } from './signing-key.service';
+import { LoginContext } from './login-protection.service';
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface IssueTokensOptions {
+  family?: string;
+  twoFactorVerified?: boolean;
+  context?: LoginContext;
+}
+
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+
+  constructor(
+    @InjectModel(RefreshToken.name)
+    private refreshTokenModel: Model<RefreshToken>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private sessionService: SessionService,
+    private signingKeyService: SigningKeyService,
+    private jwtService: JwtService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Emite un access token y un refresh token nuevo. Si no se indica una
+   * familia se inicia una nueva (login); al rotar se conserva la existente.
+   */
+  async issueTokens(
+    user: User,
+    options: IssueTokensOptions = {}
+  ): Promise<TokenPair> {
+    const { twoFactorVerified = false, context = {} } = options;
+    const family = options.family || crypto.randomUUID();
+    const expiresAt = this.getRefreshTokenExpiry();
+
+    const session = await this.sessionService.recordActivity(
+      user,
+      family,
+      context,
+      expiresAt
+    );
+
+    const expiresIn = this.getAccessTokenExpiresIn();
+    const payload = {
+      sub: user._id,
+      email: user.email,
+      role: user.role,
+      tv: user.tokenVersion || 0,
+      mfa: twoFactorVerified,
+      sid: session._id,
+    };
+    const token = this.sign(payload, expiresIn);
+
+    const refreshToken = this.generateRefreshToken();
+    await this.refreshTokenModel.create({
+      userId: user._id,
+      tokenHash: this.hashToken(refreshToken),
+      family,
+      expiresAt,
+      twoFactorVerified,
+    });
+
+    return { token, refreshToken, expiresIn };
+  }
+
+  /**
+   * Emite un access token de suplantación firmado con el id del
+   * administrador. No lleva refresh token ni sesión asociada.
+   */
+  issueImpersonationToken(
+    user: User,
+    impersonatorId: string,
+    impersonationId: string,
+    expiresInMinutes: number
+  ): string {
+    const payload = {
+      sub: user._id,
+      email: user.email,
+      role: user.role,
+      tv: user.tokenVersion || 0,
+      imp: impersonatorId,
+      iid: impersonationId,
+    };
+
+    return this.sign(payload, `${expiresInMinutes}m`);
+  }
+
+  /**
+   * Intercambia un refresh token válido por un nuevo par de tokens.
+   * Presentar un token ya rotado se considera robo y revoca toda la familia.
+   */
+  async rotateRefreshToken(
+    refreshToken: string,
+    context: LoginContext = {}
+  ): Promise<{ user: User; tokens: TokenPair }> {
+    const tokenHash = this.hashToken(refreshToken);
+
+    // Se marca como usado antes de emitir nada: de dos peticiones simultáneas
+    // con el mismo token solo una lo consigue y la otra cuenta como reutilización
+    const stored = await this.refreshTokenModel.findOneAndUpdate(
+      { tokenHash, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+
+    if (!stored) {
+      const revoked = await this.refreshTokenModel.findOne({ tokenHash });
+      if (!revoked) {
+        throw new UnauthorizedException('Invalid refresh token');
+      }
+
+      this.logger.warn(
+        `Reutilización de refresh token detectada, revocando familia ${revoked.family}`
+      );
+      await this.revokeFamily(revoked.family);
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    if (stored.expiresAt < new Date()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    const user = await this.userModel.findById(stored.userId);
+    if (!user || !user.isActive || user.isDeleted) {
+      await this.revokeFamily(stored.family);
+      throw new UnauthorizedException('User is no longer active');
+    }
+
+    const tokens = await this.issueTokens(user, {
+      family: stored.family,
+      twoFactorVerified: stored.twoFactorVerified,
+      context,
+    });
+
+    await this.refreshTokenModel.updateOne(
+      { _id: stored._id },
+      { replacedByHash: this.hashToken(tokens.refreshToken) }
+    );
+
+    return { user, tokens };
+  }
+
+  /**
+   * Revoca la familia a la que pertenece un refresh token (logout de una sesión)
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenModel.findOne({
+      tokenHash: this.hashToken(refreshToken),
+    });
+
+    if (stored) {
+      await this.revokeFamily(stored.family);
+    }
+  }
+
+  async revokeFamily(family: string): Promise<void> {
+    await Promise.all([
+      this.refreshTokenModel.updateMany(
+        { family, revokedAt: { $exists: false } },
+        { revokedAt: new Date() }
+      ),
+      this.sessionService.revokeByFamily(family),
+    ]);
+  }
+
+  /**
+   * Revoca todos los refresh tokens del usuario e invalida sus access tokens
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await Promise.all([
+      this.refreshTokenModel.updateMany(
+        { userId, revokedAt: { $exists: false } },
+        { revokedAt: new Date() }
+      ),
+      this.userModel.findByIdAndUpdate(userId, { $inc: { tokenVersion: 1 } }),
+      this.sessionService.revokeAllForUser(userId),
+    ]);
+  }
+
+  private sign(payload: object, expiresIn: string): string {
+    return this.jwtService.sign(payload, {
+      ...this.signingKeyService.getSignOptions(),
+      expiresIn,
+    });
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('hex');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getAccessTokenExpiresIn(): string {
+    return this.configService.get<string>('JWT_EXPIRES_IN') || '15m';
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    const days =
+      Number(this.configService.get<string>('JWT_REFRESH_EXPIRES_IN_DAYS')) ||
+      30;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+}
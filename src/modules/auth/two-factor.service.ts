@@ -0,0 +1,314 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { User } from '@core/domain/entities/user.entity';
+import { TwoFactorChallenge } from './entities/two-factor-challenge.entity';
+import {
+  LoginProtectionService,
+  LoginContext,
+} from './login-protection.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TotpService } from '@shared/utils/totp.service';
+import { TwoFactorPolicy } from '@shared/utils/two-factor.policy';
+
+const TWO_FACTOR_FIELDS =
+  '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly recoveryCodeCount = 10;
+
+  constructor(
+    @InjectModel(TwoFactorChallenge.name)
+    private twoFactorChallengeModel: Model<TwoFactorChallenge>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private loginProtectionService: LoginProtectionService,
+    private notificationsService: NotificationsService,
+    private totpService: TotpService,
+    private twoFactorPolicy: TwoFactorPolicy,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Genera un secreto pendiente de confirmar y su URI otpauth para el QR
+   */
+  async setup(userId: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled'
+      );
+    }
+
+    const secret = this.totpService.generateSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    return {
+      secret,
+      otpauthUrl: this.totpService.buildOtpAuthUri(secret, user.email),
+    };
+  }
+
+  /**
+   * Activa el 2FA tras comprobar un código generado con el secreto pendiente
+   */
+  async enable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled'
+      );
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+
+    const step = this.totpService.verify(
+      user.twoFactorPendingSecret,
+      this.normalizeCode(code)
+    );
+    if (step === null) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorRecoveryCodes = recoveryCodes.map((recoveryCode) =>
+      this.hashToken(recoveryCode)
+    );
+    await user.save();
+
+    await this.sendSecurityAlert(
+      user,
+      'activación de la autenticación en dos pasos'
+    );
+
+    return {
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    };
+  }
+
+  async disable(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (this.twoFactorPolicy.isRequiredFor(user.role)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is mandatory for your role'
+      );
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    await this.userModel.findByIdAndUpdate(user._id, {
+      twoFactorEnabled: false,
+      $unset: {
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorLastUsedStep: 1,
+      },
+      twoFactorRecoveryCodes: [],
+    });
+
+    await this.sendSecurityAlert(
+      user,
+      'desactivación de la autenticación en dos pasos'
+    );
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Sustituye los códigos de recuperación; los anteriores dejan de ser válidos
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.verifyTotp(user, this.normalizeCode(code)))) {
+      throw new BadRequestException('Invalid verification code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userModel.findByIdAndUpdate(user._id, {
+      twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+        this.hashToken(recoveryCode)
+      ),
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Crea el reto que el cliente debe completar con el segundo factor
+   */
+  async createChallenge(
+    user: User
+  ): Promise<{ twoFactorToken: string; expiresInMinutes: number }> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresInMinutes = this.getChallengeExpiresInMinutes();
+
+    await this.twoFactorChallengeModel.create({
+      userId: user._id,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+    });
+
+    return { twoFactorToken: token, expiresInMinutes };
+  }
+
+  /**
+   * Completa el login en dos pasos. Los códigos erróneos cuentan como
+   * intentos fallidos para el bloqueo de la cuenta.
+   */
+  async completeChallenge(
+    challengeToken: string,
+    code: string,
+    context: LoginContext
+  ): Promise<User> {
+    const tokenHash = this.hashToken(challengeToken);
+    const challenge = await this.twoFactorChallengeModel.findOne({
+      tokenHash,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+    if (!challenge) {
+      throw new UnauthorizedException('Invalid or expired two-factor session');
+    }
+
+    const user = await this.userModel
+      .findOne({ _id: challenge.userId, isActive: true })
+      .select(TWO_FACTOR_FIELDS);
+    if (!user || !user.twoFactorEnabled) {
+      throw new UnauthorizedException('Invalid or expired two-factor session');
+    }
+
+    this.loginProtectionService.assertAccountAllowed(user);
+
+    if (!(await this.verifyCode(user, code))) {
+      await this.loginProtectionService.recordFailure(
+        user.email,
+        user,
+        context
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    const claimed = await this.twoFactorChallengeModel.findOneAndUpdate(
+      { tokenHash, usedAt: { $exists: false } },
+      { usedAt: new Date() }
+    );
+    if (!claimed) {
+      throw new UnauthorizedException('Invalid or expired two-factor session');
+    }
+
+    return user;
+  }
+
+  /**
+   * Acepta un código TOTP o, en su defecto, un código de recuperación
+   */
+  private async verifyCode(user: User, code: string): Promise<boolean> {
+    const normalized = this.normalizeCode(code);
+
+    if (await this.verifyTotp(user, normalized)) {
+      return true;
+    }
+
+    // Cada código de recuperación se retira de forma atómica al usarlo
+    const result = await this.userModel.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: this.hashToken(normalized) },
+      { $pull: { twoFactorRecoveryCodes: this.hashToken(normalized) } }
+    );
+    if (result.modifiedCount === 1) {
+      this.logger.warn(`Código de recuperación 2FA utilizado: ${user._id}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) return false;
+
+    const step = this.totpService.verify(user.twoFactorSecret, code);
+    if (step === null) return false;
+
+    // Un mismo código no puede reutilizarse dentro de su ventana de validez
+    const result = await this.userModel.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { twoFactorLastUsedStep: step }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userModel.findById(userId).select(TWO_FACTOR_FIELDS);
+    if (!user || user.isDeleted) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private async sendSecurityAlert(user: User, activity: string): Promise<void> {
+    try {
+      await this.notificationsService.sendSecurityAlert(user._id.toString(), {
+        activity,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.error('Error enviando alerta de seguridad:', error);
+    }
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.recoveryCodeCount }, () =>
+      crypto.randomBytes(5).toString('hex')
+    );
+  }
+
+  private normalizeCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getChallengeExpiresInMinutes(): number {
+    return (
+      Number(
+        this.configService.get<string>('TWO_FACTOR_CHALLENGE_EXPIRES_MINUTES')
+      ) || 5
+    );
+  }
+}
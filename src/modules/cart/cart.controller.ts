@@ -44,7 +44,7 @@ export class CartController {
     description: 'Token JWT inválido o expirado',
   })
   async getCart(@Request() req) {
-    const cart = await this.cartService.getCart(req.user.id);
+    const cart = await this.cartService.getCart({ userId: req.user.id });
     return {
       success: true,
       data: cart,
@@ -74,7 +74,10 @@ export class CartController {
     description: 'Token JWT inválido o expirado',
   })
   async addToCart(@Request() req, @Body() addToCartDto: AddToCartDto) {
-    const cart = await this.cartService.addToCart(req.user.id, addToCartDto);
+    const cart = await this.cartService.addToCart(
+      { userId: req.user.id },
+      addToCartDto
+    );
     return {
       success: true,
       data: cart,
@@ -110,7 +113,7 @@ export class CartController {
     @Body() updateCartItemDto: UpdateCartItemDto
   ) {
     const cart = await this.cartService.updateCartItem(
-      req.user.id,
+      { userId: req.user.id },
       itemId,
       updateCartItemDto
     );
@@ -139,7 +142,10 @@ export class CartController {
     description: 'Token JWT inválido o expirado',
   })
   async removeFromCart(@Request() req, @Param('itemId') itemId: string) {
-    const cart = await this.cartService.removeFromCart(req.user.id, itemId);
+    const cart = await this.cartService.removeFromCart(
+      { userId: req.user.id },
+      itemId
+    );
     return {
       success: true,
       data: cart,
@@ -160,7 +166,7 @@ export class CartController {
     description: 'Token JWT inválido o expirado',
   })
   async clearCart(@Request() req) {
-    const cart = await this.cartService.clearCart(req.user.id);
+    const cart = await this.cartService.clearCart({ userId: req.user.id });
     return {
       success: true,
       data: cart,
@@ -177,7 +183,7 @@ export class CartController {
     description: 'Información de debug obtenida',
   })
   async debugCart(@Request() req) {
-    const cart = await this.cartService.getCart(req.user.id);
+    const cart = await this.cartService.getCart({ userId: req.user.id });
     return {
       success: true,
       data: {
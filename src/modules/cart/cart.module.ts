@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { CartController } from './cart.controller';
+import { GuestCartController } from './guest-cart.controller';
 import { CartService } from './cart.service';
 import { Cart, CartSchema } from '@core/domain/entities/cart.entity';
 import { Product, ProductSchema } from '@core/domain/entities/product.entity';
@@ -12,7 +13,7 @@ import { Product, ProductSchema } from '@core/domain/entities/product.entity';
       { name: Product.name, schema: ProductSchema },
     ]),
   ],
-  controllers: [CartController],
+  controllers: [CartController, GuestCartController],
   providers: [CartService],
   exports: [CartService],
 })
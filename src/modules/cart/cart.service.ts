@@ -4,22 +4,38 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
 import { Cart } from '@core/domain/entities/cart.entity';
-import { Product } from '@core/domain/entities/product.entity';
+import { Product, ProductVariant } from '@core/domain/entities/product.entity';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+import { getVariantPrice } from '@shared/utils/product-price';
+
+/**
+ * Dueño de un carrito: un usuario autenticado o un invitado identificado por
+ * el token anónimo que recibió al crear su carrito
+ */
+export type CartOwner = { userId: string } | { guestToken: string };
+
+interface VariantSelection {
+  variantId?: string;
+  size?: string;
+  color?: string;
+}
 
 @Injectable()
 export class CartService {
   constructor(
     @InjectModel(Cart.name) private cartModel: Model<Cart>,
-    @InjectModel(Product.name) private productModel: Model<Product>
+    @InjectModel(Product.name) private productModel: Model<Product>,
+    private configService: ConfigService
   ) {}
 
-  async getCart(userId: string): Promise<Cart> {
+  async getCart(owner: CartOwner): Promise<Cart> {
     let cart = await this.cartModel
-      .findOne({ userId })
+      .findOne(this.getOwnerFilter(owner))
       .populate(
         'items.productId',
         'name price images imageUrls stock category brand'
@@ -27,8 +43,12 @@ export class CartService {
       .exec();
 
     if (!cart) {
+      // Los carritos de invitado solo se crean con createGuestCart
+      if (!('userId' in owner)) {
+        throw new NotFoundException('Cart not found');
+      }
       cart = new this.cartModel({
-        userId,
+        userId: owner.userId,
         items: [],
         totalAmount: 0,
         totalItems: 0,
@@ -39,7 +59,35 @@ export class CartService {
     return cart;
   }
 
-  async addToCart(userId: string, addToCartDto: AddToCartDto): Promise<Cart> {
+  /**
+   * Crea un carrito anónimo y devuelve el token con el que el cliente debe
+   * identificarlo (cabecera x-guest-token). Solo se guarda su hash.
+   */
+  async createGuestCart(): Promise<{ guestToken: string; cart: Cart }> {
+    const guestToken = crypto.randomBytes(32).toString('hex');
+
+    const cart = new this.cartModel({
+      guestTokenHash: this.hashToken(guestToken),
+      items: [],
+      totalAmount: 0,
+      totalItems: 0,
+    });
+    await this.saveCart(cart);
+
+    return { guestToken, cart };
+  }
+
+  /**
+   * Carrito con los productos completos para generar un pedido
+   */
+  async findCartForCheckout(owner: CartOwner): Promise<Cart | null> {
+    return this.cartModel
+      .findOne(this.getOwnerFilter(owner))
+      .populate('items.productId')
+      .exec();
+  }
+
+  async addToCart(owner: CartOwner, addToCartDto: AddToCartDto): Promise<Cart> {
     const { productId, quantity, size, color } = addToCartDto;
 
     const product = await this.productModel.findById(productId);
@@ -47,26 +95,32 @@ export class CartService {
       throw new NotFoundException('Product not found');
     }
 
-    if (product.stock < quantity) {
-      throw new BadRequestException('Insufficient stock');
-    }
+    const variant = this.resolveVariant(product, addToCartDto);
 
-    let cart = await this.cartModel.findOne({ userId });
+    let cart = await this.cartModel.findOne(this.getOwnerFilter(owner));
     if (!cart) {
+      if (!('userId' in owner)) {
+        throw new NotFoundException('Cart not found');
+      }
       cart = new this.cartModel({
-        userId,
+        userId: owner.userId,
         items: [],
         totalAmount: 0,
         totalItems: 0,
       });
     }
 
-    const existingItemIndex = cart.items.findIndex(
-      (item) =>
-        item.productId.toString() === productId &&
-        (item.size || null) === (size || null) &&
-        (item.color || null) === (color || null)
+    const existingItemIndex = cart.items.findIndex((item) =>
+      variant
+        ? item.variantId?.equals(variant._id)
+        : item.productId.toString() === productId &&
+          (item.size || null) === (size || null) &&
+          (item.color || null) === (color || null)
     );
+    const existingQuantity =
+      existingItemIndex > -1 ? cart.items[existingItemIndex].quantity : 0;
+
+    this.assertStock(product, variant, existingQuantity + quantity);
 
     if (existingItemIndex > -1) {
       cart.items[existingItemIndex].quantity += quantity;
@@ -75,31 +129,32 @@ export class CartService {
       const newItem = {
         _id: new Types.ObjectId(),
         productId: product._id,
+        variantId: variant?._id,
+        sku: variant?.sku,
         quantity,
-        size: size || undefined,
-        color: color || undefined,
-        price: product.discountPrice || product.price,
+        size: variant ? variant.size : size || undefined,
+        color: variant ? variant.color : color || undefined,
+        price: getVariantPrice(product, variant),
       };
       cart.items.push(newItem);
     }
 
     await this.recalculateCart(cart);
-    await cart.save();
+    await this.saveCart(cart);
 
-    return this.getCart(userId);
+    return this.getCart(owner);
   }
 
   async updateCartItem(
-    userId: string,
+    owner: CartOwner,
     itemId: string,
     updateCartItemDto: UpdateCartItemDto
   ): Promise<Cart> {
     console.log('=== DEBUG updateCartItem ===');
-    console.log('userId:', userId);
     console.log('itemId:', itemId);
     console.log('updateCartItemDto:', updateCartItemDto);
 
-    const cart = await this.cartModel.findOne({ userId });
+    const cart = await this.cartModel.findOne(this.getOwnerFilter(owner));
     if (!cart) {
       throw new NotFoundException('Cart not found');
     }
@@ -129,32 +184,48 @@ export class CartService {
       throw new NotFoundException('Item not found in cart');
     }
 
-    if (updateCartItemDto.quantity) {
-      const product = await this.productModel.findById(
-        cart.items[itemIndex].productId
-      );
-      if (product.stock < updateCartItemDto.quantity) {
-        throw new BadRequestException('Insufficient stock');
-      }
-      cart.items[itemIndex].quantity = updateCartItemDto.quantity;
+    const item = cart.items[itemIndex];
+    const product = await this.productModel.findById(item.productId);
+    if (!product) {
+      throw new NotFoundException('Product not found');
     }
 
-    if (updateCartItemDto.size) {
-      cart.items[itemIndex].size = updateCartItemDto.size;
+    // Cambiar talla o color en un producto con variantes cambia de variante
+    const size = updateCartItemDto.size || item.size;
+    const color = updateCartItemDto.color || item.color;
+    const variant = this.resolveVariant(
+      product,
+      updateCartItemDto.size || updateCartItemDto.color || !item.variantId
+        ? { size, color }
+        : { variantId: item.variantId.toString() }
+    );
+
+    if (updateCartItemDto.quantity) {
+      this.assertStock(product, variant, updateCartItemDto.quantity);
+      item.quantity = updateCartItemDto.quantity;
+    } else {
+      this.assertStock(product, variant, item.quantity);
     }
 
-    if (updateCartItemDto.color) {
-      cart.items[itemIndex].color = updateCartItemDto.color;
+    if (variant) {
+      item.variantId = variant._id;
+      item.sku = variant.sku;
+      item.size = variant.size;
+      item.color = variant.color;
+      item.price = getVariantPrice(product, variant);
+    } else {
+      item.size = size;
+      item.color = color;
     }
 
     await this.recalculateCart(cart);
-    await cart.save();
+    await this.saveCart(cart);
 
-    return this.getCart(userId);
+    return this.getCart(owner);
   }
 
-  async removeFromCart(userId: string, itemId: string): Promise<Cart> {
-    const cart = await this.cartModel.findOne({ userId });
+  async removeFromCart(owner: CartOwner, itemId: string): Promise<Cart> {
+    const cart = await this.cartModel.findOne(this.getOwnerFilter(owner));
     if (!cart) {
       throw new NotFoundException('Cart not found');
     }
@@ -162,13 +233,13 @@ export class CartService {
     cart.items = cart.items.filter((item) => item._id?.toString() !== itemId);
 
     await this.recalculateCart(cart);
-    await cart.save();
+    await this.saveCart(cart);
 
-    return this.getCart(userId);
+    return this.getCart(owner);
   }
 
-  async clearCart(userId: string): Promise<Cart> {
-    const cart = await this.cartModel.findOne({ userId });
+  async clearCart(owner: CartOwner): Promise<Cart> {
+    const cart = await this.cartModel.findOne(this.getOwnerFilter(owner));
     if (!cart) {
       throw new NotFoundException('Cart not found');
     }
@@ -177,7 +248,7 @@ export class CartService {
     cart.totalAmount = 0;
     cart.totalItems = 0;
 
-    await cart.save();
+    await this.saveCart(cart);
     return cart;
   }
 
@@ -193,4 +264,77 @@ export class CartService {
     cart.totalAmount = totalAmount;
     cart.totalItems = totalItems;
   }
+
+  /**
+   * Variante que corresponde a la selección del cliente, por su ID o por la
+   * talla y el color. Devuelve null si el producto no tiene variantes.
+   */
+  private resolveVariant(
+    product: Product,
+    selection: VariantSelection
+  ): ProductVariant | null {
+    if (!product.variants?.length) return null;
+
+    const activeVariants = product.variants.filter(
+      (variant) => variant.isActive
+    );
+
+    if (selection.variantId) {
+      const variant = activeVariants.find(
+        (productVariant) =>
+          productVariant._id.toString() === selection.variantId
+      );
+      if (!variant) {
+        throw new NotFoundException('Variant not found');
+      }
+      return variant;
+    }
+
+    const matches = activeVariants.filter(
+      (variant) =>
+        (variant.size || null) === (selection.size || null) &&
+        (variant.color || null) === (selection.color || null)
+    );
+    if (matches.length !== 1) {
+      throw new BadRequestException('A product variant must be selected');
+    }
+    return matches[0];
+  }
+
+  private assertStock(
+    product: Product,
+    variant: ProductVariant | null,
+    quantity: number
+  ): void {
+    const stock = variant ? variant.stock : product.stock;
+    if (stock < quantity) {
+      throw new BadRequestException('Insufficient stock');
+    }
+  }
+
+  private getOwnerFilter(owner: CartOwner) {
+    return 'userId' in owner
+      ? { userId: owner.userId }
+      : { guestTokenHash: this.hashToken(owner.guestToken) };
+  }
+
+  /**
+   * Guarda el carrito renovando la caducidad de los carritos de invitado,
+   * que se borran tras GUEST_CART_EXPIRES_DAYS (por defecto 7) sin actividad
+   */
+  private async saveCart(cart: Cart): Promise<void> {
+    if (cart.guestTokenHash) {
+      const expiresInDays =
+        Number(this.configService.get<string>('GUEST_CART_EXPIRES_DAYS')) || 7;
+      cart.expiresAt = new Date(
+        Date.now() + expiresInDays * 24 * 60 * 60 * 1000
+      );
+    }
+
+    await cart.save();
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
 }
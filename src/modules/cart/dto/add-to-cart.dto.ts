@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNumber, IsOptional, Min } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsMongoId,
+  Min,
+} from 'class-validator';
 
 export class AddToCartDto {
   @ApiProperty({
@@ -9,6 +15,16 @@ export class AddToCartDto {
   @IsString()
   productId: string;
 
+  @ApiProperty({
+    description:
+      'ID de la variante; si no se indica se busca por talla y color',
+    example: '507f1f77bcf86cd799439012',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  variantId?: string;
+
   @ApiProperty({
     description: 'Cantidad del producto',
     example: 2,
@@ -0,0 +1,182 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Headers,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { CartService, CartOwner } from './cart.service';
+import { AddToCartDto } from './dto/add-to-cart.dto';
+import { UpdateCartItemDto } from './dto/update-cart-item.dto';
+
+const GUEST_TOKEN_HEADER = 'x-guest-token';
+
+@ApiTags('cart')
+@Controller('cart/guest')
+export class GuestCartController {
+  constructor(private readonly cartService: CartService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Crear carrito de invitado',
+    description:
+      'Crea un carrito anónimo y devuelve el token que identifica al invitado en la cabecera x-guest-token',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Carrito de invitado creado exitosamente',
+  })
+  async createCart() {
+    const { guestToken, cart } = await this.cartService.createGuestCart();
+    return {
+      success: true,
+      data: { guestToken, cart },
+    };
+  }
+
+  @Get()
+  @ApiHeader({ name: GUEST_TOKEN_HEADER, description: 'Token del invitado' })
+  @ApiOperation({
+    summary: 'Obtener carrito de invitado',
+    description: 'Obtiene el carrito asociado al token del invitado',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Carrito obtenido exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Carrito no encontrado o caducado',
+  })
+  async getCart(@Headers(GUEST_TOKEN_HEADER) guestToken: string) {
+    const cart = await this.cartService.getCart(this.getOwner(guestToken));
+    return {
+      success: true,
+      data: cart,
+    };
+  }
+
+  @Post('add')
+  @ApiHeader({ name: GUEST_TOKEN_HEADER, description: 'Token del invitado' })
+  @ApiOperation({
+    summary: 'Agregar producto al carrito de invitado',
+    description: 'Agrega un producto al carrito del invitado',
+  })
+  @ApiBody({ type: AddToCartDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Producto agregado al carrito exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Producto o carrito no encontrado',
+  })
+  async addToCart(
+    @Headers(GUEST_TOKEN_HEADER) guestToken: string,
+    @Body() addToCartDto: AddToCartDto
+  ) {
+    const cart = await this.cartService.addToCart(
+      this.getOwner(guestToken),
+      addToCartDto
+    );
+    return {
+      success: true,
+      data: cart,
+    };
+  }
+
+  @Patch('item/:itemId')
+  @ApiHeader({ name: GUEST_TOKEN_HEADER, description: 'Token del invitado' })
+  @ApiOperation({
+    summary: 'Actualizar item del carrito de invitado',
+    description: 'Actualiza la cantidad de un item específico en el carrito',
+  })
+  @ApiParam({ name: 'itemId', description: 'ID del item en el carrito' })
+  @ApiBody({ type: UpdateCartItemDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Item del carrito actualizado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Item no encontrado en el carrito',
+  })
+  async updateCartItem(
+    @Headers(GUEST_TOKEN_HEADER) guestToken: string,
+    @Param('itemId') itemId: string,
+    @Body() updateCartItemDto: UpdateCartItemDto
+  ) {
+    const cart = await this.cartService.updateCartItem(
+      this.getOwner(guestToken),
+      itemId,
+      updateCartItemDto
+    );
+    return {
+      success: true,
+      data: cart,
+    };
+  }
+
+  @Delete('item/:itemId')
+  @ApiHeader({ name: GUEST_TOKEN_HEADER, description: 'Token del invitado' })
+  @ApiOperation({
+    summary: 'Eliminar item del carrito de invitado',
+    description: 'Elimina un item específico del carrito',
+  })
+  @ApiParam({ name: 'itemId', description: 'ID del item en el carrito' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Item eliminado del carrito exitosamente',
+  })
+  async removeFromCart(
+    @Headers(GUEST_TOKEN_HEADER) guestToken: string,
+    @Param('itemId') itemId: string
+  ) {
+    const cart = await this.cartService.removeFromCart(
+      this.getOwner(guestToken),
+      itemId
+    );
+    return {
+      success: true,
+      data: cart,
+    };
+  }
+
+  @Delete('clear')
+  @ApiHeader({ name: GUEST_TOKEN_HEADER, description: 'Token del invitado' })
+  @ApiOperation({
+    summary: 'Vaciar carrito de invitado',
+    description: 'Elimina todos los items del carrito del invitado',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Carrito vaciado exitosamente',
+  })
+  async clearCart(@Headers(GUEST_TOKEN_HEADER) guestToken: string) {
+    const cart = await this.cartService.clearCart(this.getOwner(guestToken));
+    return {
+      success: true,
+      data: cart,
+    };
+  }
+
+  private getOwner(guestToken?: string): CartOwner {
+    if (!guestToken) {
+      throw new UnauthorizedException('Guest token is required');
+    }
+    return { guestToken };
+  }
+}
@@ -0,0 +1,229 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  HttpStatus,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+  ApiConsumes,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { CategoriesService } from './categories.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { Permission } from '@core/domain/permissions';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
+import { Express } from 'express';
+
+@ApiTags('categories')
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Obtener árbol de categorías',
+    description:
+      'Obtiene las categorías visibles anidadas y ordenadas para la navegación de la tienda',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Árbol obtenido exitosamente',
+  })
+  findTree() {
+    return this.categoriesService.findTree();
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.CATEGORIES_WRITE)
+  @Get('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Obtener árbol completo de categorías',
+    description: 'Incluye las categorías ocultas, para su gestión',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Árbol obtenido exitosamente',
+  })
+  findFullTree() {
+    return this.categoriesService.findTree(true);
+  }
+
+  @Get(':idOrSlug')
+  @ApiOperation({
+    summary: 'Obtener categoría',
+    description:
+      'Obtiene una categoría por ID o slug con sus migas de pan, subcategorías y atributos de producto',
+  })
+  @ApiParam({ name: 'idOrSlug', description: 'ID o slug de la categoría' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Categoría obtenida exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Categoría no encontrada',
+  })
+  findOne(@Param('idOrSlug') idOrSlug: string) {
+    return this.categoriesService.findOne(idOrSlug);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.CATEGORIES_WRITE)
+  @Post()
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Crear categoría',
+    description: 'Crea una categoría en la raíz o bajo otra categoría',
+  })
+  @ApiBody({ type: CreateCategoryDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Categoría creada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Ya existe una categoría con ese slug',
+  })
+  create(@Body() createCategoryDto: CreateCategoryDto) {
+    return this.categoriesService.create(createCategoryDto);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.CATEGORIES_WRITE)
+  @Patch(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Actualizar categoría',
+    description:
+      'Actualiza los datos, el orden o los atributos de una categoría, o la mueve a otro padre junto con sus subcategorías',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la categoría' })
+  @ApiBody({ type: UpdateCategoryDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Categoría actualizada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'La categoría no puede moverse dentro de sí misma',
+  })
+  update(
+    @Param('id') id: string,
+    @Body() updateCategoryDto: UpdateCategoryDto
+  ) {
+    return this.categoriesService.update(id, updateCategoryDto);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.CATEGORIES_WRITE)
+  @Delete(':id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Eliminar categoría',
+    description: 'Elimina una categoría sin subcategorías ni productos',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la categoría' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Categoría eliminada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'La categoría tiene subcategorías o productos',
+  })
+  remove(@Param('id') id: string) {
+    return this.categoriesService.remove(id);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.CATEGORIES_WRITE)
+  @Post(':id/image')
+  @UseInterceptors(FileInterceptor('image'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Subir imagen de categoría',
+    description: 'Sube la imagen de la categoría y sustituye la anterior',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la categoría' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Imagen subida exitosamente',
+  })
+  uploadImage(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File
+  ) {
+    if (!file) {
+      throw new BadRequestException('No image file provided');
+    }
+    this.validateFile(file);
+
+    return this.categoriesService.setImage(id, file);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.CATEGORIES_WRITE)
+  @Delete(':id/image')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Eliminar imagen de categoría',
+    description: 'Elimina la imagen de la categoría',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la categoría' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Imagen eliminada exitosamente',
+  })
+  removeImage(@Param('id') id: string) {
+    return this.categoriesService.removeImage(id);
+  }
+
+  private validateFile(file: Express.Multer.File) {
+    const allowedMimeTypes = [
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp',
+      'image/gif',
+    ];
+
+    const maxSize = 5 * 1024 * 1024; // 5MB
+
+    if (!allowedMimeTypes.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Tipo de archivo no permitido: ${file.mimetype}. Solo se permiten: ${allowedMimeTypes.join(', ')}`
+      );
+    }
+
+    if (file.size > maxSize) {
+      throw new BadRequestException(
+        `Archivo muy grande. Tamaño máximo permitido: 5MB`
+      );
+    }
+  }
+}
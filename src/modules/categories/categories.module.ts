@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CategoriesController } from './categories.controller';
+import { CategoriesService } from './categories.service';
+import { CategoryMigrationService } from './category-migration.service';
+import {
+  Category,
+  CategorySchema,
+} from '@core/domain/entities/category.entity';
+import { Product, ProductSchema } from '@core/domain/entities/product.entity';
+import { SharedModule } from '@shared/shared.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Category.name, schema: CategorySchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+    SharedModule,
+  ],
+  controllers: [CategoriesController],
+  providers: [CategoriesService, CategoryMigrationService],
+  exports: [CategoriesService, CategoryMigrationService],
+})
+export class CategoriesModule {}
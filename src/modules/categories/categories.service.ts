@@ -0,0 +1,482 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Category,
+  CategoryAttribute,
+  CategoryAttributeType,
+} from '@core/domain/entities/category.entity';
+import { Product } from '@core/domain/entities/product.entity';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { CloudinaryService } from '@shared/services/cloudinary.service';
+import { tokenizeSearchText } from '@shared/utils/search-text';
+
+export interface CategoryNode {
+  id: Types.ObjectId;
+  name: string;
+  slug: string;
+  description?: string;
+  image?: { url: string; publicId: string };
+  sortOrder: number;
+  isActive: boolean;
+  children: CategoryNode[];
+}
+
+type AttributeValue = string | number | boolean;
+
+const SIBLING_ORDER: Record<string, 1 | -1> = { sortOrder: 1, name: 1 };
+
+/**
+ * Árbol de categorías del catálogo. Cada categoría guarda la lista de sus
+ * antecesoras, de modo que los descendientes de cualquier nodo se obtienen
+ * con una sola consulta.
+ */
+@Injectable()
+export class CategoriesService {
+  private readonly logger = new Logger(CategoriesService.name);
+
+  constructor(
+    @InjectModel(Category.name) private categoryModel: Model<Category>,
+    @InjectModel(Product.name) private productModel: Model<Product>,
+    private cloudinaryService: CloudinaryService
+  ) {}
+
+  /**
+   * Árbol completo ordenado. Sin includeInactive se omiten las categorías
+   * ocultas junto con todo su subárbol.
+   */
+  async findTree(includeInactive = false): Promise<CategoryNode[]> {
+    const categories = await this.categoryModel
+      .find({ isDeleted: false })
+      .sort(SIBLING_ORDER)
+      .lean();
+
+    const nodes = new Map<string, CategoryNode>();
+    for (const category of categories) {
+      if (!includeInactive && !category.isActive) continue;
+      nodes.set(category._id.toString(), {
+        id: category._id,
+        name: category.name,
+        slug: category.slug,
+        description: category.description,
+        image: category.image,
+        sortOrder: category.sortOrder,
+        isActive: category.isActive,
+        children: [],
+      });
+    }
+
+    const roots: CategoryNode[] = [];
+    for (const category of categories) {
+      const node = nodes.get(category._id.toString());
+      if (!node) continue;
+
+      if (!category.parentId) {
+        roots.push(node);
+        continue;
+      }
+      // Si el padre está oculto el nodo tampoco aparece
+      nodes.get(category.parentId.toString())?.children.push(node);
+    }
+
+    return roots;
+  }
+
+  /**
+   * Categoría visible con sus migas de pan, sus hijas y los atributos que
+   * se piden a sus productos (los heredados incluidos)
+   */
+  async findOne(idOrSlug: string) {
+    const category = await this.findVisible(idOrSlug);
+
+    const [ancestors, children] = await Promise.all([
+      this.findAncestors(category),
+      this.categoryModel
+        .find({ parentId: category._id, isActive: true, isDeleted: false })
+        .sort(SIBLING_ORDER)
+        .select('name slug image sortOrder'),
+    ]);
+
+    return {
+      ...category.toObject(),
+      breadcrumbs: ancestors.map((ancestor) => ({
+        id: ancestor._id,
+        name: ancestor.name,
+        slug: ancestor.slug,
+      })),
+      children,
+      attributes: this.mergeAttributes(ancestors, category),
+    };
+  }
+
+  async create(createCategoryDto: CreateCategoryDto): Promise<Category> {
+    const slug = createCategoryDto.slug || this.toSlug(createCategoryDto.name);
+    await this.assertSlugAvailable(slug);
+
+    const parent = createCategoryDto.parentId
+      ? await this.findEditable(createCategoryDto.parentId)
+      : null;
+
+    return this.categoryModel.create({
+      ...createCategoryDto,
+      slug,
+      parentId: parent?._id || null,
+      ancestors: parent ? [...parent.ancestors, parent._id] : [],
+    });
+  }
+
+  /**
+   * Actualiza la categoría. Al cambiar de padre se recalculan las
+   * antecesoras de todo su subárbol.
+   */
+  async update(
+    id: string,
+    updateCategoryDto: UpdateCategoryDto
+  ): Promise<Category> {
+    const category = await this.findEditable(id);
+    const { parentId, ...changes } = updateCategoryDto;
+
+    if (changes.slug && changes.slug !== category.slug) {
+      await this.assertSlugAvailable(changes.slug);
+    }
+
+    const currentParentId = category.parentId?.toString() || null;
+    if (parentId !== undefined && parentId !== currentParentId) {
+      await this.move(category, parentId);
+    }
+
+    Object.assign(category, changes);
+    return category.save();
+  }
+
+  /**
+   * Elimina una categoría vacía: sin subcategorías ni productos
+   */
+  async remove(id: string): Promise<void> {
+    const category = await this.findEditable(id);
+
+    const [hasChildren, hasProducts] = await Promise.all([
+      this.categoryModel.exists({ parentId: category._id, isDeleted: false }),
+      this.productModel.exists({ category: category._id, isDeleted: false }),
+    ]);
+    if (hasChildren) {
+      throw new ConflictException('Category has subcategories');
+    }
+    if (hasProducts) {
+      throw new ConflictException('Category has products');
+    }
+
+    await this.categoryModel.deleteOne({ _id: category._id });
+    if (category.image) {
+      this.deleteImageFile(category.image.publicId);
+    }
+  }
+
+  async setImage(id: string, file: Express.Multer.File): Promise<Category> {
+    const category = await this.findEditable(id);
+    const previous = category.image;
+
+    const uploadResult = await this.cloudinaryService.uploadImage(
+      file,
+      'categories'
+    );
+    category.image = {
+      url: uploadResult.secure_url,
+      publicId: uploadResult.public_id,
+    };
+    await category.save();
+
+    if (previous) {
+      this.deleteImageFile(previous.publicId);
+    }
+    return category;
+  }
+
+  async removeImage(id: string): Promise<Category> {
+    const category = await this.findEditable(id);
+    if (!category.image) {
+      throw new NotFoundException('Category has no image');
+    }
+
+    const { publicId } = category.image;
+    category.image = undefined;
+    await category.save();
+
+    this.deleteImageFile(publicId);
+    return category;
+  }
+
+  // ==================== CATÁLOGO ====================
+
+  /**
+   * Categoría por ID o slug, visible o no, para asignarla a un producto
+   */
+  async resolve(idOrSlug: string): Promise<Category> {
+    const category = await this.findByIdOrSlug(idOrSlug);
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+    return category;
+  }
+
+  /**
+   * IDs de la categoría y de todas sus descendientes visibles, para listar
+   * los productos de una rama del árbol
+   */
+  async getSubtreeIds(idOrSlug: string): Promise<Types.ObjectId[]> {
+    const category = await this.findVisible(idOrSlug);
+
+    const descendants = await this.categoryModel
+      .find({ ancestors: category._id, isDeleted: false })
+      .select('ancestors isActive')
+      .lean();
+
+    // Una subcategoría visible cuelga de otra oculta: tampoco se incluye
+    const hidden = new Set(
+      descendants
+        .filter((descendant) => !descendant.isActive)
+        .map((descendant) => descendant._id.toString())
+    );
+    const visible = descendants.filter(
+      (descendant) =>
+        !hidden.has(descendant._id.toString()) &&
+        !descendant.ancestors.some((ancestor) =>
+          hidden.has(ancestor.toString())
+        )
+    );
+
+    return [category._id, ...visible.map((descendant) => descendant._id)];
+  }
+
+  async findByIds(ids: Types.ObjectId[]) {
+    return this.categoryModel
+      .find({ _id: { $in: ids } })
+      .select('name slug')
+      .lean();
+  }
+
+  /**
+   * Comprueba los atributos de un producto contra los definidos por su
+   * categoría y sus antecesoras. Convierte a número o booleano los valores
+   * que llegan como texto (formularios multipart).
+   */
+  async validateProductAttributes(
+    category: Category,
+    attributes: Record<string, any> = {}
+  ): Promise<Record<string, AttributeValue>> {
+    const ancestors = await this.findAncestors(category);
+    const definitions = new Map(
+      this.mergeAttributes(ancestors, category).map((attribute) => [
+        attribute.key,
+        attribute,
+      ])
+    );
+
+    const unknown = Object.keys(attributes).filter(
+      (key) => !definitions.has(key)
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown attributes for category ${category.slug}: ${unknown.join(', ')}`
+      );
+    }
+
+    const result: Record<string, AttributeValue> = {};
+    for (const definition of definitions.values()) {
+      const value = attributes[definition.key];
+      if (value === undefined || value === null || value === '') {
+        if (definition.required) {
+          throw new BadRequestException(
+            `Attribute ${definition.key} is required`
+          );
+        }
+        continue;
+      }
+      result[definition.key] = this.parseAttributeValue(definition, value);
+    }
+
+    return result;
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private async findByIdOrSlug(idOrSlug: string): Promise<Category | null> {
+    const filter = Types.ObjectId.isValid(idOrSlug)
+      ? { $or: [{ _id: idOrSlug }, { slug: idOrSlug }] }
+      : { slug: idOrSlug };
+
+    return this.categoryModel.findOne({ ...filter, isDeleted: false });
+  }
+
+  private async findVisible(idOrSlug: string): Promise<Category> {
+    const category = await this.findByIdOrSlug(idOrSlug);
+    if (!category || !category.isActive) {
+      throw new NotFoundException('Category not found');
+    }
+    return category;
+  }
+
+  private async findEditable(id: string): Promise<Category> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Category not found');
+    }
+
+    const category = await this.categoryModel.findOne({
+      _id: id,
+      isDeleted: false,
+    });
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+    return category;
+  }
+
+  /**
+   * Antecesoras de la categoría, de la raíz al padre
+   */
+  private async findAncestors(category: Category): Promise<Category[]> {
+    if (category.ancestors.length === 0) return [];
+
+    const ancestors = await this.categoryModel.find({
+      _id: { $in: category.ancestors },
+    });
+    const byId = new Map(
+      ancestors.map((ancestor) => [ancestor._id.toString(), ancestor])
+    );
+
+    return category.ancestors
+      .map((ancestorId) => byId.get(ancestorId.toString()))
+      .filter(Boolean);
+  }
+
+  /**
+   * Atributos efectivos: los de la raíz primero; una subcategoría puede
+   * redefinir un atributo heredado con la misma clave
+   */
+  private mergeAttributes(
+    ancestors: Category[],
+    category: Category
+  ): CategoryAttribute[] {
+    const attributes = new Map<string, CategoryAttribute>();
+    for (const node of [...ancestors, category]) {
+      for (const attribute of node.attributes || []) {
+        attributes.set(attribute.key, attribute);
+      }
+    }
+    return [...attributes.values()];
+  }
+
+  private parseAttributeValue(
+    definition: CategoryAttribute,
+    value: any
+  ): AttributeValue {
+    switch (definition.type) {
+      case CategoryAttributeType.NUMBER: {
+        const number = typeof value === 'string' ? Number(value) : value;
+        if (typeof number !== 'number' || !Number.isFinite(number)) {
+          throw new BadRequestException(
+            `Attribute ${definition.key} must be a number`
+          );
+        }
+        return number;
+      }
+      case CategoryAttributeType.BOOLEAN: {
+        if (value === true || value === 'true') return true;
+        if (value === false || value === 'false') return false;
+        throw new BadRequestException(
+          `Attribute ${definition.key} must be a boolean`
+        );
+      }
+      case CategoryAttributeType.SELECT: {
+        if (!definition.options.includes(value)) {
+          throw new BadRequestException(
+            `Attribute ${definition.key} must be one of: ${definition.options.join(', ')}`
+          );
+        }
+        return value;
+      }
+      default: {
+        if (typeof value !== 'string') {
+          throw new BadRequestException(
+            `Attribute ${definition.key} must be a string`
+          );
+        }
+        return value;
+      }
+    }
+  }
+
+  /**
+   * Cuelga la categoría de otro padre (o de la raíz con null) y reescribe
+   * las antecesoras de sus descendientes
+   */
+  private async move(category: Category, parentId: string | null) {
+    const parent = parentId ? await this.findEditable(parentId) : null;
+    if (
+      parent &&
+      (parent._id.equals(category._id) ||
+        parent.ancestors.some((ancestor) => ancestor.equals(category._id)))
+    ) {
+      throw new BadRequestException(
+        'A category cannot be moved under itself or its subcategories'
+      );
+    }
+
+    const ancestors = parent ? [...parent.ancestors, parent._id] : [];
+
+    // Sustituye en cada descendiente el tramo hasta esta categoría
+    await this.categoryModel.updateMany({ ancestors: category._id }, [
+      {
+        $set: {
+          ancestors: {
+            $concatArrays: [
+              [...ancestors, category._id],
+              {
+                $slice: [
+                  '$ancestors',
+                  {
+                    $add: [{ $indexOfArray: ['$ancestors', category._id] }, 1],
+                  },
+                  { $size: '$ancestors' },
+                ],
+              },
+            ],
+          },
+        },
+      },
+    ]);
+
+    category.parentId = parent?._id || null;
+    category.ancestors = ancestors;
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    const exists = await this.categoryModel.exists({ slug });
+    if (exists) {
+      throw new ConflictException('A category with this slug already exists');
+    }
+  }
+
+  private toSlug(name: string): string {
+    const slug = tokenizeSearchText(name).join('-');
+    if (!slug) {
+      throw new BadRequestException('A slug is required for this name');
+    }
+    return slug;
+  }
+
+  private deleteImageFile(publicId: string): void {
+    this.cloudinaryService
+      .deleteImage(publicId)
+      .catch((error) =>
+        this.logger.error('Error eliminando imagen de categoría:', error)
+      );
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Category } from '@core/domain/entities/category.entity';
+import { Product } from '@core/domain/entities/product.entity';
+
+// Categorías fijas de antes del árbol, por slug
+const LEGACY_CATEGORIES: Record<string, string> = {
+  shirts: 'Camisas',
+  pants: 'Pantalones',
+  dresses: 'Vestidos',
+  shoes: 'Zapatos',
+  accessories: 'Accesorios',
+  jackets: 'Chaquetas',
+  underwear: 'Ropa interior',
+};
+
+/**
+ * Migra los productos que todavía guardan la categoría como texto (el
+ * antiguo enum) a referencias al árbol de categorías. Se ejecuta al arrancar
+ * y solo toca los productos pendientes, por lo que puede repetirse.
+ */
+@Injectable()
+export class CategoryMigrationService implements OnModuleInit {
+  private readonly logger = new Logger(CategoryMigrationService.name);
+
+  constructor(
+    @InjectModel(Category.name) private categoryModel: Model<Category>,
+    @InjectModel(Product.name) private productModel: Model<Product>
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.migrateProducts();
+    } catch (error) {
+      this.logger.error('Error migrando categorías de productos:', error);
+    }
+  }
+
+  async migrateProducts(): Promise<number> {
+    // Directamente sobre la colección: el esquema ya no admite texto en
+    // category y Mongoose rechazaría la consulta
+    const legacyValues: string[] = await this.productModel.collection.distinct(
+      'category',
+      { category: { $type: 'string' } }
+    );
+
+    let migrated = 0;
+    for (const value of legacyValues) {
+      const category = await this.ensureCategory(value);
+      const result = await this.productModel.collection.updateMany(
+        { category: value },
+        { $set: { category: category._id, attributes: {} } }
+      );
+      migrated += result.modifiedCount;
+    }
+
+    if (migrated > 0) {
+      this.logger.log(`${migrated} productos migrados al árbol de categorías`);
+    }
+    return migrated;
+  }
+
+  /**
+   * Crea, si faltan, las categorías del antiguo enum. Devuelve sus IDs por
+   * slug (lo usan los datos de prueba).
+   */
+  async ensureLegacyCategories(): Promise<Map<string, Types.ObjectId>> {
+    const ids = new Map<string, Types.ObjectId>();
+    for (const slug of Object.keys(LEGACY_CATEGORIES)) {
+      const category = await this.ensureCategory(slug);
+      ids.set(slug, category._id);
+    }
+    return ids;
+  }
+
+  private async ensureCategory(slug: string): Promise<Category> {
+    const legacySlugs = Object.keys(LEGACY_CATEGORIES);
+
+    return this.categoryModel.findOneAndUpdate(
+      { slug },
+      {
+        $setOnInsert: {
+          name: LEGACY_CATEGORIES[slug] || slug,
+          slug,
+          parentId: null,
+          ancestors: [],
+          sortOrder: legacySlugs.includes(slug)
+            ? legacySlugs.indexOf(slug)
+            : legacySlugs.length,
+        },
+      },
+      { upsert: true, new: true }
+    );
+  }
+}
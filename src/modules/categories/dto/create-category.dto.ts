@@ -0,0 +1,140 @@
+import {
+  IsString,
+  IsInt,
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsMongoId,
+  IsNotEmpty,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CategoryAttributeType } from '@core/domain/entities/category.entity';
+
+export class CategoryAttributeDto {
+  @ApiProperty({
+    description: 'Clave del atributo en los productos',
+    example: 'heelHeight',
+  })
+  @Matches(/^[a-zA-Z][a-zA-Z0-9_]*$/, {
+    message:
+      'key must start with a letter and contain only letters, numbers and underscores',
+  })
+  key: string;
+
+  @ApiProperty({
+    description: 'Nombre visible del atributo',
+    example: 'Altura del tacón',
+  })
+  @IsString()
+  @IsNotEmpty()
+  label: string;
+
+  @ApiPropertyOptional({
+    description: 'Tipo de valor',
+    enum: CategoryAttributeType,
+    default: CategoryAttributeType.TEXT,
+  })
+  @IsOptional()
+  @IsEnum(CategoryAttributeType)
+  type?: CategoryAttributeType;
+
+  @ApiPropertyOptional({
+    description: 'Valores permitidos (solo para el tipo select)',
+    example: ['bajo', 'medio', 'alto'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Si los productos de la categoría deben indicarlo',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Unidad de los valores numéricos',
+    example: 'cm',
+  })
+  @IsOptional()
+  @IsString()
+  unit?: string;
+}
+
+export class CreateCategoryDto {
+  @ApiProperty({
+    description: 'Nombre de la categoría',
+    example: 'Zapatos infantiles',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Identificador para las URLs, único en todo el árbol. Por defecto se genera a partir del nombre',
+    example: 'zapatos-infantiles',
+  })
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'slug must contain only lowercase letters, numbers and hyphens',
+  })
+  slug?: string;
+
+  @ApiPropertyOptional({
+    description: 'Descripción de la categoría',
+    example: 'Calzado para niños y niñas',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID de la categoría padre. Al editar, null la mueve a la raíz',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  parentId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Posición entre las categorías hermanas (menor primero)',
+    example: 0,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Atributos propios de los productos de la categoría, además de los heredados',
+    type: [CategoryAttributeDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CategoryAttributeDto)
+  attributes?: CategoryAttributeDto[];
+
+  @ApiPropertyOptional({
+    description: 'Si la categoría es visible en la tienda',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,13 +1,16 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { ConditionalModule } from '@nestjs/config';
 import { DevController } from './dev.controller';
 import { DevService } from './dev.service';
+import { FakeOidcModule, isFakeOidcEnabled } from './fake-oidc.module';
 import { User, UserSchema } from '@core/domain/entities/user.entity';
 import { Product, ProductSchema } from '@core/domain/entities/product.entity';
 import { Order, OrderSchema } from '@core/domain/entities/order.entity';
 import { Payment, PaymentSchema } from '../payments/entities/payment.entity';
 import { Notification, NotificationSchema } from '../notifications/entities/notification.entity';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { CategoriesModule } from '../categories/categories.module';
 
 @Module({
   imports: [
@@ -19,6 +22,8 @@ import { NotificationsModule } from '../notifications/notifications.module';
       { name: Notification.name, schema: NotificationSchema },
     ]),
     NotificationsModule,
+    CategoriesModule,
+    ConditionalModule.registerWhen(FakeOidcModule, isFakeOidcEnabled),
   ],
   controllers: [DevController],
   providers: [DevService],
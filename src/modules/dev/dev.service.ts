@@ -10,6 +10,7 @@ import { Notification } from '../notifications/entities/notification.entity';
 import { TEST_USERS } from '../auth/dto/test-user.dto';
 import { TEST_PRODUCTS } from '../products/dto/test-products.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { CategoryMigrationService } from '../categories/category-migration.service';
 
 @Injectable()
 export class DevService {
@@ -20,6 +21,7 @@ export class DevService {
     @InjectModel(Payment.name) private paymentModel: Model<Payment>,
     @InjectModel(Notification.name) private notificationModel: Model<Notification>,
     private notificationsService: NotificationsService,
+    private categoryMigrationService: CategoryMigrationService,
   ) {}
 
   async seedUsers() {
@@ -36,6 +38,8 @@ export class DevService {
       const user = new this.userModel({
         ...userData,
         password: hashedPassword,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
       });
       
       await user.save();
@@ -54,9 +58,15 @@ export class DevService {
       return existingProducts;
     }
 
+    const categoryIds =
+      await this.categoryMigrationService.ensureLegacyCategories();
+
     const products = [];
     for (const productData of TEST_PRODUCTS) {
-      const product = new this.productModel(productData);
+      const product = new this.productModel({
+        ...productData,
+        category: categoryIds.get(productData.category),
+      });
       await product.save();
       products.push(product);
       
@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  Req,
+  Redirect,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Request } from 'express';
+import { FakeOidcService, FakeOidcAuthorizeParams } from './fake-oidc.service';
+
+const BASE_PATH = '/dev/oidc';
+
+/**
+ * Endpoints del proveedor OIDC falso. Para usarlo se declara como un
+ * proveedor más con OIDC_<NOMBRE>_ISSUER=http://localhost:3001/api/dev/oidc
+ * (ver README). Solo se registra con ENABLE_FAKE_OIDC=true.
+ */
+@ApiExcludeController()
+@Controller('dev/oidc')
+export class FakeOidcController {
+  constructor(private readonly fakeOidcService: FakeOidcService) {}
+
+  @Get('.well-known/openid-configuration')
+  getDiscovery(@Req() req: Request) {
+    return this.fakeOidcService.getDiscovery(this.getIssuer(req));
+  }
+
+  @Get('authorize')
+  @Redirect()
+  authorize(@Query() params: FakeOidcAuthorizeParams) {
+    return { url: this.fakeOidcService.authorize(params) };
+  }
+
+  @Post('token')
+  @HttpCode(HttpStatus.OK)
+  token(@Req() req: Request, @Body() body: Record<string, string>) {
+    return this.fakeOidcService.exchangeCode(this.getIssuer(req), body);
+  }
+
+  @Get('jwks')
+  getJwks() {
+    return this.fakeOidcService.getJwks();
+  }
+
+  // El issuer es la URL por la que se llega al proveedor, prefijo incluido
+  private getIssuer(req: Request): string {
+    const path = req.originalUrl.split('?')[0];
+    const basePath = path.slice(0, path.indexOf(BASE_PATH) + BASE_PATH.length);
+    return `${req.protocol}://${req.get('host')}${basePath}`;
+  }
+}
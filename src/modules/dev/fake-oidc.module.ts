@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { FakeOidcController } from './fake-oidc.controller';
+import { FakeOidcService } from './fake-oidc.service';
+
+/**
+ * Indica si se registra el proveedor OIDC falso. Debe activarse de forma
+ * explícita con ENABLE_FAKE_OIDC=true y nunca en producción: emite
+ * identidades con el email verificado sin pedir credenciales.
+ */
+export function isFakeOidcEnabled(env: NodeJS.ProcessEnv): boolean {
+  if (env.ENABLE_FAKE_OIDC !== 'true') {
+    return false;
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new Error('ENABLE_FAKE_OIDC cannot be enabled in production');
+  }
+  return true;
+}
+
+@Module({
+  controllers: [FakeOidcController],
+  providers: [FakeOidcService],
+})
+export class FakeOidcModule {}
@@ -0,0 +1,184 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import * as crypto from 'crypto';
+
+export interface FakeOidcAuthorizeParams {
+  response_type?: string;
+  client_id?: string;
+  redirect_uri?: string;
+  state?: string;
+  nonce?: string;
+  code_challenge?: string;
+  code_challenge_method?: string;
+  // Email de la identidad que se devuelve, para probar varias cuentas
+  login_hint?: string;
+}
+
+interface FakeAuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+  email: string;
+  expiresAt: number;
+}
+
+const DEFAULT_EMAIL = 'cliente.oidc@example.com';
+
+/**
+ * Proveedor OIDC falso para probar el login social en local sin un
+ * proveedor real. Autoriza sin pedir credenciales a la identidad indicada en
+ * login_hint y firma los id_token con una clave RSA generada al arrancar.
+ * Los códigos y la clave viven en memoria.
+ */
+@Injectable()
+export class FakeOidcService {
+  private readonly codeExpiresInMs = 5 * 60 * 1000; // 5 minutes
+  private readonly idTokenExpiresInSeconds = 10 * 60;
+  private readonly keyId = 'fake-oidc-key';
+  private readonly codes = new Map<string, FakeAuthorizationCode>();
+  private keyPair: crypto.KeyPairKeyObjectResult | null = null;
+
+  getDiscovery(issuer: string) {
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+    };
+  }
+
+  /**
+   * Emite un código para la identidad pedida y devuelve la URL de vuelta a
+   * la aplicación con el código y el state
+   */
+  authorize(params: FakeOidcAuthorizeParams): string {
+    if (
+      params.response_type !== 'code' ||
+      !params.client_id ||
+      !params.redirect_uri ||
+      !params.state ||
+      !params.code_challenge ||
+      params.code_challenge_method !== 'S256'
+    ) {
+      throw new BadRequestException({ error: 'invalid_request' });
+    }
+
+    this.pruneExpiredCodes();
+
+    const code = crypto.randomBytes(24).toString('base64url');
+    this.codes.set(code, {
+      clientId: params.client_id,
+      redirectUri: params.redirect_uri,
+      nonce: params.nonce,
+      codeChallenge: params.code_challenge,
+      email: (params.login_hint || DEFAULT_EMAIL).toLowerCase(),
+      expiresAt: Date.now() + this.codeExpiresInMs,
+    });
+
+    const url = new URL(params.redirect_uri);
+    url.searchParams.set('code', code);
+    url.searchParams.set('state', params.state);
+    return url.toString();
+  }
+
+  /**
+   * Canjea un código de un solo uso comprobando el cliente, la URL de vuelta
+   * y el code_verifier de PKCE
+   */
+  exchangeCode(issuer: string, body: Record<string, string>) {
+    const authorization = this.codes.get(body.code);
+    this.codes.delete(body.code);
+
+    const challenge = crypto
+      .createHash('sha256')
+      .update(body.code_verifier || '')
+      .digest('base64url');
+
+    if (
+      body.grant_type !== 'authorization_code' ||
+      !authorization ||
+      authorization.expiresAt < Date.now() ||
+      authorization.clientId !== body.client_id ||
+      authorization.redirectUri !== body.redirect_uri ||
+      authorization.codeChallenge !== challenge
+    ) {
+      throw new BadRequestException({ error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const [givenName] = authorization.email.split('@');
+    const idToken = this.sign({
+      iss: issuer,
+      aud: authorization.clientId,
+      sub: crypto
+        .createHash('sha256')
+        .update(authorization.email)
+        .digest('hex')
+        .slice(0, 24),
+      email: authorization.email,
+      email_verified: true,
+      given_name: givenName,
+      family_name: 'OIDC',
+      name: `${givenName} OIDC`,
+      nonce: authorization.nonce,
+      iat: now,
+      exp: now + this.idTokenExpiresInSeconds,
+    });
+
+    return {
+      access_token: crypto.randomBytes(24).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: this.idTokenExpiresInSeconds,
+      id_token: idToken,
+    };
+  }
+
+  getJwks() {
+    const { publicKey } = this.getKeyPair();
+    return {
+      keys: [
+        {
+          ...publicKey.export({ format: 'jwk' }),
+          kid: this.keyId,
+          alg: 'RS256',
+          use: 'sig',
+        },
+      ],
+    };
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private sign(payload: Record<string, any>): string {
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    const data = `${encode({ alg: 'RS256', typ: 'JWT', kid: this.keyId })}.${encode(payload)}`;
+    const signature = crypto
+      .sign('sha256', Buffer.from(data), this.getKeyPair().privateKey)
+      .toString('base64url');
+
+    return `${data}.${signature}`;
+  }
+
+  private getKeyPair(): crypto.KeyPairKeyObjectResult {
+    if (!this.keyPair) {
+      this.keyPair = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    }
+    return this.keyPair;
+  }
+
+  private pruneExpiredCodes(): void {
+    const now = Date.now();
+    for (const [code, authorization] of this.codes) {
+      if (authorization.expiresAt < now) {
+        this.codes.delete(code);
+      }
+    }
+  }
+}
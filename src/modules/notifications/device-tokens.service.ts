@@ -0,0 +1,117 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { DeviceToken } from './entities/device-token.entity';
+import { RegisterDeviceDto } from './dto/register-device.dto';
+
+@Injectable()
+export class DeviceTokensService {
+  private readonly logger = new Logger(DeviceTokensService.name);
+  private readonly maxDevicesPerUser = 10;
+
+  constructor(
+    @InjectModel(DeviceToken.name)
+    private deviceTokenModel: Model<DeviceToken>
+  ) {}
+
+  /**
+   * Registra el token del dispositivo. Si ya estaba registrado pasa a la
+   * cuenta actual, y al superar el límite se descartan los menos recientes.
+   */
+  async register(userId: string, registerDeviceDto: RegisterDeviceDto) {
+    const device = await this.deviceTokenModel.findOneAndUpdate(
+      { token: registerDeviceDto.token },
+      {
+        userId,
+        platform: registerDeviceDto.platform,
+        appVersion: registerDeviceDto.appVersion,
+        deviceName: registerDeviceDto.deviceName,
+        lastSeenAt: new Date(),
+      },
+      { upsert: true, new: true }
+    );
+
+    const staleDevices = await this.deviceTokenModel
+      .find({ userId })
+      .sort({ lastSeenAt: -1 })
+      .skip(this.maxDevicesPerUser)
+      .select('_id');
+    if (staleDevices.length) {
+      await this.deviceTokenModel.deleteMany({
+        _id: { $in: staleDevices.map((staleDevice) => staleDevice._id) },
+      });
+    }
+
+    return this.toResponse(device);
+  }
+
+  async findDevices(userId: string) {
+    const devices = await this.deviceTokenModel
+      .find({ userId })
+      .sort({ lastSeenAt: -1 });
+
+    return devices.map((device) => this.toResponse(device));
+  }
+
+  async removeDevice(userId: string, deviceId: string) {
+    if (!Types.ObjectId.isValid(deviceId)) {
+      throw new NotFoundException('Device not found');
+    }
+
+    const result = await this.deviceTokenModel.deleteOne({
+      _id: deviceId,
+      userId,
+    });
+    if (!result.deletedCount) {
+      throw new NotFoundException('Device not found');
+    }
+
+    return { message: 'Device unregistered successfully' };
+  }
+
+  async unregister(userId: string, token: string) {
+    const result = await this.deviceTokenModel.deleteOne({ userId, token });
+    if (!result.deletedCount) {
+      throw new NotFoundException('Device not found');
+    }
+
+    return { message: 'Device unregistered successfully' };
+  }
+
+  async getTokens(userId: string): Promise<string[]> {
+    const devices = await this.deviceTokenModel
+      .find({ userId })
+      .select('token');
+
+    return devices.map((device) => device.token);
+  }
+
+  async hasDevices(userId: string): Promise<boolean> {
+    return !!(await this.deviceTokenModel.exists({ userId }));
+  }
+
+  /**
+   * Elimina los tokens que Firebase ha rechazado por no ser válidos
+   */
+  async removeInvalidTokens(tokens: string[]): Promise<void> {
+    if (!tokens.length) return;
+
+    const result = await this.deviceTokenModel.deleteMany({
+      token: { $in: tokens },
+    });
+    this.logger.log(
+      `${result.deletedCount} tokens de dispositivo no válidos eliminados`
+    );
+  }
+
+  private toResponse(device: DeviceToken) {
+    return {
+      id: device._id,
+      platform: device.platform,
+      appVersion: device.appVersion,
+      deviceName: device.deviceName,
+      lastSeenAt: device.lastSeenAt,
+      registeredAt: device.createdAt,
+    };
+  }
+}
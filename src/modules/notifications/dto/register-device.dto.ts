@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { DevicePlatform } from '../entities/device-token.entity';
+
+export class RegisterDeviceDto {
+  @ApiProperty({ description: 'Token de registro de Firebase Cloud Messaging' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  token: string;
+
+  @ApiProperty({
+    enum: DevicePlatform,
+    description: 'Plataforma del dispositivo',
+  })
+  @IsEnum(DevicePlatform)
+  platform: DevicePlatform;
+
+  @ApiPropertyOptional({
+    description: 'Versión de la aplicación',
+    example: '2.4.1',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  appVersion?: string;
+
+  @ApiPropertyOptional({ description: 'Nombre descriptivo del dispositivo' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class UnregisterDeviceDto {
+  @ApiProperty({ description: 'Token de registro de Firebase Cloud Messaging' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsTimeZone,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  NotificationType,
+  NotificationChannel,
+} from '../entities/notification.entity';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ChannelPreferenceDto {
+  @ApiProperty({ enum: NotificationType, description: 'Tipo de notificación' })
+  @IsEnum(NotificationType)
+  type: NotificationType;
+
+  @ApiProperty({ enum: NotificationChannel, description: 'Canal de envío' })
+  @IsEnum(NotificationChannel)
+  channel: NotificationChannel;
+
+  @ApiProperty({ description: 'Si el usuario desea recibirla por este canal' })
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class QuietHoursDto {
+  @ApiPropertyOptional({ description: 'Activa las horas de silencio' })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Inicio de las horas de silencio (HH:mm, hora local)',
+    example: '22:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'start must use the HH:mm format' })
+  start?: string;
+
+  @ApiPropertyOptional({
+    description: 'Fin de las horas de silencio (HH:mm, hora local)',
+    example: '08:00',
+  })
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'end must use the HH:mm format' })
+  end?: string;
+
+  @ApiPropertyOptional({
+    description: 'Zona horaria IANA del usuario',
+    example: 'America/Mexico_City',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({
+    type: [ChannelPreferenceDto],
+    description:
+      'Preferencias por tipo y canal; solo se modifican las combinaciones indicadas',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ChannelPreferenceDto)
+  channels?: ChannelPreferenceDto[];
+
+  @ApiPropertyOptional({
+    description: 'Consentimiento para recibir comunicaciones comerciales',
+  })
+  @IsOptional()
+  @IsBoolean()
+  marketingConsent?: boolean;
+
+  @ApiPropertyOptional({ type: QuietHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuietHoursDto)
+  quietHours?: QuietHoursDto;
+}
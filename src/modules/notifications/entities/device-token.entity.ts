@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+export enum DevicePlatform {
+  IOS = 'ios',
+  ANDROID = 'android',
+  WEB = 'web',
+}
+
+/**
+ * Token de Firebase Cloud Messaging de un dispositivo del usuario
+ */
+@Schema({ collection: 'device_tokens' })
+export class DeviceToken extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  token: string;
+
+  @Prop({ type: String, enum: DevicePlatform, required: true })
+  platform: DevicePlatform;
+
+  @Prop()
+  appVersion?: string;
+
+  @Prop()
+  deviceName?: string;
+
+  @Prop({ default: Date.now })
+  lastSeenAt: Date;
+}
+
+export const DeviceTokenSchema = SchemaFactory.createForClass(DeviceToken);
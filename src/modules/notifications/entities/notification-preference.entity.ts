@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+import { NotificationType, NotificationChannel } from './notification.entity';
+
+@Schema({ _id: false })
+export class ChannelPreference {
+  @Prop({ type: String, enum: NotificationType, required: true })
+  type: NotificationType;
+
+  @Prop({ type: String, enum: NotificationChannel, required: true })
+  channel: NotificationChannel;
+
+  @Prop({ required: true })
+  enabled: boolean;
+}
+
+@Schema({ _id: false })
+export class QuietHours {
+  @Prop({ default: false })
+  enabled: boolean;
+
+  // Horas locales en formato HH:mm; si start > end el periodo cruza la medianoche
+  @Prop({ default: '22:00' })
+  start: string;
+
+  @Prop({ default: '08:00' })
+  end: string;
+
+  @Prop({ default: 'UTC' })
+  timezone: string;
+}
+
+/**
+ * Preferencias de notificación de un usuario. Las combinaciones de tipo y
+ * canal sin entrada están activadas, salvo las de marketing, que además
+ * requieren consentimiento expreso.
+ */
+@Schema({ collection: 'notification_preferences' })
+export class NotificationPreference extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, unique: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: [ChannelPreference], default: [] })
+  channels: ChannelPreference[];
+
+  @Prop({ default: false })
+  marketingConsent: boolean;
+
+  @Prop()
+  marketingConsentUpdatedAt?: Date;
+
+  @Prop({ type: QuietHours, default: () => ({}) })
+  quietHours: QuietHours;
+}
+
+export const NotificationPreferenceSchema = SchemaFactory.createForClass(
+  NotificationPreference
+);
@@ -17,6 +17,7 @@ export enum NotificationType {
   // Productos
   PRODUCT_BACK_IN_STOCK = 'product_back_in_stock',
   LOW_STOCK_ALERT = 'low_stock_alert',
+  PRICE_DROP = 'price_drop',
 
   // Marketing
   PROMOTION = 'promotion',
@@ -0,0 +1,184 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  NotificationPreference,
+  QuietHours,
+} from './entities/notification-preference.entity';
+import {
+  NotificationType,
+  NotificationChannel,
+} from './entities/notification.entity';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+
+// Avisos de seguridad y de la cuenta: se envían siempre y sin esperar
+export const MANDATORY_NOTIFICATION_TYPES: NotificationType[] = [
+  NotificationType.PASSWORD_RESET,
+  NotificationType.SECURITY_ALERT,
+  NotificationType.ACCOUNT_VERIFICATION,
+];
+
+export const MARKETING_NOTIFICATION_TYPES: NotificationType[] = [
+  NotificationType.PROMOTION,
+  NotificationType.FLASH_SALE,
+  NotificationType.ABANDONED_CART,
+  NotificationType.NEWSLETTER,
+];
+
+export interface NotificationDelivery {
+  allowed: boolean;
+  // Fin de las horas de silencio si el envío debe posponerse
+  deferUntil?: Date;
+}
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(
+    @InjectModel(NotificationPreference.name)
+    private notificationPreferenceModel: Model<NotificationPreference>
+  ) {}
+
+  async getPreferences(userId: string): Promise<NotificationPreference> {
+    return this.notificationPreferenceModel.findOneAndUpdate(
+      { userId },
+      { $setOnInsert: { userId } },
+      { upsert: true, new: true }
+    );
+  }
+
+  async updatePreferences(
+    userId: string,
+    updateDto: UpdateNotificationPreferencesDto
+  ): Promise<NotificationPreference> {
+    const preferences = await this.getPreferences(userId);
+
+    for (const channelPreference of updateDto.channels || []) {
+      if (
+        !channelPreference.enabled &&
+        MANDATORY_NOTIFICATION_TYPES.includes(channelPreference.type)
+      ) {
+        throw new BadRequestException(
+          `Notifications of type ${channelPreference.type} cannot be disabled`
+        );
+      }
+
+      const existing = preferences.channels.find(
+        (preference) =>
+          preference.type === channelPreference.type &&
+          preference.channel === channelPreference.channel
+      );
+      if (existing) {
+        existing.enabled = channelPreference.enabled;
+      } else {
+        preferences.channels.push({
+          type: channelPreference.type,
+          channel: channelPreference.channel,
+          enabled: channelPreference.enabled,
+        });
+      }
+    }
+
+    if (
+      updateDto.marketingConsent !== undefined &&
+      updateDto.marketingConsent !== preferences.marketingConsent
+    ) {
+      preferences.marketingConsent = updateDto.marketingConsent;
+      preferences.marketingConsentUpdatedAt = new Date();
+    }
+
+    if (updateDto.quietHours) {
+      for (const [key, value] of Object.entries(updateDto.quietHours)) {
+        if (value !== undefined) {
+          preferences.quietHours[key] = value;
+        }
+      }
+
+      const { enabled, start, end } = preferences.quietHours;
+      if (enabled && start === end) {
+        throw new BadRequestException(
+          'Quiet hours start and end must be different'
+        );
+      }
+    }
+
+    return preferences.save();
+  }
+
+  /**
+   * Decide si una notificación puede enviarse ahora, debe posponerse hasta
+   * el final de las horas de silencio o no debe enviarse
+   */
+  async resolveDelivery(
+    userId: string,
+    type: NotificationType,
+    channel: NotificationChannel,
+    now: Date = new Date()
+  ): Promise<NotificationDelivery> {
+    if (MANDATORY_NOTIFICATION_TYPES.includes(type)) {
+      return { allowed: true };
+    }
+
+    const preferences = await this.notificationPreferenceModel.findOne({
+      userId,
+    });
+
+    if (
+      MARKETING_NOTIFICATION_TYPES.includes(type) &&
+      !preferences?.marketingConsent
+    ) {
+      return { allowed: false };
+    }
+
+    const channelPreference = preferences?.channels.find(
+      (preference) => preference.type === type && preference.channel === channel
+    );
+    if (channelPreference && !channelPreference.enabled) {
+      return { allowed: false };
+    }
+
+    // Las notificaciones in-app no interrumpen al usuario
+    if (channel === NotificationChannel.IN_APP) {
+      return { allowed: true };
+    }
+
+    const deferUntil = this.getQuietHoursEnd(preferences?.quietHours, now);
+    return deferUntil ? { allowed: true, deferUntil } : { allowed: true };
+  }
+
+  private getQuietHoursEnd(quietHours: QuietHours, now: Date): Date | null {
+    if (!quietHours?.enabled) return null;
+
+    const start = this.toMinutes(quietHours.start);
+    const end = this.toMinutes(quietHours.end);
+    const current = this.getLocalMinutes(now, quietHours.timezone);
+
+    const inQuietHours =
+      start < end
+        ? current >= start && current < end
+        : current >= start || current < end;
+    if (!inQuietHours) return null;
+
+    const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+    const quietHoursEnd = new Date(now.getTime() + minutesLeft * 60 * 1000);
+    quietHoursEnd.setUTCSeconds(0, 0);
+    return quietHoursEnd;
+  }
+
+  private getLocalMinutes(date: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const hour = Number(parts.find((part) => part.type === 'hour').value);
+    const minute = Number(parts.find((part) => part.type === 'minute').value);
+    return hour * 60 + minute;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
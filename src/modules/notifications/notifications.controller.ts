@@ -24,13 +24,22 @@ import {
 import { NotificationsService } from './notifications.service';
 import { CreateNotificationDto } from './dto/create-notification.dto';
 import { SendNotificationDto } from './dto/send-notification.dto';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { DeviceTokensService } from './device-tokens.service';
+import { RegisterDeviceDto } from './dto/register-device.dto';
+import { UnregisterDeviceDto } from './dto/unregister-device.dto';
 
 @ApiTags('notifications')
 @Controller('notifications')
 @UseGuards(AuthGuard('jwt'))
 @ApiBearerAuth('JWT-auth')
 export class NotificationsController {
-  constructor(private readonly notificationsService: NotificationsService) {}
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly notificationPreferencesService: NotificationPreferencesService,
+    private readonly deviceTokensService: DeviceTokensService
+  ) {}
 
   @Post()
   @ApiOperation({
@@ -130,6 +139,133 @@ export class NotificationsController {
     return this.notificationsService.getUnreadCount(req.user.id);
   }
 
+  @Get('preferences')
+  @ApiOperation({
+    summary: 'Obtener preferencias de notificación',
+    description:
+      'Obtiene los canales activados por tipo, el consentimiento de marketing y las horas de silencio del usuario',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Preferencias obtenidas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  getPreferences(@Request() req) {
+    return this.notificationPreferencesService.getPreferences(req.user.id);
+  }
+
+  @Patch('preferences')
+  @ApiOperation({
+    summary: 'Actualizar preferencias de notificación',
+    description:
+      'Activa o desactiva canales por tipo de notificación, gestiona el consentimiento de marketing y configura las horas de silencio. Los avisos de seguridad no se pueden desactivar',
+  })
+  @ApiBody({ type: UpdateNotificationPreferencesDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Preferencias actualizadas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Preferencias inválidas',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  updatePreferences(
+    @Request() req,
+    @Body() updatePreferencesDto: UpdateNotificationPreferencesDto
+  ) {
+    return this.notificationPreferencesService.updatePreferences(
+      req.user.id,
+      updatePreferencesDto
+    );
+  }
+
+  @Post('devices')
+  @ApiOperation({
+    summary: 'Registrar dispositivo',
+    description:
+      'Registra el token de Firebase del dispositivo para recibir push notifications. Si el token ya existía se asocia al usuario actual',
+  })
+  @ApiBody({ type: RegisterDeviceDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Dispositivo registrado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  registerDevice(@Request() req, @Body() registerDeviceDto: RegisterDeviceDto) {
+    return this.deviceTokensService.register(req.user.id, registerDeviceDto);
+  }
+
+  @Get('devices')
+  @ApiOperation({
+    summary: 'Obtener dispositivos registrados',
+    description:
+      'Obtiene los dispositivos del usuario que reciben push notifications',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Dispositivos obtenidos exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  findDevices(@Request() req) {
+    return this.deviceTokensService.findDevices(req.user.id);
+  }
+
+  @Post('devices/unregister')
+  @ApiOperation({
+    summary: 'Dar de baja dispositivo por token',
+    description:
+      'Elimina el token de Firebase indicado, por ejemplo al cerrar sesión en el dispositivo',
+  })
+  @ApiBody({ type: UnregisterDeviceDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Dispositivo dado de baja exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Dispositivo no encontrado',
+  })
+  unregisterDevice(
+    @Request() req,
+    @Body() unregisterDeviceDto: UnregisterDeviceDto
+  ) {
+    return this.deviceTokensService.unregister(
+      req.user.id,
+      unregisterDeviceDto.token
+    );
+  }
+
+  @Delete('devices/:deviceId')
+  @ApiOperation({
+    summary: 'Eliminar dispositivo',
+    description: 'Deja de enviar push notifications al dispositivo indicado',
+  })
+  @ApiParam({ name: 'deviceId', description: 'ID del dispositivo' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Dispositivo eliminado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Dispositivo no encontrado',
+  })
+  removeDevice(@Request() req, @Param('deviceId') deviceId: string) {
+    return this.deviceTokensService.removeDevice(req.user.id, deviceId);
+  }
+
   @Patch(':id/read')
   @ApiOperation({
     summary: 'Marcar notificación como leída',
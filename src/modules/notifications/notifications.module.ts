@@ -3,6 +3,13 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { NotificationsController } from './notifications.controller';
 import { NotificationsService } from './notifications.service';
 import { Notification, NotificationSchema } from './entities/notification.entity';
+import {
+  NotificationPreference,
+  NotificationPreferenceSchema,
+} from './entities/notification-preference.entity';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { DeviceToken, DeviceTokenSchema } from './entities/device-token.entity';
+import { DeviceTokensService } from './device-tokens.service';
 import { User, UserSchema } from '@core/domain/entities/user.entity';
 import { EmailService } from '@shared/services/email.service';
 import { SMSService } from '@shared/services/sms.service';
@@ -12,12 +19,19 @@ import { PushNotificationService } from '@shared/services/push-notification.serv
   imports: [
     MongooseModule.forFeature([
       { name: Notification.name, schema: NotificationSchema },
+      {
+        name: NotificationPreference.name,
+        schema: NotificationPreferenceSchema,
+      },
+      { name: DeviceToken.name, schema: DeviceTokenSchema },
       { name: User.name, schema: UserSchema },
     ]),
   ],
   controllers: [NotificationsController],
   providers: [
     NotificationsService,
+    NotificationPreferencesService,
+    DeviceTokensService,
     EmailService,
     SMSService,
     PushNotificationService,
@@ -1,4 +1,10 @@
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { OnEvent } from '@nestjs/event-emitter';
@@ -14,10 +20,24 @@ import { EmailService } from '@shared/services/email.service';
 import { SMSService } from '@shared/services/sms.service';
 import { PushNotificationService } from '@shared/services/push-notification.service';
 import { User } from '@core/domain/entities/user.entity';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { DeviceTokensService } from './device-tokens.service';
+
+// Campos de notification.data que se reenvían al dispositivo
+const PUSH_DATA_KEYS = [
+  'orderId',
+  'orderNumber',
+  'trackingNumber',
+  'paymentId',
+  'productId',
+];
 
 @Injectable()
-export class NotificationsService {
+export class NotificationsService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(NotificationsService.name);
+  private readonly scheduledCheckIntervalMs = 60 * 1000; // 1 minute
+
+  private scheduledTimer: NodeJS.Timeout;
 
   constructor(
     @InjectModel(Notification.name)
@@ -25,9 +45,24 @@ export class NotificationsService {
     @InjectModel(User.name) private userModel: Model<User>,
     private emailService: EmailService,
     private smsService: SMSService,
-    private pushNotificationService: PushNotificationService
+    private pushNotificationService: PushNotificationService,
+    private notificationPreferencesService: NotificationPreferencesService,
+    private deviceTokensService: DeviceTokensService
   ) {}
 
+  onModuleInit() {
+    this.scheduledTimer = setInterval(() => {
+      this.sendScheduledNotifications().catch((error) =>
+        this.logger.error('Error enviando notificaciones programadas:', error)
+      );
+    }, this.scheduledCheckIntervalMs);
+    this.scheduledTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.scheduledTimer);
+  }
+
   /**
    * Crea una nueva notificación
    */
@@ -39,32 +74,96 @@ export class NotificationsService {
   }
 
   /**
-   * Envía una notificación por el canal especificado
+   * Envía una notificación por el canal especificado según las preferencias
+   * del usuario. Devuelve null si el usuario no desea recibirla; durante sus
+   * horas de silencio queda pendiente hasta que terminan.
    */
   async sendNotification(
     sendNotificationDto: SendNotificationDto
-  ): Promise<Notification> {
-    const notification = await this.create(sendNotificationDto);
+  ): Promise<Notification | null> {
+    // Sin dispositivos registrados no hay a dónde enviar la push notification
+    if (
+      sendNotificationDto.channel === NotificationChannel.PUSH &&
+      !sendNotificationDto.data?.deviceToken &&
+      !(await this.deviceTokensService.hasDevices(sendNotificationDto.userId))
+    ) {
+      return null;
+    }
 
-    try {
-      await this.sendByChannel(notification);
+    const now = new Date();
+
+    if (
+      !sendNotificationDto.scheduledFor ||
+      sendNotificationDto.scheduledFor <= now
+    ) {
+      const delivery =
+        await this.notificationPreferencesService.resolveDelivery(
+          sendNotificationDto.userId,
+          sendNotificationDto.type,
+          sendNotificationDto.channel,
+          now
+        );
+      if (!delivery.allowed) {
+        this.logger.log(
+          `Notificación ${sendNotificationDto.type} por ${sendNotificationDto.channel} omitida por las preferencias de ${sendNotificationDto.userId}`
+        );
+        return null;
+      }
+      if (delivery.deferUntil) {
+        sendNotificationDto = {
+          ...sendNotificationDto,
+          scheduledFor: delivery.deferUntil,
+        };
+      }
+    }
 
-      notification.status = NotificationStatus.SENT;
-      notification.sentAt = new Date();
-    } catch (error) {
-      this.logger.error(
-        `Error enviando notificación ${notification._id}:`,
-        error
-      );
-      notification.status = NotificationStatus.FAILED;
-      notification.errorMessage = error.message;
-      notification.retryCount += 1;
+    const notification = await this.create(sendNotificationDto);
+    if (notification.scheduledFor && notification.scheduledFor > now) {
+      return notification;
     }
 
-    await notification.save();
+    await this.deliver(notification);
     return notification;
   }
 
+  /**
+   * Envía las notificaciones pendientes cuya fecha programada ha llegado,
+   * volviendo a comprobar las preferencias del usuario en ese momento
+   */
+  async sendScheduledNotifications(): Promise<void> {
+    for (;;) {
+      // Se reclama cada notificación de forma atómica para que no la envíen
+      // dos instancias a la vez
+      const notification = await this.notificationModel.findOneAndUpdate(
+        {
+          status: NotificationStatus.PENDING,
+          scheduledFor: { $lte: new Date() },
+        },
+        { $unset: { scheduledFor: 1 } },
+        { new: true, sort: { scheduledFor: 1 } }
+      );
+      if (!notification) return;
+
+      const delivery =
+        await this.notificationPreferencesService.resolveDelivery(
+          notification.userId.toString(),
+          notification.type,
+          notification.channel
+        );
+      if (!delivery.allowed) {
+        await this.notificationModel.deleteOne({ _id: notification._id });
+        continue;
+      }
+      if (delivery.deferUntil) {
+        notification.scheduledFor = delivery.deferUntil;
+        await notification.save();
+        continue;
+      }
+
+      await this.deliver(notification);
+    }
+  }
+
   // ==================== MÉTODOS DE PAGOS ====================
 
   /**
@@ -103,16 +202,14 @@ export class NotificationsService {
     }
 
     // Push notification
-    if (paymentData.deviceToken) {
-      await this.sendNotification({
-        userId,
-        type: NotificationType.PAYMENT_SUCCESS,
-        channel: NotificationChannel.PUSH,
-        title: 'Pago Exitoso',
-        message: `Pago de ${enhancedPaymentData.formattedAmount} procesado`,
-        data: { ...enhancedPaymentData, deviceToken: paymentData.deviceToken },
-      });
-    }
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PAYMENT_SUCCESS,
+      channel: NotificationChannel.PUSH,
+      title: 'Pago Exitoso',
+      message: `Pago de ${enhancedPaymentData.formattedAmount} procesado`,
+      data: enhancedPaymentData,
+    });
 
     // In-app notification
     await this.sendNotification({
@@ -162,16 +259,14 @@ export class NotificationsService {
     }
 
     // Push notification
-    if (paymentData.deviceToken) {
-      await this.sendNotification({
-        userId,
-        type: NotificationType.PAYMENT_FAILED,
-        channel: NotificationChannel.PUSH,
-        title: 'Error en el Pago',
-        message: `Pago de ${enhancedPaymentData.formattedAmount} falló`,
-        data: { ...enhancedPaymentData, deviceToken: paymentData.deviceToken },
-      });
-    }
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PAYMENT_FAILED,
+      channel: NotificationChannel.PUSH,
+      title: 'Error en el Pago',
+      message: `Pago de ${enhancedPaymentData.formattedAmount} falló`,
+      data: enhancedPaymentData,
+    });
 
     // In-app notification
     await this.sendNotification({
@@ -267,16 +362,14 @@ export class NotificationsService {
     }
 
     // Push notification
-    if (orderData.deviceToken) {
-      await this.sendNotification({
-        userId,
-        type: NotificationType.ORDER_CONFIRMED,
-        channel: NotificationChannel.PUSH,
-        title: 'Pedido Confirmado',
-        message: `Pedido #${orderData.orderNumber} confirmado`,
-        data: { ...enhancedOrderData, deviceToken: orderData.deviceToken },
-      });
-    }
+    await this.sendNotification({
+      userId,
+      type: NotificationType.ORDER_CONFIRMED,
+      channel: NotificationChannel.PUSH,
+      title: 'Pedido Confirmado',
+      message: `Pedido #${orderData.orderNumber} confirmado`,
+      data: enhancedOrderData,
+    });
 
     // In-app notification
     await this.sendNotification({
@@ -324,16 +417,14 @@ export class NotificationsService {
     }
 
     // Push notification
-    if (orderData.deviceToken) {
-      await this.sendNotification({
-        userId,
-        type: NotificationType.ORDER_SHIPPED,
-        channel: NotificationChannel.PUSH,
-        title: 'Pedido Enviado',
-        message: `Pedido #${orderData.orderNumber} enviado`,
-        data: { ...enhancedOrderData, deviceToken: orderData.deviceToken },
-      });
-    }
+    await this.sendNotification({
+      userId,
+      type: NotificationType.ORDER_SHIPPED,
+      channel: NotificationChannel.PUSH,
+      title: 'Pedido Enviado',
+      message: `Pedido #${orderData.orderNumber} enviado`,
+      data: enhancedOrderData,
+    });
 
     // In-app notification
     await this.sendNotification({
@@ -381,16 +472,14 @@ export class NotificationsService {
     }
 
     // Push notification
-    if (orderData.deviceToken) {
-      await this.sendNotification({
-        userId,
-        type: NotificationType.ORDER_DELIVERED,
-        channel: NotificationChannel.PUSH,
-        title: 'Pedido Entregado',
-        message: `Pedido #${orderData.orderNumber} entregado`,
-        data: { ...enhancedOrderData, deviceToken: orderData.deviceToken },
-      });
-    }
+    await this.sendNotification({
+      userId,
+      type: NotificationType.ORDER_DELIVERED,
+      channel: NotificationChannel.PUSH,
+      title: 'Pedido Entregado',
+      message: `Pedido #${orderData.orderNumber} entregado`,
+      data: enhancedOrderData,
+    });
 
     // In-app notification
     await this.sendNotification({
@@ -479,6 +568,149 @@ export class NotificationsService {
     });
   }
 
+  /**
+   * Envía las instrucciones de restablecimiento de contraseña. El enlace con
+   * el token solo viaja por email y se elimina del registro tras el envío.
+   */
+  async sendPasswordReset(userId: string, resetData: any): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user) return;
+
+    const { resetUrl, deviceToken, ...safeResetData } = {
+      ...resetData,
+      customerName: `${user.firstName} ${user.lastName}`,
+    };
+
+    // Email notification
+    const emailNotification = await this.sendNotification({
+      userId,
+      type: NotificationType.PASSWORD_RESET,
+      channel: NotificationChannel.EMAIL,
+      title: 'Restablecer Contraseña - Moda Elegante',
+      message:
+        'Recibimos una solicitud para restablecer tu contraseña. Revisa tu email para continuar.',
+      data: { ...safeResetData, resetUrl },
+    });
+    emailNotification.data = safeResetData;
+    await emailNotification.save();
+
+    // SMS notification
+    if (user.phone) {
+      await this.sendNotification({
+        userId,
+        type: NotificationType.PASSWORD_RESET,
+        channel: NotificationChannel.SMS,
+        title: 'Restablecer Contraseña',
+        message: `${user.firstName}, se solicitó restablecer tu contraseña.`,
+        data: safeResetData,
+      });
+    }
+
+    // Push notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PASSWORD_RESET,
+      channel: NotificationChannel.PUSH,
+      title: 'Restablecer Contraseña',
+      message: 'Se ha enviado un enlace de restablecimiento a tu email',
+      data: { ...safeResetData, deviceToken },
+    });
+  }
+
+  /**
+   * Envía el enlace de verificación de email. Como en el restablecimiento
+   * de contraseña, el enlace no se conserva en el registro.
+   */
+  async sendAccountVerification(
+    userId: string,
+    verificationData: any
+  ): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user) return;
+
+    const { verificationUrl, ...safeVerificationData } = {
+      ...verificationData,
+      customerName: `${user.firstName} ${user.lastName}`,
+    };
+
+    // Email notification
+    const emailNotification = await this.sendNotification({
+      userId,
+      type: NotificationType.ACCOUNT_VERIFICATION,
+      channel: NotificationChannel.EMAIL,
+      title: 'Verifica tu Email - Moda Elegante',
+      message: 'Confirma tu dirección de correo para activar tu cuenta.',
+      data: { ...safeVerificationData, verificationUrl },
+    });
+    emailNotification.data = safeVerificationData;
+    await emailNotification.save();
+
+    // In-app notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.ACCOUNT_VERIFICATION,
+      channel: NotificationChannel.IN_APP,
+      title: 'Verifica tu Email',
+      message: `Te enviamos un enlace de verificación a ${user.email}.`,
+      data: safeVerificationData,
+    });
+  }
+
+  /**
+   * Envía una alerta de seguridad (bloqueo de cuenta, nuevo dispositivo, etc.)
+   */
+  async sendSecurityAlert(userId: string, securityData: any): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user) return;
+
+    const enhancedSecurityData = {
+      ...securityData,
+      customerName: `${user.firstName} ${user.lastName}`,
+    };
+
+    // Email notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.SECURITY_ALERT,
+      channel: NotificationChannel.EMAIL,
+      title: 'Alerta de Seguridad - Moda Elegante',
+      message: `Detectamos ${securityData.activity} en tu cuenta${securityData.ip ? ` (IP: ${securityData.ip})` : ''}. Si no fuiste tú, restablece tu contraseña inmediatamente.`,
+      data: enhancedSecurityData,
+    });
+
+    // SMS notification
+    if (user.phone) {
+      await this.sendNotification({
+        userId,
+        type: NotificationType.SECURITY_ALERT,
+        channel: NotificationChannel.SMS,
+        title: 'Alerta de Seguridad',
+        message: `${user.firstName}, detectamos ${securityData.activity} en tu cuenta.`,
+        data: enhancedSecurityData,
+      });
+    }
+
+    // Push notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.SECURITY_ALERT,
+      channel: NotificationChannel.PUSH,
+      title: 'Alerta de Seguridad',
+      message: `Actividad inusual detectada: ${securityData.activity}`,
+      data: enhancedSecurityData,
+    });
+
+    // In-app notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.SECURITY_ALERT,
+      channel: NotificationChannel.IN_APP,
+      title: 'Alerta de Seguridad',
+      message: `Detectamos ${securityData.activity} en tu cuenta.`,
+      data: enhancedSecurityData,
+    });
+  }
+
   /**
    * Envía notificación de producto disponible
    */
@@ -505,16 +737,14 @@ export class NotificationsService {
     });
 
     // Push notification
-    if (productData.deviceToken) {
-      await this.sendNotification({
-        userId,
-        type: NotificationType.PRODUCT_BACK_IN_STOCK,
-        channel: NotificationChannel.PUSH,
-        title: 'Producto Disponible',
-        message: `"${productData.productName}" está disponible`,
-        data: { ...enhancedProductData, deviceToken: productData.deviceToken },
-      });
-    }
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PRODUCT_BACK_IN_STOCK,
+      channel: NotificationChannel.PUSH,
+      title: 'Producto Disponible',
+      message: `"${productData.productName}" está disponible`,
+      data: enhancedProductData,
+    });
 
     // In-app notification
     await this.sendNotification({
@@ -527,6 +757,101 @@ export class NotificationsService {
     });
   }
 
+  /**
+   * Envía notificación de bajada de precio de un producto de la lista de deseos
+   */
+  async sendPriceDrop(userId: string, productData: any): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user) return;
+
+    const enhancedProductData = {
+      ...productData,
+      customerName: `${user.firstName} ${user.lastName}`,
+      formattedPrice: `$${productData.currentPrice?.toFixed(2) || '0.00'}`,
+      formattedPreviousPrice: `$${productData.previousPrice?.toFixed(2) || '0.00'}`,
+    };
+
+    // Email notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PRICE_DROP,
+      channel: NotificationChannel.EMAIL,
+      title: 'Bajada de Precio - Moda Elegante',
+      message: `El producto "${productData.productName}" de tu lista de deseos ha bajado de ${enhancedProductData.formattedPreviousPrice} a ${enhancedProductData.formattedPrice}.`,
+      data: enhancedProductData,
+    });
+
+    // Push notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PRICE_DROP,
+      channel: NotificationChannel.PUSH,
+      title: 'Bajada de Precio',
+      message: `"${productData.productName}" ahora cuesta ${enhancedProductData.formattedPrice}`,
+      data: enhancedProductData,
+    });
+
+    // In-app notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PRICE_DROP,
+      channel: NotificationChannel.IN_APP,
+      title: 'Bajada de Precio',
+      message: `El producto "${productData.productName}" de tu lista de deseos ahora cuesta ${enhancedProductData.formattedPrice}.`,
+      data: enhancedProductData,
+    });
+  }
+
+  /**
+   * Programa el recordatorio para reseñar los productos de un pedido entregado
+   */
+  async sendReviewReminder(
+    userId: string,
+    orderData: any,
+    scheduledFor?: Date
+  ): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user) return;
+
+    const enhancedOrderData = {
+      ...orderData,
+      customerName: `${user.firstName} ${user.lastName}`,
+    };
+
+    // Email notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.REVIEW_REMINDER,
+      channel: NotificationChannel.EMAIL,
+      title: '¿Qué te pareció tu compra? - Moda Elegante',
+      message: `Cuéntanos qué te parecieron los productos de tu pedido #${orderData.orderNumber}. Tu reseña ayuda a otros clientes a elegir.`,
+      data: enhancedOrderData,
+      scheduledFor,
+    });
+
+    // Push notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.REVIEW_REMINDER,
+      channel: NotificationChannel.PUSH,
+      title: '⭐ ¿Cómo estuvo tu compra?',
+      message: `Comparte tu experiencia sobre el pedido ${orderData.orderNumber}`,
+      data: enhancedOrderData,
+      scheduledFor,
+    });
+
+    // In-app notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.REVIEW_REMINDER,
+      channel: NotificationChannel.IN_APP,
+      title: 'Reseña tu compra',
+      message: `Ya puedes reseñar los productos de tu pedido #${orderData.orderNumber}.`,
+      data: enhancedOrderData,
+      scheduledFor,
+    });
+  }
+
   /**
    * Envía notificación promocional
    */
@@ -553,23 +878,30 @@ export class NotificationsService {
       data: enhancedPromotionData,
     });
 
-    // SMS notification (only if user opted in)
-
-    // Push notification
-    if (promotionData.deviceToken) {
+    // SMS notification (solo con consentimiento, ver preferencias)
+    if (user.phone) {
       await this.sendNotification({
         userId,
         type: NotificationType.PROMOTION,
-        channel: NotificationChannel.PUSH,
+        channel: NotificationChannel.SMS,
         title: 'Oferta Especial',
-        message: promotionData.shortMessage || 'Nueva oferta disponible',
-        data: {
-          ...enhancedPromotionData,
-          deviceToken: promotionData.deviceToken,
-        },
+        message:
+          promotionData.shortMessage ||
+          `${user.firstName}, tenemos nuevas ofertas para ti.`,
+        data: enhancedPromotionData,
       });
     }
 
+    // Push notification
+    await this.sendNotification({
+      userId,
+      type: NotificationType.PROMOTION,
+      channel: NotificationChannel.PUSH,
+      title: 'Oferta Especial',
+      message: promotionData.shortMessage || 'Nueva oferta disponible',
+      data: enhancedPromotionData,
+    });
+
     // In-app notification
     await this.sendNotification({
       userId,
@@ -633,17 +965,6 @@ export class NotificationsService {
     }
   }
 
-  @OnEvent('product.back.in.stock')
-  async handleProductBackInStock(payload: any): Promise<void> {
-    try {
-      // Aquí podrías obtener una lista de usuarios interesados en el producto
-      // Por ahora, es un placeholder
-      this.logger.log(`Producto disponible nuevamente: ${payload.productId}`);
-    } catch (error) {
-      this.logger.error('Error manejando evento producto disponible:', error);
-    }
-  }
-
   // ==================== MÉTODOS DE CONSULTA ====================
 
   /**
@@ -716,6 +1037,28 @@ export class NotificationsService {
 
   // ==================== MÉTODOS PRIVADOS ====================
 
+  /**
+   * Envía la notificación y registra el resultado
+   */
+  private async deliver(notification: Notification): Promise<void> {
+    try {
+      await this.sendByChannel(notification);
+
+      notification.status = NotificationStatus.SENT;
+      notification.sentAt = new Date();
+    } catch (error) {
+      this.logger.error(
+        `Error enviando notificación ${notification._id}:`,
+        error
+      );
+      notification.status = NotificationStatus.FAILED;
+      notification.errorMessage = error.message;
+      notification.retryCount += 1;
+    }
+
+    await notification.save();
+  }
+
   /**
    * Envía notificación por el canal especificado
    */
@@ -784,6 +1127,18 @@ export class NotificationsService {
           notification.data
         );
         break;
+      case NotificationType.PASSWORD_RESET:
+        success = await this.emailService.sendPasswordResetEmail(
+          user.email,
+          notification.data
+        );
+        break;
+      case NotificationType.ACCOUNT_VERIFICATION:
+        success = await this.emailService.sendAccountVerificationEmail(
+          user.email,
+          notification.data
+        );
+        break;
       default:
         // Email genérico para otros tipos
         success = await this.emailService.sendEmail({
@@ -845,6 +1200,18 @@ export class NotificationsService {
           notification.data
         );
         break;
+      case NotificationType.PASSWORD_RESET:
+        success = await this.smsService.sendPasswordResetSMS(
+          user.phone,
+          notification.data
+        );
+        break;
+      case NotificationType.SECURITY_ALERT:
+        success = await this.smsService.sendSecurityAlertSMS(
+          user.phone,
+          notification.data
+        );
+        break;
       default:
         // SMS genérico para otros tipos
         success = await this.smsService.sendSMS({
@@ -859,68 +1226,55 @@ export class NotificationsService {
   }
 
   /**
-   * Envía push notification
+   * Envía push notification a todos los dispositivos registrados del usuario
+   * y elimina los tokens que Firebase rechaza
    */
   private async sendPushNotification(
     notification: Notification
   ): Promise<void> {
-    const deviceToken = notification.data?.deviceToken;
-    if (!deviceToken) throw new Error('Token de dispositivo no encontrado');
+    const tokens = await this.deviceTokensService.getTokens(
+      notification.userId.toString()
+    );
+    // Token indicado explícitamente por quien origina la notificación
+    const explicitToken = notification.data?.deviceToken;
+    if (explicitToken && !tokens.includes(explicitToken)) {
+      tokens.push(explicitToken);
+    }
+    if (!tokens.length) throw new Error('Token de dispositivo no encontrado');
 
-    let success = false;
+    const result = await this.pushNotificationService.sendToMultipleDevices(
+      tokens,
+      notification.title,
+      notification.message,
+      this.buildPushData(notification)
+    );
 
-    switch (notification.type) {
-      case NotificationType.ORDER_CONFIRMED:
-        success = await this.pushNotificationService.sendOrderConfirmationPush(
-          deviceToken,
-          notification.data
-        );
-        break;
-      case NotificationType.ORDER_SHIPPED:
-        success = await this.pushNotificationService.sendOrderShippedPush(
-          deviceToken,
-          notification.data
-        );
-        break;
-      case NotificationType.ORDER_DELIVERED:
-        success = await this.pushNotificationService.sendOrderDeliveredPush(
-          deviceToken,
-          notification.data
-        );
-        break;
-      case NotificationType.PAYMENT_SUCCESS:
-        success = await this.pushNotificationService.sendPaymentSuccessPush(
-          deviceToken,
-          notification.data
-        );
-        break;
-      case NotificationType.PAYMENT_FAILED:
-        success = await this.pushNotificationService.sendPaymentFailedPush(
-          deviceToken,
-          notification.data
-        );
-        break;
-      case NotificationType.PRODUCT_BACK_IN_STOCK:
-        success = await this.pushNotificationService.sendProductBackInStockPush(
-          deviceToken,
-          notification.data
-        );
-        break;
-      default:
-        // Push notification genérica para otros tipos
-        success = await this.pushNotificationService.sendPushNotification({
-          token: deviceToken,
-          title: notification.title,
-          body: notification.message,
-          data: notification.data,
-        });
-    }
+    await this.deviceTokensService.removeInvalidTokens(result.invalidTokens);
 
-    if (!success) {
+    if (!result.successCount) {
       throw new Error('Error enviando push notification');
     }
   }
 
+  /**
+   * Datos de la push notification: FCM solo admite valores de texto
+   */
+  private buildPushData(notification: Notification): Record<string, string> {
+    const data: Record<string, string> = {
+      type: notification.type,
+      notificationId: notification._id.toString(),
+    };
+
+    for (const key of PUSH_DATA_KEYS) {
+      const value = notification.data?.[key];
+      if (value !== undefined && value !== null) {
+        data[key] = value.toString();
+      }
+    }
+
+    return data;
+  }
+
   /**
    * Elimina una notificación específica del usuario
    */
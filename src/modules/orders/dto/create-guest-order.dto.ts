@@ -0,0 +1,7 @@
+import { IsEmail } from 'class-validator';
+import { CreateOrderDto } from './create-order.dto';
+
+export class CreateGuestOrderDto extends CreateOrderDto {
+  @IsEmail()
+  email: string;
+}
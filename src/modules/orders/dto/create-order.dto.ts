@@ -1,4 +1,9 @@
-import { IsString, IsOptional, ValidateNested } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsMongoId,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class ShippingAddressDto {
@@ -29,9 +34,16 @@ export class ShippingAddressDto {
 }
 
 export class CreateOrderDto {
+  // Dirección guardada en la libreta del usuario. Si no se indica ni esta ni
+  // shippingAddress se usa la dirección de envío por defecto
+  @IsOptional()
+  @IsMongoId()
+  shippingAddressId?: string;
+
+  @IsOptional()
   @ValidateNested()
   @Type(() => ShippingAddressDto)
-  shippingAddress: ShippingAddressDto;
+  shippingAddress?: ShippingAddressDto;
 
   @IsOptional()
   @IsString()
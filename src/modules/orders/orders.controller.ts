@@ -9,7 +9,9 @@ import {
   Query,
   UseGuards,
   Request,
+  Headers,
   HttpStatus,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import {
@@ -20,18 +22,26 @@ import {
   ApiBody,
   ApiParam,
   ApiQuery,
+  ApiSecurity,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
 import { CreateOrderDto } from './dto/create-order.dto';
+import { CreateGuestOrderDto } from './dto/create-guest-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { OrderStatus } from '@core/domain/entities/order.entity';
+import { Permission } from '@core/domain/permissions';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
 
 @ApiTags('orders')
 @Controller('orders')
-@UseGuards(AuthGuard('jwt'))
 @ApiBearerAuth('JWT-auth')
 export class OrdersController {
   constructor(private readonly ordersService: OrdersService) {}
 
+  // Las rutas de fulfillment aceptan también API keys de integraciones;
+  // las del cliente requieren un usuario autenticado
+  @UseGuards(AuthGuard('jwt'))
   @Post()
   @ApiOperation({
     summary: 'Crear nuevo pedido',
@@ -54,6 +64,76 @@ export class OrdersController {
     return this.ordersService.createOrder(req.user.id, createOrderDto);
   }
 
+  @Post('guest')
+  @ApiHeader({ name: 'x-guest-token', description: 'Token del invitado' })
+  @ApiOperation({
+    summary: 'Crear pedido de invitado',
+    description:
+      'Crea un pedido a partir del carrito de invitado sin necesidad de cuenta. Devuelve el token del enlace de consulta, que también se envía por email',
+  })
+  @ApiBody({ type: CreateGuestOrderDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Pedido creado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Datos del pedido inválidos o carrito vacío',
+  })
+  createGuestOrder(
+    @Headers('x-guest-token') guestToken: string,
+    @Body() createGuestOrderDto: CreateGuestOrderDto
+  ) {
+    if (!guestToken) {
+      throw new UnauthorizedException('Guest token is required');
+    }
+    return this.ordersService.createGuestOrder(guestToken, createGuestOrderDto);
+  }
+
+  @Get('guest/:id')
+  @ApiOperation({
+    summary: 'Consultar pedido de invitado',
+    description:
+      'Obtiene un pedido de invitado con el token del enlace enviado por email',
+  })
+  @ApiParam({ name: 'id', description: 'ID del pedido' })
+  @ApiQuery({
+    name: 'token',
+    required: true,
+    description: 'Token del enlace de consulta',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pedido obtenido exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Pedido no encontrado o token inválido',
+  })
+  findGuestOrder(@Param('id') id: string, @Query('token') token: string) {
+    return this.ordersService.findGuestOrder(id, token);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('claim')
+  @ApiOperation({
+    summary: 'Reclamar pedidos de invitado',
+    description:
+      'Asocia a la cuenta los pedidos hechos como invitado con el mismo email (requiere email verificado)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Pedidos reclamados exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'El email de la cuenta no está verificado',
+  })
+  claimGuestOrders(@Request() req) {
+    return this.ordersService.claimGuestOrders(req.user.id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
   @Get()
   @ApiOperation({
     summary: 'Obtener pedidos del usuario',
@@ -87,6 +167,50 @@ export class OrdersController {
     return this.ordersService.findUserOrders(req.user.id, page, limit);
   }
 
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @Get('all')
+  @RequirePermissions(Permission.ORDERS_READ_ALL)
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Obtener todos los pedidos',
+    description:
+      'Obtiene los pedidos de todos los usuarios, opcionalmente filtrados por estado (administración, almacén e integraciones)',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Número de página',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Elementos por página',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: OrderStatus,
+    description: 'Filtrar por estado',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de pedidos obtenida exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  findAll(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('status') status?: OrderStatus
+  ) {
+    return this.ordersService.findAll(page, limit, status);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
   @Get(':id')
   @ApiOperation({
     summary: 'Obtener pedido por ID',
@@ -109,7 +233,10 @@ export class OrdersController {
     return this.ordersService.findOne(id, req.user.id);
   }
 
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
   @Patch(':id/status')
+  @RequirePermissions(Permission.ORDERS_FULFILL)
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: 'Actualizar estado del pedido',
     description: 'Actualiza el estado de un pedido (solo administradores)',
@@ -132,6 +259,10 @@ export class OrdersController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Token JWT inválido o expirado',
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
   updateOrderStatus(
     @Param('id') id: string,
     @Body() updateOrderStatusDto: UpdateOrderStatusDto
@@ -139,6 +270,7 @@ export class OrdersController {
     return this.ordersService.updateOrderStatus(id, updateOrderStatusDto);
   }
 
+  @UseGuards(AuthGuard('jwt'))
   @Delete(':id/cancel')
   @ApiOperation({
     summary: 'Cancelar pedido',
@@ -6,9 +6,11 @@ import { Order, OrderSchema } from '@core/domain/entities/order.entity';
 import { Cart, CartSchema } from '@core/domain/entities/cart.entity';
 import { Product, ProductSchema } from '@core/domain/entities/product.entity';
 import { User, UserSchema } from '@core/domain/entities/user.entity';
+import { Address, AddressSchema } from '@core/domain/entities/address.entity';
 import { CartModule } from '../cart/cart.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { PatternsModule } from '@shared/patterns/patterns.module';
+import { UtilsModule } from '@shared/utils/utils.module';
 
 @Module({
   imports: [
@@ -17,10 +19,12 @@ import { PatternsModule } from '@shared/patterns/patterns.module';
       { name: Cart.name, schema: CartSchema },
       { name: Product.name, schema: ProductSchema },
       { name: User.name, schema: UserSchema },
+      { name: Address.name, schema: AddressSchema },
     ]),
     CartModule,
     NotificationsModule,
     PatternsModule,
+    UtilsModule,
   ],
   controllers: [OrdersController],
   providers: [OrdersService],
@@ -1,82 +1,62 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
 import { Order, OrderStatus, PaymentStatus } from '@core/domain/entities/order.entity';
 import { Cart } from '@core/domain/entities/cart.entity';
 import { Product } from '@core/domain/entities/product.entity';
 import { User } from '@core/domain/entities/user.entity';
+import { Address } from '@core/domain/entities/address.entity';
 import { CartService } from '../cart/cart.service';
-import { CreateOrderDto } from './dto/create-order.dto';
+import { CreateOrderDto, ShippingAddressDto } from './dto/create-order.dto';
+import { CreateGuestOrderDto } from './dto/create-guest-order.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
 import { NotificationsService } from '../notifications/notifications.service';
 import { EventHandlerService } from '@shared/patterns/event-handler.service';
+import { EmailService } from '@shared/services/email.service';
+import {
+  EmailVerificationPolicy,
+  VerificationScope,
+} from '@shared/utils/email-verification.policy';
+import { AddressPolicy } from '@shared/utils/address.policy';
 
 @Injectable()
 export class OrdersService {
   constructor(
     @InjectModel(Order.name) private orderModel: Model<Order>,
-    @InjectModel(Cart.name) private cartModel: Model<Cart>,
     @InjectModel(Product.name) private productModel: Model<Product>,
     @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Address.name) private addressModel: Model<Address>,
     private cartService: CartService,
     private notificationsService: NotificationsService,
     private eventHandlerService: EventHandlerService,
+    private emailVerificationPolicy: EmailVerificationPolicy,
+    private addressPolicy: AddressPolicy,
+    private emailService: EmailService,
+    private configService: ConfigService,
   ) {}
 
   async createOrder(userId: string, createOrderDto: CreateOrderDto): Promise<Order> {
-    const cart = await this.cartModel
-      .findOne({ userId })
-      .populate('items.productId')
-      .exec();
-
-    if (!cart || cart.items.length === 0) {
-      throw new BadRequestException('Cart is empty');
-    }
-
-    for (const item of cart.items) {
-      const product = await this.productModel.findById(item.productId);
-      if (!product || product.stock < item.quantity) {
-        throw new BadRequestException(
-          `Insufficient stock for product: ${product?.name || 'Unknown'}`,
-        );
-      }
-    }
-
-    const orderNumber = await this.generateOrderNumber();
-
-    const subtotal = cart.totalAmount;
-    const tax = subtotal * 0.1; // 10% tax
-    const shippingCost = subtotal > 100 ? 0 : 10; // Free shipping over $100
-    const totalAmount = subtotal + tax + shippingCost;
+    const user = await this.userModel.findById(userId);
+    this.emailVerificationPolicy.assertVerified(user, VerificationScope.ORDERS);
 
-    const orderItems = cart.items.map((item: any) => ({
-      productId: item.productId._id,
-      productName: item.productId.name,
-      quantity: item.quantity,
-      size: item.size,
-      color: item.color,
-      unitPrice: item.price,
-      totalPrice: item.price * item.quantity,
-    }));
+    const shippingAddress = await this.resolveShippingAddress(
+      userId,
+      createOrderDto,
+    );
+    const cart = await this.cartService.findCartForCheckout({ userId });
 
-    // Create order
-    const order = new this.orderModel({
-      orderNumber,
+    const order = await this.placeOrder(cart, shippingAddress, createOrderDto, {
       userId,
-      items: orderItems,
-      subtotal,
-      tax,
-      shippingCost,
-      totalAmount,
-      shippingAddress: createOrderDto.shippingAddress,
-      notes: createOrderDto.notes,
+      contactEmail: user?.email,
     });
 
-    await order.save();
-
-    // Get user data for notifications
-    const user = await this.userModel.findById(userId);
-
     // Send order confirmation notifications
     try {
       const orderData = {
@@ -99,20 +79,99 @@ export class OrdersService {
       // Don't fail order creation if notification fails
     }
 
-    // Update product stock
-    for (const item of cart.items) {
-      await this.productModel.findByIdAndUpdate(
-        item.productId,
-        { $inc: { stock: -item.quantity } },
-      );
+    // Clear cart
+    await this.cartService.clearCart({ userId });
+
+    return order;
+  }
+
+  /**
+   * Crea un pedido a partir del carrito de un invitado. El pedido guarda el
+   * email de contacto y un enlace de consulta de un solo token, que solo se
+   * envía por email y se devuelve en esta respuesta.
+   */
+  async createGuestOrder(
+    guestToken: string,
+    createGuestOrderDto: CreateGuestOrderDto,
+  ): Promise<{ order: Order; accessToken: string }> {
+    // Los invitados no tienen libreta de direcciones
+    if (!createGuestOrderDto.shippingAddress) {
+      throw new BadRequestException('Shipping address is required');
     }
+    this.addressPolicy.assertValid(createGuestOrderDto.shippingAddress);
+
+    const cart = await this.cartService.findCartForCheckout({ guestToken });
+
+    const accessToken = crypto.randomBytes(32).toString('hex');
+    const { _id } = await this.placeOrder(
+      cart,
+      createGuestOrderDto.shippingAddress,
+      createGuestOrderDto,
+      {
+        contactEmail: createGuestOrderDto.email,
+        guestAccessTokenHash: this.hashToken(accessToken),
+      },
+    );
+    // Se recarga para no devolver el hash del token de consulta
+    const order = await this.orderModel.findById(_id);
 
-    // Clear cart
-    await this.cartService.clearCart(userId);
+    const sent = await this.emailService.sendOrderConfirmationEmail(
+      order.contactEmail,
+      {
+        ...order.toObject(),
+        customerName: `${order.shippingAddress.firstName} ${order.shippingAddress.lastName}`,
+        orderLookupUrl: `${this.configService.get<string>('FRONTEND_URL')}/orders/guest/${order._id}?token=${accessToken}`,
+      },
+    );
+    if (!sent) {
+      console.error(`Failed to send guest order confirmation: ${order._id}`);
+    }
+
+    await this.cartService.clearCart({ guestToken });
+
+    return { order, accessToken };
+  }
+
+  async findGuestOrder(id: string, accessToken: string): Promise<Order> {
+    const order = await this.orderModel.findOne({
+      _id: id,
+      guestAccessTokenHash: this.hashToken(accessToken || ''),
+    });
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
 
     return order;
   }
 
+  /**
+   * Asocia a la cuenta los pedidos de invitado hechos con su email. Exige el
+   * email verificado para que nadie pueda reclamar pedidos ajenos
+   * registrándose con la dirección de otra persona.
+   */
+  async claimGuestOrders(userId: string) {
+    const user = await this.userModel.findById(userId);
+    if (!user?.emailVerified) {
+      throw new ForbiddenException(
+        'Please verify your email address before claiming your orders',
+      );
+    }
+
+    const result = await this.orderModel.updateMany(
+      {
+        userId: { $exists: false },
+        contactEmail: user.email.toLowerCase(),
+      },
+      {
+        $set: { userId: user._id, claimedAt: new Date() },
+        // El enlace de consulta deja de funcionar una vez reclamado
+        $unset: { guestAccessTokenHash: 1 },
+      },
+    );
+
+    return { claimedOrders: result.modifiedCount };
+  }
+
   async findUserOrders(userId: string, page: number = 1, limit: number = 10) {
     const skip = (page - 1) * limit;
 
@@ -137,6 +196,34 @@ export class OrdersService {
     };
   }
 
+  async findAll(page: number = 1, limit: number = 20, status?: OrderStatus) {
+    const skip = (page - 1) * limit;
+    const filter: any = {};
+    if (status) {
+      filter.status = status;
+    }
+
+    const [orders, total] = await Promise.all([
+      this.orderModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec(),
+      this.orderModel.countDocuments(filter),
+    ]);
+
+    return {
+      orders,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
   async findOne(id: string, userId?: string): Promise<Order> {
     const filter: any = { _id: id };
     if (userId) {
@@ -155,9 +242,18 @@ export class OrdersService {
     id: string,
     updateOrderStatusDto: UpdateOrderStatusDto,
   ): Promise<Order> {
+    const previous = await this.orderModel.findById(id);
+    if (!previous) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const delivered =
+      updateOrderStatusDto.status === OrderStatus.DELIVERED &&
+      previous.status !== OrderStatus.DELIVERED;
+
     const order = await this.orderModel.findByIdAndUpdate(
       id,
-      updateOrderStatusDto,
+      delivered ? { ...updateOrderStatusDto, deliveredAt: new Date() } : updateOrderStatusDto,
       { new: true },
     );
 
@@ -165,6 +261,15 @@ export class OrdersService {
       throw new NotFoundException('Order not found');
     }
 
+    // Aviso de entrega y, más tarde, recordatorio para reseñar los productos
+    if (delivered && order.userId) {
+      this.eventHandlerService.emitOrderDelivered({
+        orderId: order._id.toString(),
+        userId: order.userId.toString(),
+        orderData: order,
+      });
+    }
+
     return order;
   }
 
@@ -180,10 +285,15 @@ export class OrdersService {
 
     // Restore product stock
     for (const item of order.items) {
-      await this.productModel.findByIdAndUpdate(
-        item.productId,
-        { $inc: { stock: item.quantity } },
-      );
+      const product = await this.restoreStock(item);
+      if (product) {
+        this.eventHandlerService.emitProductStockUpdated({
+          productId: product._id.toString(),
+          previousStock: product.stock - item.quantity,
+          currentStock: product.stock,
+          productData: product,
+        });
+      }
     }
 
     order.status = OrderStatus.CANCELLED;
@@ -192,6 +302,195 @@ export class OrdersService {
     return order;
   }
 
+  /**
+   * Dirección de envío del pedido: la guardada que se indique, la enviada en
+   * el propio pedido (validada como las guardadas) o, en su defecto, la de
+   * envío por defecto del usuario
+   */
+  private async resolveShippingAddress(
+    userId: string,
+    createOrderDto: CreateOrderDto,
+  ): Promise<ShippingAddressDto> {
+    if (!createOrderDto.shippingAddressId && createOrderDto.shippingAddress) {
+      this.addressPolicy.assertValid(createOrderDto.shippingAddress);
+      return createOrderDto.shippingAddress;
+    }
+
+    const address = await this.addressModel.findOne(
+      createOrderDto.shippingAddressId
+        ? { _id: createOrderDto.shippingAddressId, userId }
+        : { userId, isDefaultShipping: true },
+    );
+    if (!address) {
+      throw createOrderDto.shippingAddressId
+        ? new NotFoundException('Address not found')
+        : new BadRequestException('Shipping address is required');
+    }
+
+    return {
+      firstName: address.firstName,
+      lastName: address.lastName,
+      street: address.street,
+      city: address.city,
+      state: address.state,
+      zipCode: address.zipCode,
+      country: address.country,
+      phone: address.phone,
+    };
+  }
+
+  private async placeOrder(
+    cart: Cart | null,
+    shippingAddress: ShippingAddressDto,
+    createOrderDto: CreateOrderDto,
+    owner: {
+      userId?: string;
+      contactEmail?: string;
+      guestAccessTokenHash?: string;
+    },
+  ): Promise<Order> {
+    if (!cart || cart.items.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    // El stock se reserva antes de crear el pedido y se devuelve si algo falla
+    const reservedItems = await this.reserveStock(cart.items);
+
+    try {
+      return await this.createPlacedOrder(cart, shippingAddress, createOrderDto, owner);
+    } catch (error) {
+      for (const item of reservedItems) {
+        await this.restoreStock(item);
+      }
+      throw error;
+    }
+  }
+
+  private async createPlacedOrder(
+    cart: Cart,
+    shippingAddress: ShippingAddressDto,
+    createOrderDto: CreateOrderDto,
+    owner: {
+      userId?: string;
+      contactEmail?: string;
+      guestAccessTokenHash?: string;
+    },
+  ): Promise<Order> {
+    const orderNumber = await this.generateOrderNumber();
+
+    const subtotal = cart.totalAmount;
+    const tax = subtotal * 0.1; // 10% tax
+    const shippingCost = subtotal > 100 ? 0 : 10; // Free shipping over $100
+    const totalAmount = subtotal + tax + shippingCost;
+
+    const orderItems = cart.items.map((item: any) => ({
+      productId: item.productId._id,
+      productName: item.productId.name,
+      variantId: item.variantId,
+      sku: item.sku,
+      quantity: item.quantity,
+      size: item.size,
+      color: item.color,
+      unitPrice: item.price,
+      totalPrice: item.price * item.quantity,
+    }));
+
+    // Create order
+    const order = new this.orderModel({
+      orderNumber,
+      ...owner,
+      items: orderItems,
+      subtotal,
+      tax,
+      shippingCost,
+      totalAmount,
+      shippingAddress,
+      notes: createOrderDto.notes,
+    });
+
+    await order.save();
+
+    return order;
+  }
+
+  /**
+   * Descuenta el stock de cada línea del carrito, de la variante si la tiene.
+   * Cada descuento solo se aplica si hay unidades suficientes, así que dos
+   * pedidos simultáneos no pueden vender la misma unidad.
+   */
+  private async reserveStock(items: any[]): Promise<any[]> {
+    const reservedItems = [];
+
+    for (const item of items) {
+      const product = item.productId;
+      // Las líneas de productos con variantes deben indicar cuál se compra
+      const missingVariant = product?.variants?.length > 0 && !item.variantId;
+
+      const reserved =
+        !missingVariant &&
+        (await this.productModel.findOneAndUpdate(
+          item.variantId
+            ? {
+                _id: product?._id,
+                variants: {
+                  $elemMatch: {
+                    _id: item.variantId,
+                    isActive: true,
+                    stock: { $gte: item.quantity },
+                  },
+                },
+              }
+            : { _id: product?._id, stock: { $gte: item.quantity } },
+          item.variantId
+            ? { $inc: { 'variants.$.stock': -item.quantity, stock: -item.quantity } }
+            : { $inc: { stock: -item.quantity } },
+        ));
+
+      if (!reserved) {
+        for (const reservedItem of reservedItems) {
+          await this.restoreStock(reservedItem);
+        }
+        throw new BadRequestException(
+          missingVariant
+            ? `A variant must be selected for product: ${product.name}`
+            : `Insufficient stock for product: ${product?.name || 'Unknown'}`,
+        );
+      }
+
+      reservedItems.push({
+        productId: product._id,
+        variantId: item.variantId,
+        quantity: item.quantity,
+      });
+    }
+
+    return reservedItems;
+  }
+
+  private async restoreStock(item: {
+    productId: Types.ObjectId;
+    variantId?: Types.ObjectId;
+    quantity: number;
+  }): Promise<Product | null> {
+    if (!item.variantId) {
+      return this.productModel.findByIdAndUpdate(
+        item.productId,
+        { $inc: { stock: item.quantity } },
+        { new: true },
+      );
+    }
+
+    return this.productModel.findByIdAndUpdate(
+      item.productId,
+      { $inc: { 'variants.$[variant].stock': item.quantity, stock: item.quantity } },
+      { new: true, arrayFilters: [{ 'variant._id': item.variantId }] },
+    );
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
   private async generateOrderNumber(): Promise<string> {
     const date = new Date();
     const year = date.getFullYear().toString().slice(-2);
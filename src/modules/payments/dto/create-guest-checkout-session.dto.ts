@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CreateCheckoutSessionDto } from './create-checkout-session.dto';
+
+export class CreateGuestCheckoutSessionDto extends CreateCheckoutSessionDto {
+  @ApiProperty({
+    description: 'Token del enlace de consulta recibido al crear el pedido',
+  })
+  @IsString()
+  @IsNotEmpty()
+  accessToken: string;
+}
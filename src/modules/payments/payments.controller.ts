@@ -28,10 +28,15 @@ import { PaymentsService } from './payments.service';
 import { ProcessPaymentDto, PaymentMethod } from './dto/process-payment.dto';
 import { RefundPaymentDto } from './dto/refund-payment.dto';
 import { CreateCheckoutSessionDto } from './dto/create-checkout-session.dto';
+import { CreateGuestCheckoutSessionDto } from './dto/create-guest-checkout-session.dto';
 import { CreatePayPalOrderDto } from './dto/create-paypal-order.dto';
+import { Permission } from '@core/domain/permissions';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
+import { DisallowImpersonation } from '@shared/decorators/disallow-impersonation.decorator';
 
 @ApiTags('payments')
 @Controller('payments')
+@DisallowImpersonation()
 export class PaymentsController {
   private readonly logger = new Logger(PaymentsController.name);
 
@@ -68,6 +73,7 @@ export class PaymentsController {
 
   @Post(':paymentId/refund')
   @UseGuards(AuthGuard('jwt'))
+  @RequirePermissions(Permission.PAYMENTS_REFUND)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Reembolsar pago',
@@ -91,6 +97,10 @@ export class PaymentsController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Token JWT inválido o expirado',
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
   refundPayment(
     @Param('paymentId') paymentId: string,
     @Body() refundPaymentDto: RefundPaymentDto
@@ -200,6 +210,28 @@ export class PaymentsController {
     }
   }
 
+  @Post('stripe/guest-checkout-session')
+  @ApiOperation({
+    summary: 'Crear sesión de checkout de Stripe para invitados',
+    description:
+      'Crea una sesión de checkout de Stripe para un pedido de invitado usando el token de su enlace de consulta',
+  })
+  @ApiBody({ type: CreateGuestCheckoutSessionDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Sesión de checkout creada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Pedido no encontrado o token inválido',
+  })
+  createGuestCheckoutSession(@Body() body: CreateGuestCheckoutSessionDto) {
+    return this.paymentsService.createGuestStripeCheckoutSession(
+      body.orderId,
+      body.accessToken
+    );
+  }
+
   // PayPal specific endpoints
   @Post('paypal/create-order')
   @UseGuards(AuthGuard('jwt'))
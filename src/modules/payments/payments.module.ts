@@ -8,6 +8,7 @@ import { User, UserSchema } from '@core/domain/entities/user.entity';
 import { OrdersModule } from '../orders/orders.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { PatternsModule } from '@shared/patterns/patterns.module';
+import { UtilsModule } from '@shared/utils/utils.module';
 
 // PayPal Services
 import { PayPalService } from './providers/paypal/paypal.service';
@@ -27,6 +28,7 @@ import { StripeWebhookHandler } from './providers/stripe/stripe-webhook.handler'
     OrdersModule,
     NotificationsModule,
     PatternsModule,
+    UtilsModule,
   ],
   controllers: [PaymentsController],
   providers: [
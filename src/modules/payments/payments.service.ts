@@ -19,11 +19,16 @@ import { User } from '@core/domain/entities/user.entity';
 import { ProcessPaymentDto } from './dto/process-payment.dto';
 import { RefundPaymentDto } from './dto/refund-payment.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { OrdersService } from '../orders/orders.service';
 import { EventHandlerService } from '@shared/patterns/event-handler.service';
 import { PayPalService } from './providers/paypal/paypal.service';
 import { StripeService } from './providers/stripe/stripe.service';
 import { PayPalWebhookHandler } from './providers/paypal/paypal-webhook.handler';
 import { StripeWebhookHandler } from './providers/stripe/stripe-webhook.handler';
+import {
+  EmailVerificationPolicy,
+  VerificationScope,
+} from '@shared/utils/email-verification.policy';
 import * as crypto from 'crypto';
 
 @Injectable()
@@ -39,7 +44,9 @@ export class PaymentsService {
     private paypalService: PayPalService,
     private stripeService: StripeService,
     private paypalWebhookHandler: PayPalWebhookHandler,
-    private stripeWebhookHandler: StripeWebhookHandler
+    private stripeWebhookHandler: StripeWebhookHandler,
+    private emailVerificationPolicy: EmailVerificationPolicy,
+    private ordersService: OrdersService
   ) {}
 
   /**
@@ -51,6 +58,8 @@ export class PaymentsService {
   ): Promise<Payment> {
     const { orderId, method, paymentDetails } = processPaymentDto;
 
+    await this.assertEmailVerified(userId);
+
     // Validar que la orden existe y pertenece al usuario
     const order = await this.orderModel.findOne({ _id: orderId, userId });
     if (!order) {
@@ -447,6 +456,8 @@ export class PaymentsService {
     orderId: string,
     userId: string
   ): Promise<any> {
+    await this.assertEmailVerified(userId);
+
     // Validar que la orden existe y pertenece al usuario
     const order = await this.orderModel.findOne({ _id: orderId, userId });
     if (!order) {
@@ -459,17 +470,46 @@ export class PaymentsService {
 
     const user = await this.userModel.findById(userId);
 
+    return this.startStripeCheckout(order, user?.email, { user_id: userId });
+  }
+
+  /**
+   * Crea una sesión de checkout de Stripe para un pedido de invitado,
+   * autorizado con el token de su enlace de consulta
+   */
+  async createGuestStripeCheckoutSession(
+    orderId: string,
+    accessToken: string
+  ): Promise<any> {
+    const order = await this.ordersService.findGuestOrder(orderId, accessToken);
+
+    if (order.paymentStatus === OrderPaymentStatus.PAID) {
+      throw new BadRequestException('La orden ya está pagada');
+    }
+
+    return this.startStripeCheckout(order, order.contactEmail, {
+      guest: 'true',
+    });
+  }
+
+  private async startStripeCheckout(
+    order: Order,
+    customerEmail: string | undefined,
+    metadata: Record<string, string>
+  ): Promise<any> {
+    const orderId = order._id.toString();
+
     try {
       const sessionData = {
         amount: order.totalAmount,
         currency: 'USD',
         orderId: order.orderNumber || orderId,
-        customerEmail: user?.email,
+        customerEmail,
         successUrl: `${process.env.FRONTEND_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}&order_id=${orderId}`,
         cancelUrl: `${process.env.FRONTEND_URL}/checkout/cancel?order_id=${orderId}`,
         metadata: {
           order_id: orderId,
-          user_id: userId,
+          ...metadata,
         },
       };
 
@@ -498,6 +538,8 @@ export class PaymentsService {
    * Crea una orden de PayPal
    */
   async createPayPalOrder(orderId: string, userId: string): Promise<any> {
+    await this.assertEmailVerified(userId);
+
     // Validar que la orden existe y pertenece al usuario
     const order = await this.orderModel.findOne({ _id: orderId, userId });
     if (!order) {
@@ -538,6 +580,17 @@ export class PaymentsService {
     }
   }
 
+  /**
+   * Aplica la política de verificación de email antes de cobrar
+   */
+  private async assertEmailVerified(userId: string): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    this.emailVerificationPolicy.assertVerified(
+      user,
+      VerificationScope.PAYMENTS
+    );
+  }
+
   /**
    * Genera un ID único para el pago
    */
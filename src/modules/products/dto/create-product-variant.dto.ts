@@ -0,0 +1,124 @@
+import {
+  IsString,
+  IsNumber,
+  IsInt,
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsObject,
+  IsUrl,
+  Min,
+  IsNotEmpty,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ProductSize } from '@core/domain/entities/product.entity';
+
+export class VariantImageDto {
+  @ApiProperty({
+    description: 'URL de la imagen',
+    example: 'https://res.cloudinary.com/demo/image/upload/camiseta-azul-m.jpg',
+  })
+  @IsUrl()
+  url: string;
+
+  @ApiProperty({
+    description: 'ID público de la imagen en Cloudinary',
+    example: 'products/camiseta-azul-m',
+  })
+  @IsString()
+  @IsNotEmpty()
+  publicId: string;
+}
+
+export class CreateProductVariantDto {
+  @ApiProperty({
+    description: 'SKU de la variante, único en todo el catálogo',
+    example: 'CAM-BAS-AZU-M',
+  })
+  @IsString()
+  @IsNotEmpty()
+  sku: string;
+
+  @ApiPropertyOptional({
+    description: 'Código de barras (EAN/UPC)',
+    example: '8412345678905',
+  })
+  @IsOptional()
+  @IsString()
+  barcode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Talla de la variante',
+    enum: ProductSize,
+    example: ProductSize.M,
+  })
+  @IsOptional()
+  @IsEnum(ProductSize)
+  size?: ProductSize;
+
+  @ApiPropertyOptional({
+    description: 'Color de la variante',
+    example: 'Azul',
+  })
+  @IsOptional()
+  @IsString()
+  color?: string;
+
+  @ApiPropertyOptional({
+    description: 'Otras opciones de la variante',
+    example: { largo: 'regular' },
+  })
+  @IsOptional()
+  @IsObject()
+  options?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description: 'Precio propio de la variante; sin él se usa el del producto',
+    example: 32.99,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiPropertyOptional({
+    description: 'Precio con descuento de la variante',
+    example: 27.99,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discountPrice?: number;
+
+  @ApiProperty({
+    description: 'Cantidad en stock de la variante',
+    example: 25,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  stock: number;
+
+  @ApiPropertyOptional({
+    description: 'Imágenes propias de la variante',
+    type: [VariantImageDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => VariantImageDto)
+  images?: VariantImageDto[];
+
+  @ApiPropertyOptional({
+    description: 'Si la variante está a la venta',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,16 +1,15 @@
 import {
   IsString,
   IsNumber,
-  IsEnum,
   IsOptional,
   IsArray,
   IsBoolean,
+  IsObject,
   Min,
   IsNotEmpty,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ProductCategory } from '@core/domain/entities/product.entity';
 
 export class CreateProductDto {
   @ApiProperty({
@@ -63,12 +62,31 @@ export class CreateProductDto {
   discountPrice?: number;
 
   @ApiProperty({
-    description: 'Categoría del producto',
-    enum: ProductCategory,
-    example: ProductCategory.SHIRTS,
+    description: 'ID o slug de la categoría del producto',
+    example: 'shirts',
   })
-  @IsEnum(ProductCategory)
-  category: ProductCategory;
+  @IsString()
+  @IsNotEmpty()
+  category: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Valores de los atributos definidos por la categoría y sus categorías padre',
+    example: { fit: 'slim', sleeveLength: 'short' },
+  })
+  @IsOptional()
+  @IsObject()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  })
+  attributes?: Record<string, any>;
 
   @ApiPropertyOptional({
     description: 'Marca del producto',
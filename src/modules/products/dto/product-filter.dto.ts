@@ -2,13 +2,12 @@ import {
   IsOptional,
   IsString,
   IsNumber,
-  IsEnum,
+  IsBoolean,
   Min,
   Max,
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { ProductCategory } from '@core/domain/entities/product.entity';
 
 export class ProductFilterDto {
   @ApiPropertyOptional({
@@ -36,13 +35,12 @@ export class ProductFilterDto {
   limit?: number = 10;
 
   @ApiPropertyOptional({
-    description: 'Categoría del producto',
-    enum: ProductCategory,
-    example: ProductCategory.SHIRTS,
+    description: 'ID o slug de la categoría, incluidas sus subcategorías',
+    example: 'shirts',
   })
   @IsOptional()
-  @IsEnum(ProductCategory)
-  category?: ProductCategory;
+  @IsString()
+  category?: string;
 
   @ApiPropertyOptional({
     description: 'Precio mínimo',
@@ -67,7 +65,8 @@ export class ProductFilterDto {
   maxPrice?: number;
 
   @ApiPropertyOptional({
-    description: 'Buscar por nombre o descripción',
+    description:
+      'Texto a buscar en nombre, etiquetas, marca y descripción, sin distinguir tildes y tolerando erratas',
     example: 'camiseta',
   })
   @IsOptional()
@@ -75,13 +74,14 @@ export class ProductFilterDto {
   search?: string;
 
   @ApiPropertyOptional({
-    description: 'Ordenar por campo',
+    description:
+      'Ordenar por campo. Por defecto, relevancia en las búsquedas y fecha de creación en el resto',
     example: 'createdAt',
-    enum: ['name', 'price', 'createdAt', 'rating'],
+    enum: ['relevance', 'name', 'price', 'createdAt', 'rating'],
   })
   @IsOptional()
   @IsString()
-  sortBy?: string = 'createdAt';
+  sortBy?: string;
 
   @ApiPropertyOptional({
     description: 'Orden de clasificación',
@@ -124,4 +124,20 @@ export class ProductFilterDto {
   @IsOptional()
   @IsString()
   brand?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Incluir los recuentos por categoría, género, talla, color, marca y tramo de precio',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value === 'true';
+    }
+    return value;
+  })
+  facets?: boolean;
 }
@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage, Types } from 'mongoose';
+import { Product } from '@core/domain/entities/product.entity';
+import { tokenizeSearchText } from '@shared/utils/search-text';
+import { CategoriesService } from '../categories/categories.service';
+
+// Filtros del listado que tienen faceta, indexados por campo del producto
+export type ProductFacetFilters = Partial<
+  Record<
+    'category' | 'gender' | 'availableSizes' | 'colors' | 'brand' | 'price',
+    any
+  >
+>;
+
+export interface FacetCount {
+  value: string;
+  // Nombre visible cuando el valor no lo es (slug de la categoría)
+  label?: string;
+  count: number;
+}
+
+export interface PriceRangeCount {
+  min: number;
+  // Sin máximo en el último tramo
+  max?: number;
+  count: number;
+}
+
+export interface ProductFacets {
+  categories: FacetCount[];
+  genders: FacetCount[];
+  sizes: FacetCount[];
+  colors: FacetCount[];
+  brands: FacetCount[];
+  priceRanges: PriceRangeCount[];
+}
+
+const PRICE_BOUNDARIES = [0, 25, 50, 100, 200];
+
+/**
+ * Recuentos para la barra de filtros del catálogo. Cada faceta aplica todos
+ * los filtros salvo el suyo, de modo que al elegir una categoría se siguen
+ * viendo las demás con sus resultados.
+ */
+@Injectable()
+export class ProductFacetsService {
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<Product>,
+    private categoriesService: CategoriesService
+  ) {}
+
+  async getFacets(
+    baseFilter: Record<string, any>,
+    facetFilters: ProductFacetFilters,
+    search?: string
+  ): Promise<ProductFacets> {
+    const match = { ...baseFilter };
+    if (search) {
+      match.$text = { $search: tokenizeSearchText(search).join(' ') };
+    }
+
+    const [result] = await this.productModel.aggregate([
+      { $match: match },
+      {
+        $facet: {
+          categories: this.countBy(facetFilters, 'category'),
+          genders: this.countBy(facetFilters, 'gender'),
+          sizes: this.countBy(facetFilters, 'availableSizes', true),
+          colors: this.countBy(facetFilters, 'colors', true),
+          brands: this.countBy(facetFilters, 'brand'),
+          priceRanges: [
+            { $match: this.exclude(facetFilters, 'price') },
+            {
+              $bucket: {
+                groupBy: '$price',
+                boundaries: PRICE_BOUNDARIES,
+                default: PRICE_BOUNDARIES[PRICE_BOUNDARIES.length - 1],
+                output: { count: { $sum: 1 } },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      categories: await this.toCategoryCounts(result.categories),
+      genders: result.genders,
+      sizes: result.sizes,
+      colors: result.colors,
+      brands: result.brands,
+      priceRanges: result.priceRanges.map(({ _id, count }) => {
+        const index = PRICE_BOUNDARIES.indexOf(_id);
+        return { min: _id, max: PRICE_BOUNDARIES[index + 1], count };
+      }),
+    };
+  }
+
+  /**
+   * Los productos guardan el ID de la categoría; la faceta devuelve el slug,
+   * que es lo que acepta el filtro, y el nombre
+   */
+  private async toCategoryCounts(
+    counts: Array<{ value: Types.ObjectId; count: number }>
+  ): Promise<FacetCount[]> {
+    const categories = await this.categoriesService.findByIds(
+      counts.map(({ value }) => value)
+    );
+    const byId = new Map(
+      categories.map((category) => [category._id.toString(), category])
+    );
+
+    return counts
+      .filter(({ value }) => byId.has(value.toString()))
+      .map(({ value, count }) => {
+        const category = byId.get(value.toString());
+        return { value: category.slug, label: category.name, count };
+      });
+  }
+
+  private countBy(
+    facetFilters: ProductFacetFilters,
+    field: keyof ProductFacetFilters,
+    isArray = false
+  ): PipelineStage.FacetPipelineStage[] {
+    return [
+      { $match: this.exclude(facetFilters, field) },
+      ...(isArray ? [{ $unwind: `$${field}` }] : []),
+      { $match: { [field]: { $nin: [null, ''] } } },
+      { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, value: '$_id', count: 1 } },
+    ];
+  }
+
+  private exclude(
+    facetFilters: ProductFacetFilters,
+    field: keyof ProductFacetFilters
+  ): Record<string, any> {
+    const { [field]: _excluded, ...rest } = facetFilters;
+    return rest;
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Product } from '@core/domain/entities/product.entity';
+import {
+  tokenizeSearchText,
+  findClosestTerm,
+  highlightSearchTerms,
+} from '@shared/utils/search-text';
+
+export interface ProductSearchOptions {
+  page: number;
+  limit: number;
+  // Sin orden explícito los resultados se ordenan por relevancia
+  sort?: Record<string, 1 | -1>;
+}
+
+/**
+ * Búsqueda de productos sobre el índice de texto de la colección. Si la
+ * búsqueda no encuentra nada se corrigen las erratas con el vocabulario del
+ * catálogo y se repite.
+ */
+@Injectable()
+export class ProductSearchService {
+  private readonly vocabularyTtlMs = 10 * 60 * 1000;
+  private readonly snippetLength = 160;
+  private vocabulary: Set<string> | null = null;
+  private vocabularyLoadedAt = 0;
+
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<Product>
+  ) {}
+
+  async search(
+    filter: Record<string, any>,
+    query: string,
+    options: ProductSearchOptions
+  ) {
+    const terms = tokenizeSearchText(query);
+
+    let result = await this.runSearch(filter, terms, options);
+    let didYouMean: string | undefined;
+
+    if (result.total === 0 && terms.length > 0) {
+      const correctedTerms = await this.correctTerms(terms);
+      if (correctedTerms.join(' ') !== terms.join(' ')) {
+        result = await this.runSearch(filter, correctedTerms, options);
+        if (result.total > 0) {
+          didYouMean = correctedTerms.join(' ');
+        }
+      }
+    }
+
+    const highlightTerms = didYouMean ? didYouMean.split(' ') : terms;
+
+    return {
+      products: result.products.map((product) => ({
+        ...product.toObject(),
+        highlights: {
+          name: highlightSearchTerms(product.name, highlightTerms),
+          description: highlightSearchTerms(
+            product.description,
+            highlightTerms,
+            this.snippetLength
+          ),
+        },
+      })),
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total: result.total,
+        pages: Math.ceil(result.total / options.limit),
+      },
+      didYouMean,
+    };
+  }
+
+  private async runSearch(
+    filter: Record<string, any>,
+    terms: string[],
+    options: ProductSearchOptions
+  ) {
+    if (terms.length === 0) {
+      return { products: [], total: 0 };
+    }
+
+    const searchFilter = { ...filter, $text: { $search: terms.join(' ') } };
+    const [products, total] = await Promise.all([
+      this.productModel
+        .find(searchFilter, { score: { $meta: 'textScore' } })
+        .sort(options.sort || { score: { $meta: 'textScore' } })
+        .skip((options.page - 1) * options.limit)
+        .limit(options.limit)
+        .exec(),
+      this.productModel.countDocuments(searchFilter),
+    ]);
+
+    return { products, total };
+  }
+
+  private async correctTerms(terms: string[]): Promise<string[]> {
+    const vocabulary = await this.getVocabulary();
+
+    return terms.map((term) => {
+      if (term.length < 4 || vocabulary.has(term)) return term;
+      return findClosestTerm(term, vocabulary) || term;
+    });
+  }
+
+  /**
+   * Palabras del nombre, las etiquetas y la marca de los productos a la
+   * venta. Se recalcula cada pocos minutos.
+   */
+  private async getVocabulary(): Promise<Set<string>> {
+    if (
+      this.vocabulary &&
+      Date.now() - this.vocabularyLoadedAt < this.vocabularyTtlMs
+    ) {
+      return this.vocabulary;
+    }
+
+    const products = await this.productModel
+      .find({ isActive: true, isDeleted: false })
+      .select('name tags brand')
+      .lean();
+
+    const vocabulary = new Set<string>();
+    for (const product of products) {
+      const text = [product.name, product.brand, ...(product.tags || [])].join(
+        ' '
+      );
+      for (const word of tokenizeSearchText(text)) {
+        vocabulary.add(word);
+      }
+    }
+
+    this.vocabulary = vocabulary;
+    this.vocabularyLoadedAt = Date.now();
+    return vocabulary;
+  }
+}
@@ -25,12 +25,16 @@ import {
   ApiParam,
   ApiQuery,
   ApiConsumes,
+  ApiSecurity,
 } from '@nestjs/swagger';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { ProductFilterDto } from './dto/product-filter.dto';
-import { ProductCategory } from '@core/domain/entities/product.entity';
+import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto';
+import { Permission } from '@core/domain/permissions';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
 import { CloudinaryService } from '@shared/services/cloudinary.service';
 import { Express } from 'express';
 
@@ -42,9 +46,11 @@ export class ProductsController {
     private readonly cloudinaryService: CloudinaryService
   ) {}
 
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
   @Post()
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
   @ApiOperation({
     summary: 'Crear nuevo producto',
     description: 'Crea un nuevo producto en el catálogo',
@@ -62,16 +68,22 @@ export class ProductsController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Token JWT inválido o expirado',
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
   create(@Body() createProductDto: CreateProductDto) {
     return this.productsService.create(createProductDto);
   }
 
   // Crear producto con imágenes usando Cloudinary
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
   @Post('with-images')
   @UseInterceptors(FilesInterceptor('images', 5))
   @ApiConsumes('multipart/form-data')
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
   async createWithImages(
     @Body() createProductDto: CreateProductDto,
     @UploadedFiles() files?: Express.Multer.File[]
@@ -157,8 +169,9 @@ export class ProductsController {
   @ApiQuery({
     name: 'category',
     required: false,
-    enum: ProductCategory,
-    description: 'Filtrar por categoría',
+    type: String,
+    description:
+      'Filtrar por categoría (ID o slug), incluidas sus subcategorías',
   })
   @ApiQuery({
     name: 'minPrice',
@@ -176,7 +189,15 @@ export class ProductsController {
     name: 'search',
     required: false,
     type: String,
-    description: 'Buscar por nombre o descripción',
+    description:
+      'Búsqueda de texto ordenada por relevancia, con coincidencias resaltadas',
+  })
+  @ApiQuery({
+    name: 'facets',
+    required: false,
+    type: Boolean,
+    description:
+      'Incluir recuentos por categoría, género, talla, color, marca y tramo de precio',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -208,22 +229,22 @@ export class ProductsController {
   @Get('category/:category')
   @ApiOperation({
     summary: 'Obtener productos por categoría',
-    description: 'Obtiene todos los productos de una categoría específica',
+    description:
+      'Obtiene todos los productos de una categoría y de sus subcategorías',
   })
   @ApiParam({
     name: 'category',
-    enum: ProductCategory,
-    description: 'Categoría del producto',
+    description: 'ID o slug de la categoría',
   })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Productos de la categoría obtenidos exitosamente',
   })
   @ApiResponse({
-    status: HttpStatus.BAD_REQUEST,
-    description: 'Categoría inválida',
+    status: HttpStatus.NOT_FOUND,
+    description: 'Categoría no encontrada',
   })
-  findByCategory(@Param('category') category: ProductCategory) {
+  findByCategory(@Param('category') category: string) {
     return this.productsService.findByCategory(category);
   }
 
@@ -245,24 +266,105 @@ export class ProductsController {
     return this.productsService.findOne(id);
   }
 
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
   @Patch(':id')
   update(@Param('id') id: string, @Body() updateProductDto: UpdateProductDto) {
     return this.productsService.update(id, updateProductDto);
   }
 
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
   @Delete(':id')
   remove(@Param('id') id: string) {
     return this.productsService.remove(id);
   }
 
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
+  @Post(':id/variants')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Añadir variante',
+    description:
+      'Añade una combinación de talla, color y otras opciones con su propio SKU, precio y stock',
+  })
+  @ApiParam({ name: 'id', description: 'ID del producto' })
+  @ApiBody({ type: CreateProductVariantDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Variante añadida exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El SKU o la combinación ya existen',
+  })
+  addVariant(
+    @Param('id') id: string,
+    @Body() createVariantDto: CreateProductVariantDto
+  ) {
+    return this.productsService.addVariant(id, createVariantDto);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
+  @Patch(':id/variants/:variantId')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Actualizar variante',
+    description: 'Actualiza los datos, el precio o el stock de una variante',
+  })
+  @ApiParam({ name: 'id', description: 'ID del producto' })
+  @ApiParam({ name: 'variantId', description: 'ID de la variante' })
+  @ApiBody({ type: UpdateProductVariantDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Variante actualizada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Producto o variante no encontrados',
+  })
+  updateVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @Body() updateVariantDto: UpdateProductVariantDto
+  ) {
+    return this.productsService.updateVariant(id, variantId, updateVariantDto);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
+  @Delete(':id/variants/:variantId')
+  @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Eliminar variante',
+    description: 'Elimina una variante del producto',
+  })
+  @ApiParam({ name: 'id', description: 'ID del producto' })
+  @ApiParam({ name: 'variantId', description: 'ID de la variante' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Variante eliminada exitosamente',
+  })
+  removeVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string
+  ) {
+    return this.productsService.removeVariant(id, variantId);
+  }
+
   // Subir una sola imagen para un producto usando Cloudinary
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
   @Post(':id/upload-image')
   @UseInterceptors(FileInterceptor('image'))
   @ApiConsumes('multipart/form-data')
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
   async uploadProductImage(
     @Param('id') id: string,
     @UploadedFile() file: Express.Multer.File
@@ -301,11 +403,13 @@ export class ProductsController {
   }
 
   // Subir múltiples imágenes para un producto usando Cloudinary
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
   @Post(':id/upload-images')
   @UseInterceptors(FilesInterceptor('images', 5))
   @ApiConsumes('multipart/form-data')
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
   async uploadProductImages(
     @Param('id') id: string,
     @UploadedFiles() files: Express.Multer.File[]
@@ -347,9 +451,11 @@ export class ProductsController {
   }
 
   // Eliminar una imagen específica de un producto de Cloudinary
-  @UseGuards(AuthGuard('jwt'))
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.PRODUCTS_WRITE)
   @Delete(':id/images')
   @ApiBearerAuth('JWT-auth')
+  @ApiSecurity('api-key')
   async removeProductImage(
     @Param('id') id: string,
     @Body('publicId') publicId: string
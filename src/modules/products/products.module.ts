@@ -2,16 +2,20 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
+import { ProductSearchService } from './product-search.service';
+import { ProductFacetsService } from './product-facets.service';
 import { Product, ProductSchema } from '@core/domain/entities/product.entity';
 import { SharedModule } from '@shared/shared.module';
+import { CategoriesModule } from '../categories/categories.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Product.name, schema: ProductSchema }]),
     SharedModule,
+    CategoriesModule,
   ],
   controllers: [ProductsController],
-  providers: [ProductsService],
+  providers: [ProductsService, ProductSearchService, ProductFacetsService],
   exports: [ProductsService],
 })
 export class ProductsModule {}
@@ -1,24 +1,59 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import {
   Product,
-  ProductCategory,
   ProductGender,
   ProductImage,
+  ProductVariant,
 } from '@core/domain/entities/product.entity';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { ProductFilterDto } from './dto/product-filter.dto';
+import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto';
+import { EventHandlerService } from '@shared/patterns/event-handler.service';
+import { getEffectivePrice } from '@shared/utils/product-price';
+import { ProductSearchService } from './product-search.service';
+import {
+  ProductFacetsService,
+  ProductFacetFilters,
+} from './product-facets.service';
+import { CategoriesService } from '../categories/categories.service';
+
+type VariantCombination = Partial<
+  Pick<ProductVariant, 'size' | 'color' | 'options'>
+>;
 
 @Injectable()
 export class ProductsService {
   constructor(
-    @InjectModel(Product.name) private productModel: Model<Product>
+    @InjectModel(Product.name) private productModel: Model<Product>,
+    private eventHandlerService: EventHandlerService,
+    private productSearchService: ProductSearchService,
+    private productFacetsService: ProductFacetsService,
+    private categoriesService: CategoriesService
   ) {}
 
   async create(createProductDto: CreateProductDto): Promise<Product> {
-    const product = new this.productModel(createProductDto);
+    const category = await this.categoriesService.resolve(
+      createProductDto.category
+    );
+    const attributes = await this.categoriesService.validateProductAttributes(
+      category,
+      createProductDto.attributes
+    );
+
+    const product = new this.productModel({
+      ...createProductDto,
+      category: category._id,
+      attributes,
+    });
     return product.save();
   }
 
@@ -34,39 +69,62 @@ export class ProductsService {
       search,
       page = 1,
       limit = 20,
-      sortBy = 'createdAt',
+      sortBy,
       sortOrder = 'desc',
+      facets,
     } = filterDto;
 
-    const filter: any = { isActive: true, isDeleted: false };
+    const baseFilter = { isActive: true, isDeleted: false };
+    const facetFilters: ProductFacetFilters = {};
 
     // Apply filters
-    if (category) filter.category = category;
-    if (gender) filter.gender = gender;
-    if (brand) filter.brand = new RegExp(brand, 'i');
-    if (size) filter.availableSizes = { $in: [size] };
-    if (color) filter.colors = { $in: [color] };
+    if (category) {
+      facetFilters.category = {
+        $in: await this.categoriesService.getSubtreeIds(category),
+      };
+    }
+    if (gender) facetFilters.gender = gender;
+    if (brand) facetFilters.brand = new RegExp(brand, 'i');
+    if (size) facetFilters.availableSizes = { $in: [size] };
+    if (color) facetFilters.colors = { $in: [color] };
 
     if (minPrice || maxPrice) {
-      filter.price = {};
-      if (minPrice) filter.price.$gte = minPrice;
-      if (maxPrice) filter.price.$lte = maxPrice;
+      facetFilters.price = {};
+      if (minPrice) facetFilters.price.$gte = minPrice;
+      if (maxPrice) facetFilters.price.$lte = maxPrice;
     }
 
+    const filter: any = { ...baseFilter, ...facetFilters };
+
+    const sortField = sortBy === 'relevance' ? undefined : sortBy;
+    const sortDirection = sortOrder === 'desc' ? -1 : 1;
+
+    // Las búsquedas se ordenan por relevancia salvo que se pida otro orden
     if (search) {
-      filter.$or = [
-        { name: new RegExp(search, 'i') },
-        { description: new RegExp(search, 'i') },
-        { tags: { $in: [new RegExp(search, 'i')] } },
-      ];
+      const result = await this.productSearchService.search(filter, search, {
+        page,
+        limit,
+        sort: sortField ? { [sortField]: sortDirection } : undefined,
+      });
+      if (!facets) return result;
+
+      // Si se corrigió la búsqueda, las facetas usan el texto corregido
+      return {
+        ...result,
+        facets: await this.productFacetsService.getFacets(
+          baseFilter,
+          facetFilters,
+          result.didYouMean || search
+        ),
+      };
     }
 
     const skip = (page - 1) * limit;
     const sortObj: Record<string, 1 | -1> = {
-      [sortBy]: sortOrder === 'desc' ? -1 : 1,
+      [sortField || 'createdAt']: sortDirection,
     };
 
-    const [products, total] = await Promise.all([
+    const [products, total, productFacets] = await Promise.all([
       this.productModel
         .find(filter)
         .sort(sortObj)
@@ -74,6 +132,9 @@ export class ProductsService {
         .limit(limit)
         .exec(),
       this.productModel.countDocuments(filter),
+      facets
+        ? this.productFacetsService.getFacets(baseFilter, facetFilters)
+        : undefined,
     ]);
 
     return {
@@ -84,6 +145,7 @@ export class ProductsService {
         total,
         pages: Math.ceil(total / limit),
       },
+      facets: productFacets,
     };
   }
 
@@ -95,9 +157,13 @@ export class ProductsService {
     return product;
   }
 
-  async findByCategory(category: ProductCategory): Promise<Product[]> {
+  /**
+   * Productos de la categoría y de todas sus subcategorías visibles
+   */
+  async findByCategory(category: string): Promise<Product[]> {
+    const categoryIds = await this.categoriesService.getSubtreeIds(category);
     return this.productModel.find({
-      category,
+      category: { $in: categoryIds },
       isActive: true,
       isDeleted: false,
     });
@@ -114,16 +180,147 @@ export class ProductsService {
     id: string,
     updateProductDto: UpdateProductDto
   ): Promise<Product> {
-    const product = await this.productModel.findByIdAndUpdate(
-      id,
-      updateProductDto,
-      { new: true }
-    );
+    const previous = await this.productModel.findById(id);
+    if (!previous) {
+      throw new NotFoundException('Product not found');
+    }
+    if (updateProductDto.stock !== undefined && previous.variants?.length) {
+      throw new BadRequestException(
+        'Stock of a product with variants is managed per variant'
+      );
+    }
+
+    // Al cambiar de categoría los atributos se validan contra la nueva
+    const changes: Record<string, any> = { ...updateProductDto };
+    if (updateProductDto.category || updateProductDto.attributes) {
+      const category = await this.categoriesService.resolve(
+        updateProductDto.category || previous.category.toString()
+      );
+      changes.category = category._id;
+      changes.attributes =
+        await this.categoriesService.validateProductAttributes(
+          category,
+          updateProductDto.attributes ?? previous.attributes
+        );
+    }
+
+    const product = await this.productModel.findByIdAndUpdate(id, changes, {
+      new: true,
+    });
     if (!product) {
       throw new NotFoundException('Product not found');
     }
+
+    // Avisos para las listas de deseos: reposición y bajadas de precio
+    if (product.stock !== previous.stock) {
+      this.eventHandlerService.emitProductStockUpdated({
+        productId: id,
+        previousStock: previous.stock,
+        currentStock: product.stock,
+        productData: product,
+      });
+    }
+
+    const previousPrice = getEffectivePrice(previous);
+    const currentPrice = getEffectivePrice(product);
+    if (currentPrice !== previousPrice) {
+      this.eventHandlerService.emitProductPriceChanged({
+        productId: id,
+        previousPrice,
+        currentPrice,
+        productData: product,
+      });
+    }
+
     return product;
   }
+
+  /**
+   * Añade una variante. Desde ese momento el stock, las tallas y los colores
+   * del producto se calculan a partir de sus variantes activas.
+   */
+  async addVariant(
+    id: string,
+    createVariantDto: CreateProductVariantDto
+  ): Promise<Product> {
+    const product = await this.findEditable(id);
+    await this.assertSkuAvailable(createVariantDto.sku);
+    this.assertUniqueCombination(product, createVariantDto);
+
+    const updated = await this.productModel.findOneAndUpdate(
+      { _id: product._id, isDeleted: false },
+      {
+        $push: {
+          variants: {
+            ...createVariantDto,
+            options: createVariantDto.options || {},
+            images: createVariantDto.images || [],
+            isActive: createVariantDto.isActive ?? true,
+          },
+        },
+      }
+    );
+    if (!updated) {
+      throw new NotFoundException('Product not found');
+    }
+
+    return this.refreshVariantAggregates(updated);
+  }
+
+  async updateVariant(
+    id: string,
+    variantId: string,
+    updateVariantDto: UpdateProductVariantDto
+  ): Promise<Product> {
+    const product = await this.findEditable(id);
+    const variant = this.findVariant(product, variantId);
+
+    if (updateVariantDto.sku && updateVariantDto.sku !== variant.sku) {
+      await this.assertSkuAvailable(updateVariantDto.sku);
+    }
+    this.assertUniqueCombination(
+      product,
+      {
+        size: updateVariantDto.size ?? variant.size,
+        color: updateVariantDto.color ?? variant.color,
+        options: updateVariantDto.options ?? variant.options,
+      },
+      variant
+    );
+
+    // Solo los campos recibidos, sobre la variante en la base de datos
+    const changes = Object.fromEntries(
+      Object.entries(updateVariantDto)
+        .filter(([, value]) => value !== undefined)
+        .map(([field, value]) => [`variants.$[variant].${field}`, value])
+    );
+    const updated = await this.productModel.findOneAndUpdate(
+      { _id: product._id, isDeleted: false, 'variants._id': variant._id },
+      { $set: changes },
+      { arrayFilters: [{ 'variant._id': variant._id }] }
+    );
+    if (!updated) {
+      throw new NotFoundException('Variant not found');
+    }
+
+    return this.refreshVariantAggregates(updated);
+  }
+
+  async removeVariant(id: string, variantId: string): Promise<Product> {
+    const product = await this.findEditable(id);
+    const variant = this.findVariant(product, variantId);
+
+    const updated = await this.productModel.findOneAndUpdate(
+      { _id: product._id, isDeleted: false, 'variants._id': variant._id },
+      { $pull: { variants: { _id: variant._id } } }
+    );
+    if (!updated) {
+      throw new NotFoundException('Variant not found');
+    }
+
+    return this.refreshVariantAggregates(updated);
+  }
+
   async remove(id: string): Promise<void> {
     const result = await this.productModel.findByIdAndUpdate(
       id,
@@ -214,4 +411,126 @@ export class ProductsService {
     }
     return product;
   }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private async findEditable(id: string): Promise<Product> {
+    const product = await this.productModel.findById(id);
+    if (!product || product.isDeleted) {
+      throw new NotFoundException('Product not found');
+    }
+    return product;
+  }
+
+  private findVariant(product: Product, variantId: string): ProductVariant {
+    const variant = product.variants.find(
+      (productVariant) => productVariant._id?.toString() === variantId
+    );
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+    return variant;
+  }
+
+  private async assertSkuAvailable(sku: string): Promise<void> {
+    const exists = await this.productModel.exists({ 'variants.sku': sku });
+    if (exists) {
+      throw new ConflictException('A variant with this SKU already exists');
+    }
+  }
+
+  private assertUniqueCombination(
+    product: Product,
+    combination: VariantCombination,
+    current?: ProductVariant
+  ): void {
+    const key = this.getCombinationKey(combination);
+    const duplicated = product.variants.some(
+      (variant) =>
+        variant !== current && this.getCombinationKey(variant) === key
+    );
+    if (duplicated) {
+      throw new ConflictException(
+        'A variant with this combination already exists'
+      );
+    }
+  }
+
+  private getCombinationKey(combination: VariantCombination): string {
+    return JSON.stringify([
+      combination.size || null,
+      combination.color || null,
+      Object.entries(combination.options || {}).sort(),
+    ]);
+  }
+
+  /**
+   * Recalcula los datos agregados del producto a partir de sus variantes
+   * activas y avisa del cambio de stock (reposiciones incluidas). El cálculo
+   * se hace en la propia actualización para no pisar las reservas de stock
+   * que los pedidos hagan a la vez con $inc.
+   */
+  private async refreshVariantAggregates(previous: Product): Promise<Product> {
+    const activeVariants = {
+      $filter: {
+        input: '$variants',
+        as: 'variant',
+        cond: '$$variant.isActive',
+      },
+    };
+    // Valores no vacíos de un campo de las variantes activas, sin repetir y
+    // en el orden de las variantes
+    const distinctValues = (field: string) => ({
+      $reduce: {
+        input: {
+          $filter: {
+            input: activeVariants,
+            as: 'variant',
+            cond: { $gt: [`$$variant.${field}`, ''] },
+          },
+        },
+        initialValue: [],
+        in: {
+          $cond: [
+            { $in: [`$$this.${field}`, '$$value'] },
+            '$$value',
+            { $concatArrays: ['$$value', [`$$this.${field}`]] },
+          ],
+        },
+      },
+    });
+
+    const product = await this.productModel.findByIdAndUpdate(
+      previous._id,
+      [
+        {
+          $set: {
+            stock: {
+              $sum: {
+                $map: {
+                  input: activeVariants,
+                  as: 'variant',
+                  in: '$$variant.stock',
+                },
+              },
+            },
+            availableSizes: distinctValues('size'),
+            colors: distinctValues('color'),
+          },
+        },
+      ],
+      { new: true }
+    );
+
+    if (product.stock !== previous.stock) {
+      this.eventHandlerService.emitProductStockUpdated({
+        productId: product._id.toString(),
+        previousStock: previous.stock,
+        currentStock: product.stock,
+        productData: product,
+      });
+    }
+
+    return product;
+  }
 }
@@ -0,0 +1,63 @@
+import {
+  IsString,
+  IsInt,
+  IsOptional,
+  IsMongoId,
+  IsNotEmpty,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateReviewDto {
+  @ApiProperty({
+    description: 'ID del producto reseñado',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsMongoId()
+  productId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Pedido entregado con el que se compró; si no se indica se usa el más reciente',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsOptional()
+  @IsMongoId()
+  orderId?: string;
+
+  @ApiProperty({
+    description: 'Valoración de 1 a 5 estrellas',
+    example: 5,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating: number;
+
+  @ApiPropertyOptional({
+    description: 'Título de la reseña',
+    example: 'Muy cómoda',
+    maxLength: 120,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  title?: string;
+
+  @ApiProperty({
+    description: 'Texto de la reseña',
+    example: 'La tela es suave y la talla es la esperada.',
+    minLength: 10,
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(10)
+  @MaxLength(2000)
+  comment: string;
+}
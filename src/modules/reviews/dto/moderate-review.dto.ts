@@ -0,0 +1,23 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReviewStatus } from '../entities/review.entity';
+
+export class ModerateReviewDto {
+  @ApiProperty({
+    description: 'Decisión de moderación',
+    enum: [ReviewStatus.APPROVED, ReviewStatus.REJECTED],
+    example: ReviewStatus.APPROVED,
+  })
+  @IsIn([ReviewStatus.APPROVED, ReviewStatus.REJECTED])
+  status: ReviewStatus.APPROVED | ReviewStatus.REJECTED;
+
+  @ApiPropertyOptional({
+    description: 'Motivo del rechazo, obligatorio al rechazar',
+    example: 'La reseña incluye datos de contacto',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,96 @@
+import { IsOptional, IsInt, IsEnum, IsIn, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ReviewStatus } from '../entities/review.entity';
+
+export const REVIEW_SORTS = [
+  'recent',
+  'helpful',
+  'rating_desc',
+  'rating_asc',
+] as const;
+
+export type ReviewSort = (typeof REVIEW_SORTS)[number];
+
+export class ReviewQueryDto {
+  @ApiPropertyOptional({
+    description: 'Número de página',
+    example: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Elementos por página',
+    example: 10,
+    minimum: 1,
+    maximum: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+
+  @ApiPropertyOptional({
+    description: 'Orden de las reseñas',
+    enum: REVIEW_SORTS,
+    example: 'helpful',
+  })
+  @IsOptional()
+  @IsIn(REVIEW_SORTS)
+  sort?: ReviewSort = 'recent';
+
+  @ApiPropertyOptional({
+    description: 'Filtrar por número de estrellas',
+    example: 5,
+    minimum: 1,
+    maximum: 5,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  rating?: number;
+}
+
+export class ModerationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Número de página',
+    example: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Elementos por página',
+    example: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({
+    description: 'Estado de las reseñas a revisar',
+    enum: ReviewStatus,
+    example: ReviewStatus.PENDING,
+  })
+  @IsOptional()
+  @IsEnum(ReviewStatus)
+  status?: ReviewStatus = ReviewStatus.PENDING;
+}
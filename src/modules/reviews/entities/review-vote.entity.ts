@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+/**
+ * Voto de "útil" de un usuario a una reseña
+ */
+@Schema({ collection: 'review_votes' })
+export class ReviewVote extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'Review', required: true })
+  reviewId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+}
+
+export const ReviewVoteSchema = SchemaFactory.createForClass(ReviewVote);
+
+ReviewVoteSchema.index({ reviewId: 1, userId: 1 }, { unique: true });
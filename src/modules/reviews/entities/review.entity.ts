@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+import { ProductImage } from '@core/domain/entities/product.entity';
+
+export enum ReviewStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Reseña de un producto escrita por un cliente que lo recibió. Solo las
+ * aprobadas se publican y cuentan para la valoración del producto.
+ */
+@Schema({ collection: 'reviews' })
+export class Review extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true, index: true })
+  productId: Types.ObjectId;
+
+  // Pedido entregado que acredita la compra
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ required: true, min: 1, max: 5 })
+  rating: number;
+
+  @Prop()
+  title?: string;
+
+  @Prop({ required: true })
+  comment: string;
+
+  @Prop({ type: [ProductImage], default: [] })
+  photos: ProductImage[];
+
+  @Prop({
+    type: String,
+    enum: ReviewStatus,
+    default: ReviewStatus.PENDING,
+    index: true,
+  })
+  status: ReviewStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  moderatedBy?: Types.ObjectId;
+
+  @Prop()
+  moderatedAt?: Date;
+
+  @Prop()
+  rejectionReason?: string;
+
+  @Prop({ default: 0 })
+  helpfulCount: number;
+}
+
+export const ReviewSchema = SchemaFactory.createForClass(Review);
+
+// Una reseña por cliente y producto
+ReviewSchema.index({ userId: 1, productId: 1 }, { unique: true });
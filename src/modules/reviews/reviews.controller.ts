@@ -0,0 +1,317 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFiles,
+  BadRequestException,
+  HttpStatus,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+  ApiConsumes,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { ReviewsService } from './reviews.service';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { UpdateReviewDto } from './dto/update-review.dto';
+import { ModerateReviewDto } from './dto/moderate-review.dto';
+import { ReviewQueryDto, ModerationQueryDto } from './dto/review-query.dto';
+import { CurrentUser } from '@shared/decorators/current-user.decorator';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
+import { Permission } from '@core/domain/permissions';
+import { Express } from 'express';
+
+@ApiTags('reviews')
+@Controller('reviews')
+@ApiBearerAuth('JWT-auth')
+export class ReviewsController {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @Get('product/:productId')
+  @ApiOperation({
+    summary: 'Obtener reseñas de un producto',
+    description:
+      'Obtiene las reseñas publicadas de un producto junto con su valoración media y la distribución de estrellas',
+  })
+  @ApiParam({ name: 'productId', description: 'ID del producto' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reseñas obtenidas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Producto no encontrado',
+  })
+  findProductReviews(
+    @Param('productId') productId: string,
+    @Query() query: ReviewQueryDto
+  ) {
+    return this.reviewsService.findProductReviews(productId, query);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('me')
+  @ApiOperation({
+    summary: 'Obtener mis reseñas',
+    description:
+      'Obtiene las reseñas del usuario autenticado con su estado de moderación',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reseñas obtenidas exitosamente',
+  })
+  findMyReviews(@CurrentUser() user: any) {
+    return this.reviewsService.findMyReviews(user.id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get('me/pending')
+  @ApiOperation({
+    summary: 'Obtener productos pendientes de reseña',
+    description:
+      'Obtiene los productos de pedidos entregados que el usuario todavía no ha reseñado',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Productos obtenidos exitosamente',
+  })
+  findReviewable(@CurrentUser() user: any) {
+    return this.reviewsService.findReviewable(user.id);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.REVIEWS_MODERATE)
+  @Get('moderation')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Cola de moderación',
+    description:
+      'Obtiene las reseñas en el estado indicado, por defecto las pendientes, empezando por las más antiguas',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reseñas obtenidas exitosamente',
+  })
+  findModerationQueue(@Query() query: ModerationQueryDto) {
+    return this.reviewsService.findModerationQueue(query);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post()
+  @ApiOperation({
+    summary: 'Crear reseña',
+    description:
+      'Crea una reseña de un producto recibido en un pedido entregado. Queda pendiente de moderación',
+  })
+  @ApiBody({ type: CreateReviewDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Reseña creada y enviada a moderación',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'El usuario no ha recibido este producto',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El usuario ya ha reseñado este producto',
+  })
+  create(@CurrentUser() user: any, @Body() createReviewDto: CreateReviewDto) {
+    return this.reviewsService.create(user.id, createReviewDto);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Editar reseña',
+    description:
+      'Edita la puntuación o el texto de una reseña propia, que vuelve a moderación',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la reseña' })
+  @ApiBody({ type: UpdateReviewDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reseña actualizada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Reseña no encontrada',
+  })
+  update(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() updateReviewDto: UpdateReviewDto
+  ) {
+    return this.reviewsService.update(user.id, id, updateReviewDto);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Eliminar reseña',
+    description: 'Elimina una reseña propia y sus fotos',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la reseña' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reseña eliminada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Reseña no encontrada',
+  })
+  remove(@CurrentUser() user: any, @Param('id') id: string) {
+    return this.reviewsService.remove(user.id, id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/photos')
+  @UseInterceptors(FilesInterceptor('photos', 5))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Añadir fotos a una reseña',
+    description:
+      'Sube hasta 5 fotos a una reseña propia, que vuelve a moderación',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la reseña' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Fotos añadidas exitosamente',
+  })
+  addPhotos(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @UploadedFiles() files: Express.Multer.File[]
+  ) {
+    if (!files || files.length === 0) {
+      throw new BadRequestException('No image files provided');
+    }
+    this.validateFiles(files);
+
+    return this.reviewsService.addPhotos(user.id, id, files);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id/photos')
+  @ApiOperation({
+    summary: 'Eliminar foto de una reseña',
+    description: 'Elimina una foto de una reseña propia',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la reseña' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Foto eliminada exitosamente',
+  })
+  removePhoto(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body('publicId') publicId: string
+  ) {
+    if (!publicId) {
+      throw new BadRequestException('Public ID is required');
+    }
+
+    return this.reviewsService.removePhoto(user.id, id, publicId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/helpful')
+  @ApiOperation({
+    summary: 'Marcar reseña como útil',
+    description: 'Suma el voto de "útil" del usuario a una reseña publicada',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la reseña' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Voto registrado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El usuario ya votó esta reseña',
+  })
+  markHelpful(@CurrentUser() user: any, @Param('id') id: string) {
+    return this.reviewsService.markHelpful(user.id, id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id/helpful')
+  @ApiOperation({
+    summary: 'Retirar voto de útil',
+    description: 'Retira el voto de "útil" del usuario a una reseña',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la reseña' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Voto retirado exitosamente',
+  })
+  unmarkHelpful(@CurrentUser() user: any, @Param('id') id: string) {
+    return this.reviewsService.unmarkHelpful(user.id, id);
+  }
+
+  @UseGuards(AuthGuard(['jwt', 'api-key']))
+  @RequirePermissions(Permission.REVIEWS_MODERATE)
+  @Patch(':id/moderation')
+  @ApiSecurity('api-key')
+  @ApiOperation({
+    summary: 'Moderar reseña',
+    description:
+      'Aprueba o rechaza una reseña. Solo las aprobadas se publican y cuentan para la valoración del producto',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la reseña' })
+  @ApiBody({ type: ModerateReviewDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Reseña moderada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Falta el motivo del rechazo',
+  })
+  moderate(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() moderateReviewDto: ModerateReviewDto
+  ) {
+    return this.reviewsService.moderate(id, moderateReviewDto, user?.id);
+  }
+
+  private validateFiles(files: Express.Multer.File[]) {
+    const allowedMimeTypes = [
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp',
+      'image/gif',
+    ];
+
+    const maxSize = 5 * 1024 * 1024; // 5MB
+
+    files.forEach((file) => {
+      if (!allowedMimeTypes.includes(file.mimetype)) {
+        throw new BadRequestException(
+          `Tipo de archivo no permitido: ${file.mimetype}. Solo se permiten: ${allowedMimeTypes.join(', ')}`
+        );
+      }
+
+      if (file.size > maxSize) {
+        throw new BadRequestException(
+          `Archivo muy grande. Tamaño máximo permitido: 5MB`
+        );
+      }
+    });
+  }
+}
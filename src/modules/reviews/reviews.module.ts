@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ReviewsController } from './reviews.controller';
+import { ReviewsService } from './reviews.service';
+import { Review, ReviewSchema } from './entities/review.entity';
+import { ReviewVote, ReviewVoteSchema } from './entities/review-vote.entity';
+import { Product, ProductSchema } from '@core/domain/entities/product.entity';
+import { Order, OrderSchema } from '@core/domain/entities/order.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { SharedModule } from '@shared/shared.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Review.name, schema: ReviewSchema },
+      { name: ReviewVote.name, schema: ReviewVoteSchema },
+      { name: Product.name, schema: ProductSchema },
+      { name: Order.name, schema: OrderSchema },
+    ]),
+    NotificationsModule,
+    SharedModule,
+  ],
+  controllers: [ReviewsController],
+  providers: [ReviewsService],
+  exports: [ReviewsService],
+})
+export class ReviewsModule {}
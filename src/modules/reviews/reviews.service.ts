@@ -0,0 +1,591 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { FilterQuery, Model, Types, UpdateQuery } from 'mongoose';
+import { Review, ReviewStatus } from './entities/review.entity';
+import { ReviewVote } from './entities/review-vote.entity';
+import { Product } from '@core/domain/entities/product.entity';
+import { Order, OrderStatus } from '@core/domain/entities/order.entity';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { UpdateReviewDto } from './dto/update-review.dto';
+import { ModerateReviewDto } from './dto/moderate-review.dto';
+import {
+  ReviewQueryDto,
+  ModerationQueryDto,
+  ReviewSort,
+} from './dto/review-query.dto';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CloudinaryService } from '@shared/services/cloudinary.service';
+import { OrderDeliveredEvent } from '@shared/patterns/event-handler.service';
+
+const REVIEW_SORT_ORDERS: Record<ReviewSort, Record<string, 1 | -1>> = {
+  recent: { createdAt: -1 },
+  helpful: { helpfulCount: -1, createdAt: -1 },
+  rating_desc: { rating: -1, createdAt: -1 },
+  rating_asc: { rating: 1, createdAt: -1 },
+};
+
+// Al editar una reseña vuelve a la cola de moderación
+const BACK_TO_MODERATION: UpdateQuery<Review> = {
+  $unset: { moderatedBy: 1, moderatedAt: 1, rejectionReason: 1 },
+};
+
+type RatingState = Pick<Review, 'status' | 'rating'>;
+
+@Injectable()
+export class ReviewsService {
+  private readonly logger = new Logger(ReviewsService.name);
+  private readonly maxPhotosPerReview = 5;
+
+  constructor(
+    @InjectModel(Review.name) private reviewModel: Model<Review>,
+    @InjectModel(ReviewVote.name) private reviewVoteModel: Model<ReviewVote>,
+    @InjectModel(Product.name) private productModel: Model<Product>,
+    @InjectModel(Order.name) private orderModel: Model<Order>,
+    private notificationsService: NotificationsService,
+    private cloudinaryService: CloudinaryService,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Reseñas publicadas de un producto con el resumen de su valoración
+   */
+  async findProductReviews(productId: string, query: ReviewQueryDto) {
+    if (!Types.ObjectId.isValid(productId)) {
+      throw new NotFoundException('Product not found');
+    }
+    const product = await this.productModel
+      .findById(productId)
+      .select('rating reviewCount isActive isDeleted');
+    if (!product || !product.isActive || product.isDeleted) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const { page = 1, limit = 10, sort = 'recent', rating } = query;
+    const published = {
+      productId: product._id,
+      status: ReviewStatus.APPROVED,
+    };
+    const filter: FilterQuery<Review> = rating
+      ? { ...published, rating }
+      : published;
+
+    const [reviews, total, ratingCounts] = await Promise.all([
+      this.reviewModel
+        .find(filter)
+        .sort(REVIEW_SORT_ORDERS[sort])
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('userId', 'firstName lastName'),
+      this.reviewModel.countDocuments(filter),
+      this.reviewModel.aggregate([
+        { $match: published },
+        { $group: { _id: '$rating', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const distribution = {};
+    for (const stars of [5, 4, 3, 2, 1]) {
+      distribution[stars] =
+        ratingCounts.find((ratingCount) => ratingCount._id === stars)?.count ||
+        0;
+    }
+
+    return {
+      summary: {
+        rating: product.rating,
+        reviewCount: product.reviewCount,
+        distribution,
+      },
+      reviews: reviews.map((review) => this.toPublic(review)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findMyReviews(userId: string) {
+    const reviews = await this.reviewModel
+      .find({ userId })
+      .sort({ createdAt: -1 });
+
+    return reviews.map((review) => this.toOwnerResponse(review));
+  }
+
+  /**
+   * Productos de pedidos entregados que el usuario todavía no ha reseñado
+   */
+  async findReviewable(userId: string) {
+    const [orders, reviewedProductIds] = await Promise.all([
+      this.orderModel
+        .find({ userId, status: OrderStatus.DELIVERED })
+        .sort({ createdAt: -1 })
+        .select('orderNumber items deliveredAt'),
+      this.reviewModel.distinct('productId', { userId }),
+    ]);
+
+    const seen = new Set(reviewedProductIds.map((id) => id.toString()));
+    const reviewable = [];
+    for (const order of orders) {
+      for (const item of order.items) {
+        const productId = item.productId.toString();
+        if (seen.has(productId)) continue;
+        seen.add(productId);
+
+        reviewable.push({
+          productId: item.productId,
+          productName: item.productName,
+          orderId: order._id,
+          orderNumber: order.orderNumber,
+          deliveredAt: order.deliveredAt,
+        });
+      }
+    }
+
+    return reviewable;
+  }
+
+  /**
+   * Crea una reseña pendiente de moderación. Solo pueden reseñar los
+   * clientes con un pedido entregado que incluya el producto.
+   */
+  async create(userId: string, createReviewDto: CreateReviewDto) {
+    const product = await this.productModel.findById(createReviewDto.productId);
+    if (!product || product.isDeleted) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const exists = await this.reviewModel.exists({
+      userId,
+      productId: product._id,
+    });
+    if (exists) {
+      throw new ConflictException('You have already reviewed this product');
+    }
+
+    const orderFilter: FilterQuery<Order> = {
+      userId,
+      status: OrderStatus.DELIVERED,
+      'items.productId': product._id,
+    };
+    if (createReviewDto.orderId) {
+      orderFilter._id = createReviewDto.orderId;
+    }
+    const order = await this.orderModel
+      .findOne(orderFilter)
+      .sort({ createdAt: -1 });
+    if (!order) {
+      throw new ForbiddenException(
+        'Only customers who received this product can review it'
+      );
+    }
+
+    const review = await this.reviewModel.create({
+      userId,
+      productId: product._id,
+      orderId: order._id,
+      rating: createReviewDto.rating,
+      title: createReviewDto.title,
+      comment: createReviewDto.comment,
+    });
+
+    return this.toOwnerResponse(review);
+  }
+
+  async update(
+    userId: string,
+    reviewId: string,
+    updateReviewDto: UpdateReviewDto
+  ) {
+    const review = await this.findOwned(userId, reviewId);
+
+    const updated = await this.applyChange(
+      { _id: review._id, userId },
+      {
+        ...BACK_TO_MODERATION,
+        $set: { ...updateReviewDto, status: ReviewStatus.PENDING },
+      }
+    );
+
+    return this.toOwnerResponse(updated);
+  }
+
+  async remove(userId: string, reviewId: string) {
+    const review = await this.findOwned(userId, reviewId);
+
+    const deleted = await this.reviewModel.findByIdAndDelete(review._id);
+    if (deleted) {
+      await this.cleanUpDeleted(deleted);
+    }
+
+    return { message: 'Review deleted successfully' };
+  }
+
+  /**
+   * Añade fotos a la reseña, que vuelve a moderación
+   */
+  async addPhotos(
+    userId: string,
+    reviewId: string,
+    files: Express.Multer.File[]
+  ) {
+    const review = await this.findOwned(userId, reviewId);
+    if (review.photos.length + files.length > this.maxPhotosPerReview) {
+      throw new BadRequestException(
+        `A review can have up to ${this.maxPhotosPerReview} photos`
+      );
+    }
+
+    const uploads = await this.cloudinaryService.uploadMultipleImages(
+      files,
+      'reviews'
+    );
+    const photos = uploads.map((upload) => ({
+      url: upload.secure_url,
+      publicId: upload.public_id,
+    }));
+
+    const updated = await this.applyChange(
+      { _id: review._id, userId },
+      {
+        ...BACK_TO_MODERATION,
+        $push: { photos: { $each: photos } },
+        $set: { status: ReviewStatus.PENDING },
+      }
+    );
+
+    return this.toOwnerResponse(updated);
+  }
+
+  async removePhoto(userId: string, reviewId: string, publicId: string) {
+    const review = await this.findOwned(userId, reviewId);
+    if (!review.photos.some((photo) => photo.publicId === publicId)) {
+      throw new NotFoundException('Photo not found');
+    }
+
+    const updated = await this.reviewModel.findOneAndUpdate(
+      { _id: review._id, userId },
+      { $pull: { photos: { publicId } } },
+      { new: true }
+    );
+    this.deletePhotos([publicId]);
+
+    return this.toOwnerResponse(updated);
+  }
+
+  // ==================== VOTOS ====================
+
+  async markHelpful(userId: string, reviewId: string) {
+    const review = await this.findPublished(reviewId);
+    if (review.userId.toString() === userId) {
+      throw new BadRequestException('You cannot vote on your own review');
+    }
+
+    const result = await this.reviewVoteModel.updateOne(
+      { reviewId: review._id, userId },
+      { $setOnInsert: { reviewId: review._id, userId } },
+      { upsert: true }
+    );
+    if (!result.upsertedCount) {
+      throw new ConflictException('You already marked this review as helpful');
+    }
+
+    const updated = await this.reviewModel.findByIdAndUpdate(
+      review._id,
+      { $inc: { helpfulCount: 1 } },
+      { new: true }
+    );
+
+    return { helpfulCount: updated.helpfulCount };
+  }
+
+  async unmarkHelpful(userId: string, reviewId: string) {
+    const review = await this.findPublished(reviewId);
+    await this.removeVote(review._id, userId);
+
+    const updated = await this.reviewModel.findById(review._id);
+    return { helpfulCount: updated.helpfulCount };
+  }
+
+  // ==================== MODERACIÓN ====================
+
+  async findModerationQueue(query: ModerationQueryDto) {
+    const { page = 1, limit = 20, status = ReviewStatus.PENDING } = query;
+
+    const [reviews, total] = await Promise.all([
+      this.reviewModel
+        .find({ status })
+        .sort({ createdAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('userId', 'firstName lastName email')
+        .populate('productId', 'name'),
+      this.reviewModel.countDocuments({ status }),
+    ]);
+
+    return {
+      reviews,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async moderate(
+    reviewId: string,
+    moderateReviewDto: ModerateReviewDto,
+    moderatorId?: string
+  ) {
+    const { status, reason } = moderateReviewDto;
+    if (status === ReviewStatus.REJECTED && !reason) {
+      throw new BadRequestException('A reason is required to reject a review');
+    }
+    if (!Types.ObjectId.isValid(reviewId)) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const update: UpdateQuery<Review> = {
+      $set: {
+        status,
+        moderatedAt: new Date(),
+        ...(moderatorId && { moderatedBy: moderatorId }),
+        ...(status === ReviewStatus.REJECTED && { rejectionReason: reason }),
+      },
+    };
+    if (status === ReviewStatus.APPROVED) {
+      update.$unset = { rejectionReason: 1 };
+    }
+
+    return this.applyChange({ _id: reviewId }, update);
+  }
+
+  // ==================== DATOS DEL USUARIO ====================
+
+  /**
+   * Borra las reseñas y los votos de un usuario manteniendo al día las
+   * valoraciones de los productos y los recuentos de votos
+   */
+  async removeUserData(userId: string): Promise<void> {
+    const reviews = await this.reviewModel.find({ userId }).select('_id');
+    for (const review of reviews) {
+      const deleted = await this.reviewModel.findByIdAndDelete(review._id);
+      if (deleted) {
+        await this.cleanUpDeleted(deleted);
+      }
+    }
+
+    const votes = await this.reviewVoteModel.find({ userId });
+    for (const vote of votes) {
+      await this.removeVote(vote.reviewId, userId);
+    }
+  }
+
+  // ==================== EVENT LISTENERS ====================
+
+  /**
+   * Programa el recordatorio de reseña REVIEW_REMINDER_DELAY_DAYS (por
+   * defecto 3) días después de la entrega
+   */
+  @OnEvent('order.delivered')
+  async handleOrderDelivered(event: OrderDeliveredEvent): Promise<void> {
+    try {
+      const delayDays =
+        Number(this.configService.get<string>('REVIEW_REMINDER_DELAY_DAYS')) ||
+        3;
+
+      await this.notificationsService.sendReviewReminder(
+        event.userId,
+        {
+          orderId: event.orderId,
+          orderNumber: event.orderData?.orderNumber,
+          reviewUrl: `${this.configService.get<string>('FRONTEND_URL')}/reviews/pending`,
+        },
+        new Date(Date.now() + delayDays * 24 * 60 * 60 * 1000)
+      );
+    } catch (error) {
+      this.logger.error('Error manejando evento orden entregada:', error);
+    }
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private async findOwned(userId: string, reviewId: string): Promise<Review> {
+    if (!Types.ObjectId.isValid(reviewId)) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const review = await this.reviewModel.findOne({ _id: reviewId, userId });
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    return review;
+  }
+
+  private async findPublished(reviewId: string): Promise<Review> {
+    if (!Types.ObjectId.isValid(reviewId)) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const review = await this.reviewModel.findOne({
+      _id: reviewId,
+      status: ReviewStatus.APPROVED,
+    });
+    if (!review) {
+      throw new NotFoundException('Review not found');
+    }
+
+    return review;
+  }
+
+  /**
+   * Aplica un cambio a la reseña y, si entra o sale de las aprobadas o
+   * cambia su puntuación, actualiza la valoración del producto. Se parte del
+   * documento anterior que devuelve la propia actualización, así que dos
+   * cambios simultáneos no pueden contarse dos veces.
+   */
+  private async applyChange(
+    filter: FilterQuery<Review>,
+    update: UpdateQuery<Review>
+  ): Promise<Review> {
+    const previous = await this.reviewModel.findOneAndUpdate(filter, update);
+    if (!previous) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const changes = (update.$set || {}) as Partial<Review>;
+    await this.updateProductRating(previous.productId, previous, {
+      status: changes.status ?? previous.status,
+      rating: changes.rating ?? previous.rating,
+    });
+
+    return this.reviewModel.findById(previous._id);
+  }
+
+  private async cleanUpDeleted(review: Review): Promise<void> {
+    await this.updateProductRating(review.productId, review, null);
+    await this.reviewVoteModel.deleteMany({ reviewId: review._id });
+    this.deletePhotos(review.photos.map((photo) => photo.publicId));
+  }
+
+  /**
+   * Actualiza de forma incremental la media y el número de reseñas
+   * aprobadas del producto
+   */
+  private async updateProductRating(
+    productId: Types.ObjectId,
+    before: RatingState | null,
+    after: RatingState | null
+  ): Promise<void> {
+    const wasApproved = before?.status === ReviewStatus.APPROVED;
+    const isApproved = after?.status === ReviewStatus.APPROVED;
+
+    const ratingDelta =
+      (isApproved ? after.rating : 0) - (wasApproved ? before.rating : 0);
+    const countDelta = Number(isApproved) - Number(wasApproved);
+    if (ratingDelta === 0 && countDelta === 0) return;
+
+    await this.productModel.updateOne({ _id: productId }, [
+      {
+        $set: {
+          // Los productos anteriores a las reseñas no tienen ratingTotal
+          ratingTotal: {
+            $add: [
+              {
+                $ifNull: [
+                  '$ratingTotal',
+                  { $multiply: ['$rating', '$reviewCount'] },
+                ],
+              },
+              ratingDelta,
+            ],
+          },
+          reviewCount: { $add: ['$reviewCount', countDelta] },
+        },
+      },
+      {
+        $set: {
+          rating: {
+            $cond: [
+              { $gt: ['$reviewCount', 0] },
+              { $round: [{ $divide: ['$ratingTotal', '$reviewCount'] }, 2] },
+              0,
+            ],
+          },
+        },
+      },
+    ]);
+  }
+
+  private async removeVote(
+    reviewId: Types.ObjectId,
+    userId: string
+  ): Promise<void> {
+    const result = await this.reviewVoteModel.deleteOne({ reviewId, userId });
+    if (result.deletedCount) {
+      await this.reviewModel.updateOne(
+        { _id: reviewId, helpfulCount: { $gt: 0 } },
+        { $inc: { helpfulCount: -1 } }
+      );
+    }
+  }
+
+  private deletePhotos(publicIds: string[]): void {
+    if (publicIds.length === 0) return;
+
+    this.cloudinaryService
+      .deleteMultipleImages(publicIds)
+      .catch((error) =>
+        this.logger.error('Error eliminando fotos de reseña:', error)
+      );
+  }
+
+  private toPublic(review: Review) {
+    const author = review.userId as any;
+
+    return {
+      id: review._id,
+      rating: review.rating,
+      title: review.title,
+      comment: review.comment,
+      photos: review.photos.map((photo) => photo.url),
+      helpfulCount: review.helpfulCount,
+      verifiedPurchase: true,
+      // Solo el nombre y la inicial del apellido
+      author: author?.lastName
+        ? `${author.firstName} ${author.lastName.charAt(0)}.`
+        : author?.firstName || 'Cliente',
+      createdAt: review.createdAt,
+    };
+  }
+
+  private toOwnerResponse(review: Review) {
+    return {
+      id: review._id,
+      productId: review.productId,
+      orderId: review.orderId,
+      rating: review.rating,
+      title: review.title,
+      comment: review.comment,
+      photos: review.photos,
+      status: review.status,
+      rejectionReason: review.rejectionReason,
+      helpfulCount: review.helpfulCount,
+      createdAt: review.createdAt,
+    };
+  }
+}
@@ -0,0 +1,486 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { User } from '@core/domain/entities/user.entity';
+import { Address } from '@core/domain/entities/address.entity';
+import { Cart } from '@core/domain/entities/cart.entity';
+import { Order, OrderStatus } from '@core/domain/entities/order.entity';
+import { Payment } from '../payments/entities/payment.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+import { NotificationPreference } from '../notifications/entities/notification-preference.entity';
+import { DeviceToken } from '../notifications/entities/device-token.entity';
+import { Wishlist } from '../wishlists/entities/wishlist.entity';
+import { ExternalIdentity } from '../auth/entities/external-identity.entity';
+import { LoginAttempt } from '../auth/entities/login-attempt.entity';
+import { DataExport } from './entities/data-export.entity';
+import {
+  ErasureRequest,
+  ErasureRequestStatus,
+} from './entities/erasure-request.entity';
+import { TokenService } from '../auth/token.service';
+import { ReviewsService } from '../reviews/reviews.service';
+import { PasswordService } from '@shared/utils/password.service';
+import { EmailService } from '@shared/services/email.service';
+
+// Pedidos que todavía necesitan la dirección para entregarse
+const ORDERS_IN_PROGRESS = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+];
+
+// Claves de las respuestas de las pasarelas que pueden contener datos
+// personales (payer, billing_details, receipt_email, etc.)
+const PERSONAL_DATA_KEY = /(email|name|phone|address|payer|billing|shipping)/i;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Derecho de supresión: programa el borrado de la cuenta con un periodo de
+ * gracia de ACCOUNT_ERASURE_GRACE_DAYS (por defecto 30) durante el que se
+ * puede cancelar. El usuario lo confirma con un enlace enviado por email, lo
+ * que también sirve para las cuentas creadas con OIDC o enlace mágico, cuya
+ * contraseña es aleatoria. Al ejecutarse se anonimizan los datos personales y se
+ * conservan los importes de pedidos y pagos para contabilidad.
+ */
+@Injectable()
+export class AccountErasureService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AccountErasureService.name);
+  private readonly processIntervalMs = 60 * 60 * 1000; // 1 hour
+  private readonly retryDelayMs = 24 * 60 * 60 * 1000; // 1 day
+  private processTimer: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel(ErasureRequest.name)
+    private erasureRequestModel: Model<ErasureRequest>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Address.name) private addressModel: Model<Address>,
+    @InjectModel(Cart.name) private cartModel: Model<Cart>,
+    @InjectModel(Order.name) private orderModel: Model<Order>,
+    @InjectModel(Payment.name) private paymentModel: Model<Payment>,
+    @InjectModel(Notification.name)
+    private notificationModel: Model<Notification>,
+    @InjectModel(NotificationPreference.name)
+    private notificationPreferenceModel: Model<NotificationPreference>,
+    @InjectModel(DeviceToken.name)
+    private deviceTokenModel: Model<DeviceToken>,
+    @InjectModel(Wishlist.name) private wishlistModel: Model<Wishlist>,
+    @InjectModel(ExternalIdentity.name)
+    private externalIdentityModel: Model<ExternalIdentity>,
+    @InjectModel(LoginAttempt.name)
+    private loginAttemptModel: Model<LoginAttempt>,
+    @InjectModel(DataExport.name) private dataExportModel: Model<DataExport>,
+    private tokenService: TokenService,
+    private reviewsService: ReviewsService,
+    private passwordService: PasswordService,
+    private emailService: EmailService,
+    private configService: ConfigService
+  ) {}
+
+  onModuleInit() {
+    this.processTimer = setInterval(() => {
+      this.processDueErasures().catch((error) =>
+        this.logger.error('Error procesando borrados de cuenta:', error)
+      );
+    }, this.processIntervalMs);
+    this.processTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.processTimer);
+  }
+
+  /**
+   * Solicitud del propio usuario. Envía un enlace de confirmación de un solo
+   * uso; una solicitud nueva invalida los enlaces anteriores.
+   */
+  async requestErasure(userId: string, reason?: string) {
+    const user = await this.findActiveUser(userId);
+    await this.assertCanSchedule(user);
+
+    await this.erasureRequestModel.updateMany(
+      { userId: user._id, status: ErasureRequestStatus.PENDING_CONFIRMATION },
+      {
+        status: ErasureRequestStatus.CANCELLED,
+        cancelledAt: new Date(),
+        $unset: { confirmationTokenHash: 1 },
+      }
+    );
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresInMinutes = this.getConfirmationExpiresInMinutes();
+
+    await this.erasureRequestModel.create({
+      userId: user._id,
+      reason,
+      status: ErasureRequestStatus.PENDING_CONFIRMATION,
+      confirmationTokenHash: this.hashToken(token),
+      confirmationExpiresAt: new Date(
+        Date.now() + expiresInMinutes * 60 * 1000
+      ),
+    });
+
+    const sent = await this.emailService.sendAccountErasureConfirmationEmail(
+      user.email,
+      {
+        customerName: `${user.firstName} ${user.lastName}`,
+        confirmUrl: `${this.configService.get<string>('FRONTEND_URL')}/profile/erasure/confirm?token=${token}`,
+        expiresInMinutes,
+      }
+    );
+    if (!sent) {
+      this.logger.error(`Error enviando confirmación de borrado a ${user._id}`);
+    }
+
+    return {
+      message: 'A confirmation link has been sent to your email',
+      expiresInMinutes,
+    };
+  }
+
+  /**
+   * Confirma la solicitud con el token del email y programa el borrado. El
+   * token solo vale para el usuario que la pidió.
+   */
+  async confirmErasure(userId: string, token: string) {
+    const user = await this.findActiveUser(userId);
+    await this.assertCanSchedule(user);
+
+    const graceDays = this.getGraceDays();
+    const request = await this.erasureRequestModel.findOneAndUpdate(
+      {
+        userId: user._id,
+        status: ErasureRequestStatus.PENDING_CONFIRMATION,
+        confirmationTokenHash: this.hashToken(token),
+        confirmationExpiresAt: { $gt: new Date() },
+      },
+      {
+        status: ErasureRequestStatus.SCHEDULED,
+        scheduledFor: new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000),
+        $unset: { confirmationTokenHash: 1, confirmationExpiresAt: 1 },
+      },
+      { new: true }
+    );
+    if (!request) {
+      throw new BadRequestException('Invalid or expired confirmation token');
+    }
+
+    await this.notifyScheduled(user, request, graceDays);
+
+    return this.toResponse(request);
+  }
+
+  /**
+   * Solicitud de un administrador en nombre del usuario
+   */
+  async scheduleErasureForUser(
+    userId: string,
+    requestedBy: string,
+    reason?: string
+  ) {
+    const user = await this.findActiveUser(userId);
+    return this.scheduleErasure(user, { requestedBy, reason });
+  }
+
+  async getPendingErasure(userId: string) {
+    const request = await this.erasureRequestModel.findOne({
+      userId,
+      status: ErasureRequestStatus.SCHEDULED,
+    });
+
+    return request ? this.toResponse(request) : null;
+  }
+
+  async cancelErasure(userId: string) {
+    const request = await this.erasureRequestModel.findOneAndUpdate(
+      { userId, status: ErasureRequestStatus.SCHEDULED },
+      { status: ErasureRequestStatus.CANCELLED, cancelledAt: new Date() },
+      { new: true }
+    );
+    if (!request) {
+      throw new NotFoundException('No account deletion is scheduled');
+    }
+
+    this.logger.log(`Borrado de cuenta cancelado para ${userId}`);
+
+    return this.toResponse(request);
+  }
+
+  /**
+   * Ejecuta los borrados cuyo periodo de gracia ha terminado
+   */
+  async processDueErasures(): Promise<void> {
+    for (;;) {
+      const request = await this.erasureRequestModel.findOneAndUpdate(
+        {
+          status: ErasureRequestStatus.SCHEDULED,
+          scheduledFor: { $lte: new Date() },
+        },
+        { status: ErasureRequestStatus.PROCESSING },
+        { new: true }
+      );
+      if (!request) break;
+
+      const userId = request.userId.toString();
+
+      try {
+        if (await this.hasOrdersInProgress(userId)) {
+          // Se pospone hasta que se entreguen los pedidos pendientes
+          await this.erasureRequestModel.updateOne(
+            { _id: request._id },
+            {
+              status: ErasureRequestStatus.SCHEDULED,
+              scheduledFor: new Date(Date.now() + this.retryDelayMs),
+            }
+          );
+          continue;
+        }
+
+        await this.eraseUser(userId);
+        await this.erasureRequestModel.updateOne(
+          { _id: request._id },
+          {
+            status: ErasureRequestStatus.COMPLETED,
+            completedAt: new Date(),
+          }
+        );
+
+        this.logger.log(`Cuenta anonimizada: ${userId}`);
+      } catch (error) {
+        this.logger.error(`Error anonimizando la cuenta ${userId}:`, error);
+        await this.erasureRequestModel.updateOne(
+          { _id: request._id },
+          {
+            status: ErasureRequestStatus.SCHEDULED,
+            scheduledFor: new Date(Date.now() + this.retryDelayMs),
+          }
+        );
+      }
+    }
+  }
+
+  private async scheduleErasure(
+    user: User,
+    options: { requestedBy?: string; reason?: string }
+  ) {
+    await this.assertCanSchedule(user);
+
+    const graceDays = this.getGraceDays();
+    const request = await this.erasureRequestModel.create({
+      userId: user._id,
+      requestedBy: options.requestedBy,
+      reason: options.reason,
+      scheduledFor: new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000),
+    });
+
+    await this.notifyScheduled(user, request, graceDays);
+
+    return this.toResponse(request);
+  }
+
+  private async assertCanSchedule(user: User): Promise<void> {
+    const existing = await this.erasureRequestModel.exists({
+      userId: user._id,
+      status: {
+        $in: [ErasureRequestStatus.SCHEDULED, ErasureRequestStatus.PROCESSING],
+      },
+    });
+    if (existing) {
+      throw new ConflictException('Account deletion is already scheduled');
+    }
+
+    if (await this.hasOrdersInProgress(user._id.toString())) {
+      throw new ConflictException(
+        'The account has orders in progress, please wait until they are delivered or cancelled'
+      );
+    }
+  }
+
+  private async notifyScheduled(
+    user: User,
+    request: ErasureRequest,
+    graceDays: number
+  ): Promise<void> {
+    const sent = await this.emailService.sendAccountErasureScheduledEmail(
+      user.email,
+      {
+        customerName: `${user.firstName} ${user.lastName}`,
+        scheduledFor: request.scheduledFor,
+        graceDays,
+        profileUrl: `${this.configService.get<string>('FRONTEND_URL')}/profile`,
+      }
+    );
+    if (!sent) {
+      this.logger.error(`Error enviando aviso de borrado a ${user._id}`);
+    }
+
+    this.logger.log(
+      `Borrado de cuenta programado para ${user._id} el ${request.scheduledFor.toISOString()}`
+    );
+  }
+
+  /**
+   * Anonimiza al usuario en todas las colecciones. Los pedidos y pagos se
+   * conservan con sus importes pero sin nombres, contactos ni direcciones
+   * completas; el resto de datos personales se elimina.
+   */
+  private async eraseUser(userId: string): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user) return;
+
+    const originalEmail = user.email;
+
+    // Cierra todas las sesiones antes de cambiar los datos de acceso
+    await this.tokenService.revokeAllForUser(userId);
+
+    await this.orderModel.updateMany(
+      { $or: [{ userId }, { contactEmail: originalEmail }] },
+      {
+        $set: {
+          'shippingAddress.firstName': REDACTED,
+          'shippingAddress.lastName': REDACTED,
+          'shippingAddress.street': REDACTED,
+        },
+        $unset: {
+          'shippingAddress.phone': 1,
+          contactEmail: 1,
+          notes: 1,
+          guestAccessTokenHash: 1,
+        },
+      }
+    );
+
+    const payments = await this.paymentModel
+      .find({ userId, gatewayResponse: { $exists: true } })
+      .select('gatewayResponse');
+    for (const payment of payments) {
+      await this.paymentModel.updateOne(
+        { _id: payment._id },
+        { gatewayResponse: this.redactPersonalData(payment.gatewayResponse) }
+      );
+    }
+
+    // Las reseñas se borran una a una para descontarlas de la valoración de
+    // cada producto
+    await this.reviewsService.removeUserData(userId);
+
+    await Promise.all([
+      this.addressModel.deleteMany({ userId }),
+      this.cartModel.deleteMany({ userId }),
+      this.notificationModel.deleteMany({ userId }),
+      this.notificationPreferenceModel.deleteMany({ userId }),
+      this.deviceTokenModel.deleteMany({ userId }),
+      this.wishlistModel.deleteMany({ userId }),
+      this.externalIdentityModel.deleteMany({ userId }),
+      this.dataExportModel.deleteMany({ userId }),
+      this.loginAttemptModel.deleteMany({
+        $or: [{ userId }, { email: originalEmail }],
+      }),
+    ]);
+
+    await this.userModel.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          email: `erased-${userId}@erased.invalid`,
+          firstName: 'Deleted',
+          lastName: 'User',
+          // Contraseña aleatoria que nadie conoce
+          password: await this.passwordService.hashPassword(
+            crypto.randomBytes(32).toString('hex')
+          ),
+          passwordHistory: [],
+          twoFactorEnabled: false,
+          twoFactorRecoveryCodes: [],
+          emailVerified: false,
+          isActive: false,
+          isDeleted: true,
+        },
+        $unset: {
+          phone: 1,
+          address: 1,
+          emailVerifiedAt: 1,
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorLastUsedStep: 1,
+          lastLoginAt: 1,
+          lastFailedLoginAt: 1,
+        },
+      }
+    );
+  }
+
+  private redactPersonalData(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactPersonalData(item));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [
+          key,
+          PERSONAL_DATA_KEY.test(key) && nested !== null
+            ? REDACTED
+            : this.redactPersonalData(nested),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private async hasOrdersInProgress(userId: string): Promise<boolean> {
+    return !!(await this.orderModel.exists({
+      userId,
+      status: { $in: ORDERS_IN_PROGRESS },
+    }));
+  }
+
+  private async findActiveUser(userId: string): Promise<User> {
+    const user = await this.userModel.findById(userId);
+    if (!user || user.isDeleted) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private toResponse(request: ErasureRequest) {
+    return {
+      id: request._id,
+      status: request.status,
+      scheduledFor: request.scheduledFor,
+      requestedAt: request.createdAt,
+      cancelledAt: request.cancelledAt,
+      completedAt: request.completedAt,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getConfirmationExpiresInMinutes(): number {
+    return (
+      Number(
+        this.configService.get<string>(
+          'ACCOUNT_ERASURE_CONFIRM_EXPIRES_MINUTES'
+        )
+      ) || 60
+    );
+  }
+
+  private getGraceDays(): number {
+    return (
+      Number(this.configService.get<string>('ACCOUNT_ERASURE_GRACE_DAYS')) || 30
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { AddressesService } from './addresses.service';
+import { CreateAddressDto } from './dto/create-address.dto';
+import { UpdateAddressDto } from './dto/update-address.dto';
+import { CurrentUser } from '@shared/decorators/current-user.decorator';
+
+@ApiTags('users')
+@Controller('users/profile/addresses')
+@UseGuards(AuthGuard('jwt'))
+@ApiBearerAuth('JWT-auth')
+export class AddressesController {
+  constructor(private readonly addressesService: AddressesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Obtener direcciones guardadas',
+    description:
+      'Obtiene la libreta de direcciones del usuario autenticado, con las predeterminadas primero',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Direcciones obtenidas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  findAll(@CurrentUser() user: any) {
+    return this.addressesService.findAll(user.id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Guardar dirección',
+    description:
+      'Añade una dirección a la libreta. La primera dirección se marca como predeterminada de envío y facturación',
+  })
+  @ApiBody({ type: CreateAddressDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Dirección guardada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Dirección inválida para el país indicado',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  create(@CurrentUser() user: any, @Body() createAddressDto: CreateAddressDto) {
+    return this.addressesService.create(user.id, createAddressDto);
+  }
+
+  @Patch(':addressId')
+  @ApiOperation({
+    summary: 'Actualizar dirección',
+    description:
+      'Actualiza una dirección guardada o la marca como predeterminada',
+  })
+  @ApiParam({ name: 'addressId', description: 'ID de la dirección' })
+  @ApiBody({ type: UpdateAddressDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Dirección actualizada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Dirección inválida para el país indicado',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Dirección no encontrada',
+  })
+  update(
+    @CurrentUser() user: any,
+    @Param('addressId') addressId: string,
+    @Body() updateAddressDto: UpdateAddressDto
+  ) {
+    return this.addressesService.update(user.id, addressId, updateAddressDto);
+  }
+
+  @Delete(':addressId')
+  @ApiOperation({
+    summary: 'Eliminar dirección',
+    description: 'Elimina una dirección de la libreta',
+  })
+  @ApiParam({ name: 'addressId', description: 'ID de la dirección' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Dirección eliminada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Dirección no encontrada',
+  })
+  remove(@CurrentUser() user: any, @Param('addressId') addressId: string) {
+    return this.addressesService.remove(user.id, addressId);
+  }
+}
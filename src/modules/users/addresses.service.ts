@@ -0,0 +1,138 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Address } from '@core/domain/entities/address.entity';
+import { AddressPolicy } from '@shared/utils/address.policy';
+import { CreateAddressDto } from './dto/create-address.dto';
+import { UpdateAddressDto } from './dto/update-address.dto';
+
+@Injectable()
+export class AddressesService {
+  private readonly maxAddressesPerUser = 20;
+
+  constructor(
+    @InjectModel(Address.name) private addressModel: Model<Address>,
+    private addressPolicy: AddressPolicy
+  ) {}
+
+  async findAll(userId: string): Promise<Address[]> {
+    return this.addressModel
+      .find({ userId })
+      .sort({ isDefaultShipping: -1, isDefaultBilling: -1, createdAt: -1 });
+  }
+
+  /**
+   * Añade una dirección a la libreta. La primera que se guarda pasa a ser la
+   * de envío y facturación por defecto.
+   */
+  async create(
+    userId: string,
+    createAddressDto: CreateAddressDto
+  ): Promise<Address> {
+    this.addressPolicy.assertValid(createAddressDto);
+
+    const count = await this.addressModel.countDocuments({ userId });
+    if (count >= this.maxAddressesPerUser) {
+      throw new BadRequestException(
+        `You can save up to ${this.maxAddressesPerUser} addresses`
+      );
+    }
+
+    const address = new this.addressModel({
+      ...createAddressDto,
+      userId,
+      zipCode: this.normalizeZipCode(createAddressDto.zipCode),
+      isDefaultShipping: count === 0 || !!createAddressDto.isDefaultShipping,
+      isDefaultBilling: count === 0 || !!createAddressDto.isDefaultBilling,
+    });
+
+    await this.clearOtherDefaults(address);
+    await address.save();
+
+    return address;
+  }
+
+  async update(
+    userId: string,
+    addressId: string,
+    updateAddressDto: UpdateAddressDto
+  ): Promise<Address> {
+    const address = await this.findOwned(userId, addressId);
+
+    address.set({
+      ...updateAddressDto,
+      ...(updateAddressDto.zipCode && {
+        zipCode: this.normalizeZipCode(updateAddressDto.zipCode),
+      }),
+    });
+    this.addressPolicy.assertValid(address);
+
+    await this.clearOtherDefaults(address);
+    await address.save();
+
+    return address;
+  }
+
+  /**
+   * Elimina una dirección. Si era la predeterminada, la más reciente de las
+   * restantes ocupa su lugar.
+   */
+  async remove(userId: string, addressId: string) {
+    const address = await this.findOwned(userId, addressId);
+    await this.addressModel.deleteOne({ _id: address._id });
+
+    for (const flag of ['isDefaultShipping', 'isDefaultBilling'] as const) {
+      if (!address[flag]) continue;
+
+      const replacement = await this.addressModel
+        .findOne({ userId })
+        .sort({ createdAt: -1 });
+      if (replacement) {
+        await this.addressModel.updateOne(
+          { _id: replacement._id },
+          { [flag]: true }
+        );
+      }
+    }
+
+    return { message: 'Address deleted successfully' };
+  }
+
+  private async findOwned(userId: string, addressId: string): Promise<Address> {
+    if (!Types.ObjectId.isValid(addressId)) {
+      throw new NotFoundException('Address not found');
+    }
+
+    const address = await this.addressModel.findOne({
+      _id: addressId,
+      userId,
+    });
+    if (!address) {
+      throw new NotFoundException('Address not found');
+    }
+
+    return address;
+  }
+
+  /**
+   * Solo puede haber una dirección de envío y una de facturación por defecto
+   */
+  private async clearOtherDefaults(address: Address): Promise<void> {
+    for (const flag of ['isDefaultShipping', 'isDefaultBilling'] as const) {
+      if (!address[flag]) continue;
+
+      await this.addressModel.updateMany(
+        { userId: address.userId, _id: { $ne: address._id }, [flag]: true },
+        { [flag]: false }
+      );
+    }
+  }
+
+  private normalizeZipCode(zipCode: string): string {
+    return zipCode.trim().toUpperCase();
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { User } from '@core/domain/entities/user.entity';
+import { Address } from '@core/domain/entities/address.entity';
+import { Cart } from '@core/domain/entities/cart.entity';
+import { Order } from '@core/domain/entities/order.entity';
+import { Payment } from '../payments/entities/payment.entity';
+import { Notification } from '../notifications/entities/notification.entity';
+import { NotificationPreference } from '../notifications/entities/notification-preference.entity';
+import { DeviceToken } from '../notifications/entities/device-token.entity';
+import { Wishlist } from '../wishlists/entities/wishlist.entity';
+import { Review } from '../reviews/entities/review.entity';
+import {
+  DataExport,
+  DataExportFormat,
+  DataExportStatus,
+} from './entities/data-export.entity';
+import { createZipArchive } from '@shared/utils/zip-archive';
+
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+
+  constructor(
+    @InjectModel(DataExport.name) private dataExportModel: Model<DataExport>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Address.name) private addressModel: Model<Address>,
+    @InjectModel(Cart.name) private cartModel: Model<Cart>,
+    @InjectModel(Order.name) private orderModel: Model<Order>,
+    @InjectModel(Payment.name) private paymentModel: Model<Payment>,
+    @InjectModel(Notification.name)
+    private notificationModel: Model<Notification>,
+    @InjectModel(NotificationPreference.name)
+    private notificationPreferenceModel: Model<NotificationPreference>,
+    @InjectModel(DeviceToken.name)
+    private deviceTokenModel: Model<DeviceToken>,
+    @InjectModel(Wishlist.name) private wishlistModel: Model<Wishlist>,
+    @InjectModel(Review.name) private reviewModel: Model<Review>,
+    private configService: ConfigService
+  ) {}
+
+  /**
+   * Encola la exportación y la genera en segundo plano. Solo puede haber
+   * una en curso por usuario.
+   */
+  async requestExport(
+    userId: string,
+    format: DataExportFormat = DataExportFormat.ZIP,
+    requestedBy?: string
+  ) {
+    const user = await this.userModel.exists({ _id: userId });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const inProgress = await this.dataExportModel.exists({
+      userId,
+      status: { $in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] },
+    });
+    if (inProgress) {
+      throw new ConflictException('A data export is already in progress');
+    }
+
+    const dataExport = await this.dataExportModel.create({
+      userId,
+      requestedBy,
+      format,
+      expiresAt: this.getExpiresAt(),
+    });
+
+    this.generateExport(dataExport._id.toString()).catch((error) =>
+      this.logger.error(
+        `Error generando la exportación ${dataExport._id}:`,
+        error
+      )
+    );
+
+    return this.toResponse(dataExport);
+  }
+
+  async findExports(userId: string) {
+    const exports = await this.dataExportModel
+      .find({ userId })
+      .sort({ createdAt: -1 });
+
+    return exports.map((dataExport) => this.toResponse(dataExport));
+  }
+
+  async getArchive(userId: string, exportId: string) {
+    const dataExport = Types.ObjectId.isValid(exportId)
+      ? await this.dataExportModel
+          .findOne({
+            _id: exportId,
+            userId,
+            status: DataExportStatus.COMPLETED,
+            expiresAt: { $gt: new Date() },
+          })
+          .select('+archive')
+      : null;
+    if (!dataExport) {
+      throw new NotFoundException('Data export not found');
+    }
+
+    return {
+      fileName: dataExport.fileName,
+      contentType:
+        dataExport.format === DataExportFormat.JSON
+          ? 'application/json'
+          : 'application/zip',
+      archive: dataExport.archive,
+    };
+  }
+
+  private async generateExport(exportId: string): Promise<void> {
+    const dataExport = await this.dataExportModel.findOneAndUpdate(
+      { _id: exportId, status: DataExportStatus.PENDING },
+      { status: DataExportStatus.PROCESSING },
+      { new: true }
+    );
+    if (!dataExport) return;
+
+    try {
+      const sections = await this.collectUserData(dataExport.userId.toString());
+      const exportedAt = new Date();
+      const baseName = `data-export-${dataExport.userId}-${exportedAt.toISOString().slice(0, 10)}`;
+
+      const archive =
+        dataExport.format === DataExportFormat.JSON
+          ? Buffer.from(JSON.stringify({ exportedAt, ...sections }, null, 2))
+          : createZipArchive(
+              Object.entries(sections).map(([name, data]) => ({
+                name: `${name}.json`,
+                content: JSON.stringify(data, null, 2),
+              }))
+            );
+
+      await this.dataExportModel.updateOne(
+        { _id: dataExport._id },
+        {
+          status: DataExportStatus.COMPLETED,
+          fileName: `${baseName}.${dataExport.format}`,
+          size: archive.length,
+          archive,
+          completedAt: exportedAt,
+        }
+      );
+
+      this.logger.log(`Exportación de datos completada: ${dataExport._id}`);
+    } catch (error) {
+      await this.dataExportModel.updateOne(
+        { _id: dataExport._id },
+        {
+          status: DataExportStatus.FAILED,
+          failureReason: 'The export could not be generated',
+        }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Datos del usuario en cada colección, sin contraseñas, secretos, tokens
+   * de dispositivos ni respuestas de las pasarelas de pago
+   */
+  private async collectUserData(userId: string) {
+    const [
+      profile,
+      addresses,
+      carts,
+      orders,
+      payments,
+      notifications,
+      notificationPreferences,
+      devices,
+      wishlists,
+      reviews,
+    ] = await Promise.all([
+      this.userModel.findById(userId).select('-password -tokenVersion').lean(),
+      this.addressModel.find({ userId }).lean(),
+      this.cartModel.find({ userId }).lean(),
+      this.orderModel.find({ userId }).sort({ createdAt: -1 }).lean(),
+      this.paymentModel
+        .find({ userId })
+        .select('-gatewayResponse')
+        .sort({ createdAt: -1 })
+        .lean(),
+      this.notificationModel.find({ userId }).sort({ createdAt: -1 }).lean(),
+      this.notificationPreferenceModel.findOne({ userId }).lean(),
+      this.deviceTokenModel.find({ userId }).select('-token').lean(),
+      this.wishlistModel.find({ userId }).select('-shareToken').lean(),
+      this.reviewModel.find({ userId }).sort({ createdAt: -1 }).lean(),
+    ]);
+
+    return {
+      profile,
+      addresses,
+      carts,
+      orders,
+      payments,
+      notifications,
+      notificationPreferences,
+      devices,
+      wishlists,
+      reviews,
+    };
+  }
+
+  private toResponse(dataExport: DataExport) {
+    return {
+      id: dataExport._id,
+      status: dataExport.status,
+      format: dataExport.format,
+      fileName: dataExport.fileName,
+      size: dataExport.size,
+      failureReason: dataExport.failureReason,
+      requestedAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt,
+      expiresAt: dataExport.expiresAt,
+    };
+  }
+
+  private getExpiresAt(): Date {
+    const days =
+      Number(this.configService.get<string>('DATA_EXPORT_EXPIRES_DAYS')) || 7;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+}
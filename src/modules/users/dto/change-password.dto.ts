@@ -1,4 +1,4 @@
-import { IsString, MinLength, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty } from 'class-validator';
 
 export class ChangePasswordDto {
   @IsString()
@@ -6,6 +6,6 @@ export class ChangePasswordDto {
   currentPassword: string;
 
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   newPassword: string;
 }
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ConfirmAccountErasureDto {
+  @ApiProperty({
+    description: 'Token recibido en el enlace de confirmación por email',
+    example: '7c2d9e4a1f...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
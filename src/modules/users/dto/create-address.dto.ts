@@ -0,0 +1,98 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsBoolean,
+  Length,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateAddressDto {
+  @ApiPropertyOptional({
+    description: 'Nombre para identificar la dirección',
+    example: 'Casa',
+  })
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @ApiProperty({
+    description: 'Nombre del destinatario',
+    example: 'Juan',
+  })
+  @IsString()
+  @IsNotEmpty()
+  firstName: string;
+
+  @ApiProperty({
+    description: 'Apellido del destinatario',
+    example: 'Pérez',
+  })
+  @IsString()
+  @IsNotEmpty()
+  lastName: string;
+
+  @ApiProperty({
+    description: 'Calle y número',
+    example: 'Calle Principal 123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  street: string;
+
+  @ApiProperty({
+    description: 'Ciudad',
+    example: 'Madrid',
+  })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiProperty({
+    description: 'Provincia o estado',
+    example: 'Madrid',
+  })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @ApiProperty({
+    description: 'Código postal (se valida según el país)',
+    example: '28001',
+  })
+  @IsString()
+  @IsNotEmpty()
+  zipCode: string;
+
+  @ApiProperty({
+    description: 'Código de país ISO 3166-1 alfa-2',
+    example: 'ES',
+  })
+  @IsString()
+  @Length(2, 2)
+  country: string;
+
+  @ApiPropertyOptional({
+    description: 'Teléfono de contacto para la entrega',
+    example: '+34600000000',
+  })
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Usar como dirección de envío por defecto',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefaultShipping?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Usar como dirección de facturación por defecto',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefaultBilling?: boolean;
+}
@@ -3,7 +3,6 @@ import {
   IsString,
   IsEnum,
   IsOptional,
-  MinLength,
   IsNotEmpty,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -20,12 +19,11 @@ export class CreateUserDto {
   email: string;
 
   @ApiProperty({
-    description: 'Contraseña del usuario (mínimo 6 caracteres)',
-    example: 'miContraseña123',
-    minLength: 6,
+    description: 'Contraseña del usuario (debe cumplir la política de contraseñas)',
+    example: 'MiContraseña123!',
   })
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   password: string;
 
   @ApiProperty({
@@ -0,0 +1,15 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { DataExportFormat } from '../entities/data-export.entity';
+
+export class RequestDataExportDto {
+  @ApiPropertyOptional({
+    description:
+      'Formato del archivo: un único JSON o un ZIP con un JSON por colección',
+    enum: DataExportFormat,
+    default: DataExportFormat.ZIP,
+  })
+  @IsOptional()
+  @IsEnum(DataExportFormat)
+  format?: DataExportFormat;
+}
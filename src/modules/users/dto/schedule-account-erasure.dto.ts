@@ -0,0 +1,13 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ScheduleAccountErasureDto {
+  @ApiPropertyOptional({
+    description: 'Motivo del borrado (opcional)',
+    example: 'Ya no uso la tienda',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
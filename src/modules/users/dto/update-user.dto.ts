@@ -4,7 +4,7 @@ import {
   IsEnum,
   IsOptional,
   IsBoolean,
-  MinLength,
+  IsNotEmpty,
 } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { UserRole } from '@core/domain/entities/user.entity';
@@ -20,13 +20,13 @@ export class UpdateUserDto {
   email?: string;
 
   @ApiPropertyOptional({
-    description: 'Nueva contraseña del usuario (mínimo 6 caracteres)',
-    example: 'nuevaContraseña123',
-    minLength: 6,
+    description:
+      'Nueva contraseña del usuario (debe cumplir la política de contraseñas)',
+    example: 'NuevaContraseña123!',
   })
   @IsOptional()
   @IsString()
-  @MinLength(6)
+  @IsNotEmpty()
   password?: string;
 
   @ApiPropertyOptional({
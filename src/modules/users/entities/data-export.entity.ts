@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export enum DataExportFormat {
+  JSON = 'json',
+  ZIP = 'zip',
+}
+
+/**
+ * Exportación de los datos personales de un usuario. El archivo generado se
+ * guarda en el propio documento y se elimina al caducar.
+ */
+@Schema({ collection: 'data_exports' })
+export class DataExport extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  // Administrador que la solicitó en nombre del usuario
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  requestedBy?: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: DataExportStatus,
+    default: DataExportStatus.PENDING,
+  })
+  status: DataExportStatus;
+
+  @Prop({ type: String, enum: DataExportFormat, default: DataExportFormat.ZIP })
+  format: DataExportFormat;
+
+  @Prop()
+  fileName?: string;
+
+  @Prop()
+  size?: number;
+
+  @Prop({ type: Buffer, select: false })
+  archive?: Buffer;
+
+  @Prop()
+  failureReason?: string;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const DataExportSchema = SchemaFactory.createForClass(DataExport);
+
+DataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+export enum ErasureRequestStatus {
+  // Pendiente de que el usuario la confirme desde el enlace enviado por email
+  PENDING_CONFIRMATION = 'pending_confirmation',
+  SCHEDULED = 'scheduled',
+  PROCESSING = 'processing',
+  CANCELLED = 'cancelled',
+  COMPLETED = 'completed',
+}
+
+/**
+ * Solicitud de borrado de cuenta. Se ejecuta al terminar el periodo de
+ * gracia y se conserva como registro de que el borrado se realizó.
+ */
+@Schema({ collection: 'erasure_requests' })
+export class ErasureRequest extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  // Administrador que la solicitó en nombre del usuario
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  requestedBy?: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: ErasureRequestStatus,
+    default: ErasureRequestStatus.SCHEDULED,
+  })
+  status: ErasureRequestStatus;
+
+  // Se fija al programarse el borrado
+  @Prop({ index: true })
+  scheduledFor?: Date;
+
+  @Prop({ index: true })
+  confirmationTokenHash?: string;
+
+  @Prop()
+  confirmationExpiresAt?: Date;
+
+  @Prop()
+  reason?: string;
+
+  @Prop()
+  cancelledAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+}
+
+export const ErasureRequestSchema =
+  SchemaFactory.createForClass(ErasureRequest);
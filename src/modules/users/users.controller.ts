@@ -9,6 +9,7 @@ import {
   Query,
   UseGuards,
   HttpStatus,
+  Res,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import {
@@ -20,19 +21,35 @@ import {
   ApiParam,
   ApiQuery,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 import { UsersService } from './users.service';
+import { DataExportService } from './data-export.service';
+import { AccountErasureService } from './account-erasure.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { RequestDataExportDto } from './dto/request-data-export.dto';
+import { ScheduleAccountErasureDto } from './dto/schedule-account-erasure.dto';
+import { ConfirmAccountErasureDto } from './dto/confirm-account-erasure.dto';
 import { UserResponseDto } from '../auth/dto/user-response.dto';
+import { SessionResponseDto } from '../auth/dto/session-response.dto';
 import { Roles } from '@shared/decorators/roles.decorator';
 import { CurrentUser } from '@shared/decorators/current-user.decorator';
 import { UserRole } from '@core/domain/entities/user.entity';
+import { Permission } from '@core/domain/permissions';
+import { RequirePermissions } from '@shared/decorators/permissions.decorator';
+import { DisallowImpersonation } from '@shared/decorators/disallow-impersonation.decorator';
 
 @ApiTags('users')
 @Controller('users')
 @UseGuards(AuthGuard('jwt'))
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly dataExportService: DataExportService,
+    private readonly accountErasureService: AccountErasureService
+  ) {}
 
   @Post()
   @Roles(UserRole.ADMIN)
@@ -60,12 +77,12 @@ export class UsersController {
   }
 
   @Get()
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.USERS_READ)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Obtener lista de usuarios',
     description:
-      'Obtiene una lista paginada de todos los usuarios (solo administradores)',
+      'Obtiene una lista paginada de todos los usuarios (administradores y soporte)',
   })
   @ApiQuery({
     name: 'page',
@@ -122,12 +139,14 @@ export class UsersController {
   }
 
   @Patch('profile')
+  @DisallowImpersonation()
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Actualizar perfil del usuario',
-    description: 'Actualiza la información del perfil del usuario autenticado',
+    description:
+      'Actualiza la información del perfil del usuario autenticado. Si cambia el email, deja de estar verificado y se envía un nuevo enlace de verificación',
   })
-  @ApiBody({ type: UpdateUserDto })
+  @ApiBody({ type: UpdateProfileDto })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Perfil actualizado exitosamente',
@@ -143,18 +162,221 @@ export class UsersController {
   })
   updateProfile(
     @CurrentUser() user: any,
-    @Body() updateUserDto: UpdateUserDto
+    @Body() updateProfileDto: UpdateProfileDto
+  ) {
+    return this.usersService.updateProfile(user.id, updateProfileDto);
+  }
+
+  @Patch('profile/password')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Cambiar contraseña',
+    description:
+      'Cambia la contraseña del usuario autenticado. No disponible durante una suplantación',
+  })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Contraseña actualizada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Contraseña actual incorrecta o nueva contraseña débil',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Acción bloqueada durante una suplantación',
+  })
+  changePassword(
+    @CurrentUser() user: any,
+    @Body() changePasswordDto: ChangePasswordDto
+  ) {
+    return this.usersService.changePassword(user.id, changePasswordDto);
+  }
+
+  @Post('profile/data-exports')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Solicitar exportación de mis datos',
+    description:
+      'Genera en segundo plano un archivo con el perfil, direcciones, carritos, pedidos, pagos y notificaciones del usuario autenticado',
+  })
+  @ApiBody({ type: RequestDataExportDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Exportación solicitada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Ya hay una exportación en curso',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Acción bloqueada durante una suplantación',
+  })
+  requestDataExport(
+    @CurrentUser() user: any,
+    @Body() requestDataExportDto: RequestDataExportDto
+  ) {
+    return this.dataExportService.requestExport(
+      user.id,
+      requestDataExportDto.format
+    );
+  }
+
+  @Get('profile/data-exports')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Obtener mis exportaciones de datos',
+    description:
+      'Lista las exportaciones de datos del usuario autenticado y su estado',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Exportaciones obtenidas exitosamente',
+  })
+  getDataExports(@CurrentUser() user: any) {
+    return this.dataExportService.findExports(user.id);
+  }
+
+  @Get('profile/data-exports/:exportId/download')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Descargar exportación de datos',
+    description: 'Descarga el archivo de una exportación completada',
+  })
+  @ApiParam({ name: 'exportId', description: 'ID de la exportación' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Archivo de la exportación',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Exportación no encontrada, pendiente o caducada',
+  })
+  async downloadDataExport(
+    @CurrentUser() user: any,
+    @Param('exportId') exportId: string,
+    @Res() res: Response
+  ) {
+    this.sendDataExport(
+      res,
+      await this.dataExportService.getArchive(user.id, exportId)
+    );
+  }
+
+  @Post('profile/erasure')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Solicitar eliminación de mi cuenta',
+    description:
+      'Envía al email del usuario autenticado un enlace de un solo uso para confirmar la eliminación. No requiere contraseña, por lo que sirve también para cuentas creadas con proveedores externos o enlace mágico',
+  })
+  @ApiBody({ type: ScheduleAccountErasureDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Enlace de confirmación enviado',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Eliminación ya programada o pedidos en curso',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Acción bloqueada durante una suplantación',
+  })
+  requestErasure(
+    @CurrentUser() user: any,
+    @Body() scheduleAccountErasureDto: ScheduleAccountErasureDto
+  ) {
+    return this.accountErasureService.requestErasure(
+      user.id,
+      scheduleAccountErasureDto.reason
+    );
+  }
+
+  @Post('profile/erasure/confirm')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Confirmar eliminación de mi cuenta',
+    description:
+      'Confirma la solicitud con el token del email y programa la anonimización de los datos personales tras un periodo de gracia durante el que se puede cancelar',
+  })
+  @ApiBody({ type: ConfirmAccountErasureDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Eliminación programada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Token inválido o expirado',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Eliminación ya programada o pedidos en curso',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Acción bloqueada durante una suplantación',
+  })
+  confirmErasure(
+    @CurrentUser() user: any,
+    @Body() confirmAccountErasureDto: ConfirmAccountErasureDto
   ) {
-    return this.usersService.update(user.id, updateUserDto);
+    return this.accountErasureService.confirmErasure(
+      user.id,
+      confirmAccountErasureDto.token
+    );
+  }
+
+  @Get('profile/erasure')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Consultar eliminación de mi cuenta',
+    description:
+      'Obtiene la eliminación programada del usuario autenticado, si la hay',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Eliminación programada o null',
+  })
+  getErasure(@CurrentUser() user: any) {
+    return this.accountErasureService.getPendingErasure(user.id);
+  }
+
+  @Delete('profile/erasure')
+  @DisallowImpersonation()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Cancelar eliminación de mi cuenta',
+    description:
+      'Cancela la eliminación programada mientras dure el periodo de gracia',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Eliminación cancelada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'No hay ninguna eliminación programada',
+  })
+  cancelErasure(@CurrentUser() user: any) {
+    return this.accountErasureService.cancelErasure(user.id);
   }
 
   @Get(':id')
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.USERS_READ)
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Obtener usuario por ID',
     description:
-      'Obtiene un usuario específico por su ID (solo administradores)',
+      'Obtiene un usuario específico por su ID (administradores y soporte)',
   })
   @ApiParam({ name: 'id', description: 'ID del usuario' })
   @ApiResponse({
@@ -174,6 +396,192 @@ export class UsersController {
     return this.usersService.findOne(id);
   }
 
+  @Get(':id/sessions')
+  @RequirePermissions(Permission.USERS_READ)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Obtener sesiones de un usuario',
+    description:
+      'Lista las sesiones activas de un usuario (administradores y soporte)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del usuario' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sesiones obtenidas exitosamente',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Usuario no encontrado',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  getSessions(@Param('id') id: string) {
+    return this.usersService.getSessions(id);
+  }
+
+  @Delete(':id/sessions')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Forzar cierre de sesión',
+    description:
+      'Revoca todas las sesiones y tokens de un usuario (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del usuario' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sesiones cerradas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Usuario no encontrado',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  forceLogout(@Param('id') id: string) {
+    return this.usersService.forceLogout(id);
+  }
+
+  @Post(':id/erasure')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Programar eliminación de un usuario',
+    description:
+      'Programa la anonimización de los datos personales de un usuario con el mismo periodo de gracia (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del usuario' })
+  @ApiBody({ type: ScheduleAccountErasureDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Eliminación programada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Eliminación ya programada o pedidos en curso',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  scheduleUserErasure(
+    @CurrentUser() admin: any,
+    @Param('id') id: string,
+    @Body() scheduleAccountErasureDto: ScheduleAccountErasureDto
+  ) {
+    return this.accountErasureService.scheduleErasureForUser(
+      id,
+      admin.id,
+      scheduleAccountErasureDto.reason
+    );
+  }
+
+  @Delete(':id/erasure')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Cancelar eliminación de un usuario',
+    description:
+      'Cancela la eliminación programada de un usuario (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del usuario' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Eliminación cancelada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'No hay ninguna eliminación programada',
+  })
+  cancelUserErasure(@Param('id') id: string) {
+    return this.accountErasureService.cancelErasure(id);
+  }
+
+  @Post(':id/data-exports')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Exportar datos de un usuario',
+    description:
+      'Genera la exportación de datos personales de un usuario para atender una solicitud (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del usuario' })
+  @ApiBody({ type: RequestDataExportDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Exportación solicitada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Usuario no encontrado',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'No tienes permisos para realizar esta acción',
+  })
+  requestUserDataExport(
+    @CurrentUser() admin: any,
+    @Param('id') id: string,
+    @Body() requestDataExportDto: RequestDataExportDto
+  ) {
+    return this.dataExportService.requestExport(
+      id,
+      requestDataExportDto.format,
+      admin.id
+    );
+  }
+
+  @Get(':id/data-exports')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Obtener exportaciones de un usuario',
+    description:
+      'Lista las exportaciones de datos de un usuario (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del usuario' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Exportaciones obtenidas exitosamente',
+  })
+  getUserDataExports(@Param('id') id: string) {
+    return this.dataExportService.findExports(id);
+  }
+
+  @Get(':id/data-exports/:exportId/download')
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Descargar exportación de un usuario',
+    description:
+      'Descarga el archivo de una exportación completada (solo administradores)',
+  })
+  @ApiParam({ name: 'id', description: 'ID del usuario' })
+  @ApiParam({ name: 'exportId', description: 'ID de la exportación' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Archivo de la exportación',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Exportación no encontrada, pendiente o caducada',
+  })
+  async downloadUserDataExport(
+    @Param('id') id: string,
+    @Param('exportId') exportId: string,
+    @Res() res: Response
+  ) {
+    this.sendDataExport(
+      res,
+      await this.dataExportService.getArchive(id, exportId)
+    );
+  }
+
   @Patch(':id')
   @Roles(UserRole.ADMIN)
   @ApiBearerAuth('JWT-auth')
@@ -227,4 +635,18 @@ export class UsersController {
   remove(@Param('id') id: string) {
     return this.usersService.remove(id);
   }
+
+  // Se responde sin el envoltorio de TransformInterceptor para que el
+  // navegador descargue el archivo tal cual
+  private sendDataExport(
+    res: Response,
+    file: { fileName: string; contentType: string; archive: Buffer }
+  ) {
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`
+    );
+    res.send(file.archive);
+  }
 }
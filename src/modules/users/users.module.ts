@@ -2,15 +2,83 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { AddressesController } from './addresses.controller';
+import { AddressesService } from './addresses.service';
+import { DataExportService } from './data-export.service';
+import { AccountErasureService } from './account-erasure.service';
 import { User, UserSchema } from '@core/domain/entities/user.entity';
+import { Address, AddressSchema } from '@core/domain/entities/address.entity';
+import { Cart, CartSchema } from '@core/domain/entities/cart.entity';
+import { Order, OrderSchema } from '@core/domain/entities/order.entity';
+import { Payment, PaymentSchema } from '../payments/entities/payment.entity';
+import {
+  Notification,
+  NotificationSchema,
+} from '../notifications/entities/notification.entity';
+import {
+  NotificationPreference,
+  NotificationPreferenceSchema,
+} from '../notifications/entities/notification-preference.entity';
+import {
+  DeviceToken,
+  DeviceTokenSchema,
+} from '../notifications/entities/device-token.entity';
+import {
+  Wishlist,
+  WishlistSchema,
+} from '../wishlists/entities/wishlist.entity';
+import { Review, ReviewSchema } from '../reviews/entities/review.entity';
+import {
+  ExternalIdentity,
+  ExternalIdentitySchema,
+} from '../auth/entities/external-identity.entity';
+import {
+  LoginAttempt,
+  LoginAttemptSchema,
+} from '../auth/entities/login-attempt.entity';
+import { DataExport, DataExportSchema } from './entities/data-export.entity';
+import {
+  ErasureRequest,
+  ErasureRequestSchema,
+} from './entities/erasure-request.entity';
 import { PasswordService } from '@shared/utils/password.service';
+import { AuthModule } from '../auth/auth.module';
+import { UtilsModule } from '@shared/utils/utils.module';
+import { ReviewsModule } from '../reviews/reviews.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: Address.name, schema: AddressSchema },
+      { name: Cart.name, schema: CartSchema },
+      { name: Order.name, schema: OrderSchema },
+      { name: Payment.name, schema: PaymentSchema },
+      { name: Notification.name, schema: NotificationSchema },
+      {
+        name: NotificationPreference.name,
+        schema: NotificationPreferenceSchema,
+      },
+      { name: DeviceToken.name, schema: DeviceTokenSchema },
+      { name: Wishlist.name, schema: WishlistSchema },
+      { name: Review.name, schema: ReviewSchema },
+      { name: ExternalIdentity.name, schema: ExternalIdentitySchema },
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
+      { name: DataExport.name, schema: DataExportSchema },
+      { name: ErasureRequest.name, schema: ErasureRequestSchema },
+    ]),
+    AuthModule,
+    UtilsModule,
+    ReviewsModule,
+  ],
+  controllers: [UsersController, AddressesController],
+  providers: [
+    UsersService,
+    AddressesService,
+    DataExportService,
+    AccountErasureService,
+    PasswordService,
   ],
-  controllers: [UsersController],
-  providers: [UsersService, PasswordService],
   exports: [UsersService],
 })
 export class UsersModule {}
\ No newline at end of file
@@ -11,12 +11,20 @@ import { UpdateUserDto } from './dto/update-user.dto';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { PasswordService } from '@shared/utils/password.service';
+import { PasswordPolicy } from '@shared/utils/password.policy';
+import { SessionService } from '../auth/session.service';
+import { TokenService } from '../auth/token.service';
+import { EmailVerificationService } from '../auth/email-verification.service';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectModel(User.name) private userModel: Model<User>,
-    private passwordService: PasswordService
+    private passwordService: PasswordService,
+    private passwordPolicy: PasswordPolicy,
+    private sessionService: SessionService,
+    private tokenService: TokenService,
+    private emailVerificationService: EmailVerificationService
   ) {}
 
   async create(createUserDto: CreateUserDto): Promise<User> {
@@ -29,6 +37,8 @@ export class UsersService {
       throw new ConflictException('User with this email already exists');
     }
 
+    await this.passwordPolicy.assertValid(password);
+
     // Hash password
     const hashedPassword = await this.passwordService.hashPassword(password);
 
@@ -98,13 +108,15 @@ export class UsersService {
   }
 
   async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
-    const user = await this.userModel.findById(id);
+    const user = await this.userModel.findById(id).select('+passwordHistory');
     if (!user || user.isDeleted) {
       throw new NotFoundException('User not found');
     }
 
     // Check if email is being changed and if it's already taken
-    if (updateUserDto.email && updateUserDto.email !== user.email) {
+    const emailChanged =
+      !!updateUserDto.email && updateUserDto.email !== user.email;
+    if (emailChanged) {
       const existingUser = await this.userModel.findOne({
         email: updateUserDto.email,
         _id: { $ne: id },
@@ -114,17 +126,29 @@ export class UsersService {
       }
     }
 
-    // Hash password if provided
+    // Validate and hash password if provided
+    const update: any = { ...updateUserDto };
     if (updateUserDto.password) {
-      updateUserDto.password = await this.passwordService.hashPassword(
+      await this.passwordPolicy.assertValid(updateUserDto.password, user);
+      update.password = await this.passwordService.hashPassword(
         updateUserDto.password
       );
+      update.passwordHistory = this.passwordPolicy.buildHistory(user);
+    }
+    if (emailChanged) {
+      update.emailVerified = false;
+      update.emailVerifiedAt = null;
     }
 
     const updatedUser = await this.userModel
-      .findByIdAndUpdate(id, updateUserDto, { new: true })
+      .findByIdAndUpdate(id, update, { new: true })
       .select('-password');
 
+    // El nuevo email debe verificarse de nuevo
+    if (emailChanged) {
+      await this.emailVerificationService.sendVerification(updatedUser);
+    }
+
     return updatedUser;
   }
 
@@ -138,7 +162,9 @@ export class UsersService {
     }
 
     // Check if email is being changed and if it's already taken
-    if (updateProfileDto.email && updateProfileDto.email !== user.email) {
+    const emailChanged =
+      !!updateProfileDto.email && updateProfileDto.email !== user.email;
+    if (emailChanged) {
       const existingUser = await this.userModel.findOne({
         email: updateProfileDto.email,
         _id: { $ne: id },
@@ -148,10 +174,21 @@ export class UsersService {
       }
     }
 
+    const update: any = { ...updateProfileDto };
+    if (emailChanged) {
+      update.emailVerified = false;
+      update.emailVerifiedAt = null;
+    }
+
     const updatedUser = await this.userModel
-      .findByIdAndUpdate(id, updateProfileDto, { new: true })
+      .findByIdAndUpdate(id, update, { new: true })
       .select('-password');
 
+    // El nuevo email debe verificarse de nuevo
+    if (emailChanged) {
+      await this.emailVerificationService.sendVerification(updatedUser);
+    }
+
     return updatedUser;
   }
 
@@ -161,7 +198,7 @@ export class UsersService {
   ): Promise<void> {
     const { currentPassword, newPassword } = changePasswordDto;
 
-    const user = await this.userModel.findById(id);
+    const user = await this.userModel.findById(id).select('+passwordHistory');
     if (!user || user.isDeleted) {
       throw new NotFoundException('User not found');
     }
@@ -175,19 +212,16 @@ export class UsersService {
       throw new ConflictException('Current password is incorrect');
     }
 
-    // Validate new password strength
-    const passwordValidation =
-      this.passwordService.validatePasswordStrength(newPassword);
-    if (!passwordValidation.isValid) {
-      throw new ConflictException(
-        `Password validation failed: ${passwordValidation.errors.join(', ')}`
-      );
-    }
+    // Validate new password against the password policy and history
+    await this.passwordPolicy.assertValid(newPassword, user);
 
     // Hash and update new password
     const hashedNewPassword =
       await this.passwordService.hashPassword(newPassword);
-    await this.userModel.findByIdAndUpdate(id, { password: hashedNewPassword });
+    await this.userModel.findByIdAndUpdate(id, {
+      password: hashedNewPassword,
+      passwordHistory: this.passwordPolicy.buildHistory(user),
+    });
   }
 
   async deactivate(id: string): Promise<User> {
@@ -226,6 +260,19 @@ export class UsersService {
     }
   }
 
+  async getSessions(id: string) {
+    await this.findOne(id);
+    return this.sessionService.findActiveForUser(id);
+  }
+
+  /**
+   * Cierra todas las sesiones del usuario e invalida sus access tokens
+   */
+  async forceLogout(id: string): Promise<void> {
+    await this.findOne(id);
+    await this.tokenService.revokeAllForUser(id);
+  }
+
   async getUserStats() {
     const [totalUsers, activeUsers, adminUsers, customerUsers] =
       await Promise.all([
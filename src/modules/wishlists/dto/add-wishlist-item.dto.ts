@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsMongoId } from 'class-validator';
+
+export class AddWishlistItemDto {
+  @ApiProperty({
+    description: 'ID del producto',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsMongoId()
+  productId: string;
+}
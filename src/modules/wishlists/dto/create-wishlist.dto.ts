@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateWishlistDto {
+  @ApiProperty({
+    description: 'Nombre de la lista de deseos',
+    example: 'Regalos de cumpleaños',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateWishlistDto } from './create-wishlist.dto';
+
+export class UpdateWishlistDto extends PartialType(CreateWishlistDto) {}
@@ -0,0 +1,49 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BaseEntity } from '@core/domain/entities/base.entity';
+
+@Schema({ _id: false })
+export class WishlistItem {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  productId: Types.ObjectId;
+
+  // Precio efectivo al guardar el producto, referencia para las bajadas
+  @Prop({ required: true })
+  priceWhenAdded: number;
+
+  // Último precio del que se avisó, para no repetir el mismo aviso
+  @Prop()
+  lastNotifiedPrice?: number;
+
+  @Prop({ default: Date.now })
+  addedAt: Date;
+}
+
+/**
+ * Lista de deseos con nombre. Cada usuario puede tener varias y compartirlas
+ * en modo lectura mediante un enlace público.
+ */
+@Schema({ collection: 'wishlists' })
+export class Wishlist extends BaseEntity {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ default: false })
+  isDefault: boolean;
+
+  @Prop({ type: [WishlistItem], default: [] })
+  items: WishlistItem[];
+
+  @Prop({ unique: true, sparse: true })
+  shareToken?: string;
+
+  @Prop()
+  sharedAt?: Date;
+}
+
+export const WishlistSchema = SchemaFactory.createForClass(Wishlist);
+
+WishlistSchema.index({ 'items.productId': 1 });
@@ -0,0 +1,267 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiParam,
+} from '@nestjs/swagger';
+import { WishlistsService } from './wishlists.service';
+import { CreateWishlistDto } from './dto/create-wishlist.dto';
+import { UpdateWishlistDto } from './dto/update-wishlist.dto';
+import { AddWishlistItemDto } from './dto/add-wishlist-item.dto';
+import { CurrentUser } from '@shared/decorators/current-user.decorator';
+
+@ApiTags('wishlists')
+@Controller('wishlists')
+@ApiBearerAuth('JWT-auth')
+export class WishlistsController {
+  constructor(private readonly wishlistsService: WishlistsService) {}
+
+  @Get('shared/:shareToken')
+  @ApiOperation({
+    summary: 'Ver lista de deseos compartida',
+    description:
+      'Obtiene en modo lectura una lista de deseos a partir de su enlace público',
+  })
+  @ApiParam({ name: 'shareToken', description: 'Token del enlace público' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de deseos obtenida exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lista no encontrada o enlace desactivado',
+  })
+  findShared(@Param('shareToken') shareToken: string) {
+    return this.wishlistsService.findShared(shareToken);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get()
+  @ApiOperation({
+    summary: 'Obtener listas de deseos',
+    description:
+      'Obtiene las listas de deseos del usuario autenticado, con la predeterminada primero',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Listas de deseos obtenidas exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Token JWT inválido o expirado',
+  })
+  findAll(@CurrentUser() user: any) {
+    return this.wishlistsService.findAll(user.id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post()
+  @ApiOperation({
+    summary: 'Crear lista de deseos',
+    description:
+      'Crea una lista de deseos con nombre. La primera lista del usuario es la predeterminada',
+  })
+  @ApiBody({ type: CreateWishlistDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Lista de deseos creada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Ya existe una lista con ese nombre',
+  })
+  create(
+    @CurrentUser() user: any,
+    @Body() createWishlistDto: CreateWishlistDto
+  ) {
+    return this.wishlistsService.create(user.id, createWishlistDto);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post('items')
+  @ApiOperation({
+    summary: 'Guardar producto en la lista predeterminada',
+    description:
+      'Añade un producto a la lista de deseos predeterminada, creándola si el usuario no tiene ninguna',
+  })
+  @ApiBody({ type: AddWishlistItemDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Producto guardado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El producto ya está en la lista',
+  })
+  addItemToDefault(
+    @CurrentUser() user: any,
+    @Body() addWishlistItemDto: AddWishlistItemDto
+  ) {
+    return this.wishlistsService.addItem(user.id, addWishlistItemDto.productId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Obtener lista de deseos',
+    description:
+      'Obtiene una lista de deseos con el precio actual de cada producto y su bajada desde que se guardó',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la lista de deseos' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de deseos obtenida exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lista de deseos no encontrada',
+  })
+  findOne(@CurrentUser() user: any, @Param('id') id: string) {
+    return this.wishlistsService.findOne(user.id, id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Renombrar lista de deseos',
+    description: 'Cambia el nombre de una lista de deseos',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la lista de deseos' })
+  @ApiBody({ type: UpdateWishlistDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de deseos actualizada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lista de deseos no encontrada',
+  })
+  update(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() updateWishlistDto: UpdateWishlistDto
+  ) {
+    return this.wishlistsService.update(user.id, id, updateWishlistDto);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Eliminar lista de deseos',
+    description:
+      'Elimina una lista de deseos y los productos guardados en ella',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la lista de deseos' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Lista de deseos eliminada exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lista de deseos no encontrada',
+  })
+  remove(@CurrentUser() user: any, @Param('id') id: string) {
+    return this.wishlistsService.remove(user.id, id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/items')
+  @ApiOperation({
+    summary: 'Guardar producto en una lista',
+    description: 'Añade un producto a la lista de deseos indicada',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la lista de deseos' })
+  @ApiBody({ type: AddWishlistItemDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Producto guardado exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Lista o producto no encontrado',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'El producto ya está en la lista',
+  })
+  addItem(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Body() addWishlistItemDto: AddWishlistItemDto
+  ) {
+    return this.wishlistsService.addItem(
+      user.id,
+      addWishlistItemDto.productId,
+      id
+    );
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id/items/:productId')
+  @ApiOperation({
+    summary: 'Quitar producto de una lista',
+    description: 'Elimina un producto de la lista de deseos',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la lista de deseos' })
+  @ApiParam({ name: 'productId', description: 'ID del producto' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Producto eliminado de la lista exitosamente',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Producto no encontrado en la lista',
+  })
+  removeItem(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Param('productId') productId: string
+  ) {
+    return this.wishlistsService.removeItem(user.id, id, productId);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Post(':id/share')
+  @ApiOperation({
+    summary: 'Compartir lista de deseos',
+    description:
+      'Genera un enlace público de solo lectura para la lista de deseos',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la lista de deseos' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Enlace generado exitosamente',
+  })
+  share(@CurrentUser() user: any, @Param('id') id: string) {
+    return this.wishlistsService.share(user.id, id);
+  }
+
+  @UseGuards(AuthGuard('jwt'))
+  @Delete(':id/share')
+  @ApiOperation({
+    summary: 'Dejar de compartir lista de deseos',
+    description: 'Desactiva el enlace público de la lista de deseos',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la lista de deseos' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Enlace desactivado exitosamente',
+  })
+  unshare(@CurrentUser() user: any, @Param('id') id: string) {
+    return this.wishlistsService.unshare(user.id, id);
+  }
+}
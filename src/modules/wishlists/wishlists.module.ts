@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { WishlistsController } from './wishlists.controller';
+import { WishlistsService } from './wishlists.service';
+import { Wishlist, WishlistSchema } from './entities/wishlist.entity';
+import { Product, ProductSchema } from '@core/domain/entities/product.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Wishlist.name, schema: WishlistSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+    NotificationsModule,
+  ],
+  controllers: [WishlistsController],
+  providers: [WishlistsService],
+  exports: [WishlistsService],
+})
+export class WishlistsModule {}
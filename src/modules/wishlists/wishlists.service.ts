@@ -0,0 +1,393 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { Wishlist } from './entities/wishlist.entity';
+import { Product } from '@core/domain/entities/product.entity';
+import { CreateWishlistDto } from './dto/create-wishlist.dto';
+import { UpdateWishlistDto } from './dto/update-wishlist.dto';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  ProductBackInStockEvent,
+  ProductPriceChangedEvent,
+} from '@shared/patterns/event-handler.service';
+import { getEffectivePrice } from '@shared/utils/product-price';
+
+const DEFAULT_WISHLIST_NAME = 'Favoritos';
+
+const PRODUCT_FIELDS =
+  'name price discountPrice images stock isActive isDeleted';
+
+@Injectable()
+export class WishlistsService {
+  private readonly logger = new Logger(WishlistsService.name);
+  private readonly maxWishlistsPerUser = 20;
+  private readonly maxItemsPerWishlist = 100;
+
+  constructor(
+    @InjectModel(Wishlist.name) private wishlistModel: Model<Wishlist>,
+    @InjectModel(Product.name) private productModel: Model<Product>,
+    private notificationsService: NotificationsService,
+    private configService: ConfigService
+  ) {}
+
+  async findAll(userId: string) {
+    const wishlists = await this.wishlistModel
+      .find({ userId })
+      .sort({ isDefault: -1, createdAt: 1 });
+
+    return wishlists.map((wishlist) => this.toSummary(wishlist));
+  }
+
+  /**
+   * Crea una lista de deseos. La primera del usuario es la predeterminada.
+   */
+  async create(userId: string, createWishlistDto: CreateWishlistDto) {
+    const count = await this.wishlistModel.countDocuments({ userId });
+    if (count >= this.maxWishlistsPerUser) {
+      throw new BadRequestException(
+        `You can create up to ${this.maxWishlistsPerUser} wishlists`
+      );
+    }
+    await this.assertNameAvailable(userId, createWishlistDto.name);
+
+    const wishlist = await this.wishlistModel.create({
+      userId,
+      name: createWishlistDto.name.trim(),
+      isDefault: count === 0,
+    });
+
+    return this.toSummary(wishlist);
+  }
+
+  async findOne(userId: string, wishlistId: string) {
+    const wishlist = await this.findOwned(userId, wishlistId);
+    return this.toDetail(wishlist);
+  }
+
+  async update(
+    userId: string,
+    wishlistId: string,
+    updateWishlistDto: UpdateWishlistDto
+  ) {
+    const wishlist = await this.findOwned(userId, wishlistId);
+
+    if (updateWishlistDto.name && updateWishlistDto.name !== wishlist.name) {
+      await this.assertNameAvailable(userId, updateWishlistDto.name);
+      wishlist.name = updateWishlistDto.name.trim();
+      await wishlist.save();
+    }
+
+    return this.toSummary(wishlist);
+  }
+
+  /**
+   * Elimina una lista. Si era la predeterminada, la más antigua de las
+   * restantes ocupa su lugar.
+   */
+  async remove(userId: string, wishlistId: string) {
+    const wishlist = await this.findOwned(userId, wishlistId);
+    await this.wishlistModel.deleteOne({ _id: wishlist._id });
+
+    if (wishlist.isDefault) {
+      await this.wishlistModel.findOneAndUpdate(
+        { userId },
+        { isDefault: true },
+        { sort: { createdAt: 1 } }
+      );
+    }
+
+    return { message: 'Wishlist deleted successfully' };
+  }
+
+  /**
+   * Añade un producto a la lista indicada o, si no se indica, a la lista
+   * predeterminada, que se crea si el usuario todavía no tiene ninguna
+   */
+  async addItem(userId: string, productId: string, wishlistId?: string) {
+    const wishlist = wishlistId
+      ? await this.findOwned(userId, wishlistId)
+      : await this.findOrCreateDefault(userId);
+
+    const product = await this.productModel.findById(productId);
+    if (!product || !product.isActive || product.isDeleted) {
+      throw new NotFoundException('Product not found');
+    }
+
+    if (wishlist.items.some((item) => item.productId.equals(product._id))) {
+      throw new ConflictException('Product is already in this wishlist');
+    }
+    if (wishlist.items.length >= this.maxItemsPerWishlist) {
+      throw new BadRequestException(
+        `A wishlist can hold up to ${this.maxItemsPerWishlist} products`
+      );
+    }
+
+    wishlist.items.push({
+      productId: product._id,
+      priceWhenAdded: getEffectivePrice(product),
+      addedAt: new Date(),
+    });
+    await wishlist.save();
+
+    return this.toDetail(wishlist);
+  }
+
+  async removeItem(userId: string, wishlistId: string, productId: string) {
+    const wishlist = await this.findOwned(userId, wishlistId);
+
+    const index = wishlist.items.findIndex(
+      (item) => item.productId.toString() === productId
+    );
+    if (index === -1) {
+      throw new NotFoundException('Product not found in wishlist');
+    }
+
+    wishlist.items.splice(index, 1);
+    await wishlist.save();
+
+    return this.toDetail(wishlist);
+  }
+
+  /**
+   * Genera el enlace público de solo lectura. Si la lista ya estaba
+   * compartida se devuelve el mismo enlace.
+   */
+  async share(userId: string, wishlistId: string) {
+    const wishlist = await this.findOwned(userId, wishlistId);
+
+    if (!wishlist.shareToken) {
+      wishlist.shareToken = crypto.randomBytes(24).toString('base64url');
+      wishlist.sharedAt = new Date();
+      await wishlist.save();
+    }
+
+    return {
+      shareToken: wishlist.shareToken,
+      shareUrl: this.getShareUrl(wishlist.shareToken),
+    };
+  }
+
+  /**
+   * Desactiva el enlace público; al volver a compartir se genera otro
+   */
+  async unshare(userId: string, wishlistId: string) {
+    const wishlist = await this.findOwned(userId, wishlistId);
+
+    await this.wishlistModel.updateOne(
+      { _id: wishlist._id },
+      { $unset: { shareToken: 1, sharedAt: 1 } }
+    );
+
+    return { message: 'Wishlist is no longer shared' };
+  }
+
+  async findShared(shareToken: string) {
+    const wishlist = await this.wishlistModel.findOne({ shareToken });
+    if (!wishlist) {
+      throw new NotFoundException('Wishlist not found');
+    }
+
+    const { name, items } = await this.toDetail(wishlist);
+    return {
+      name,
+      // Solo productos que siguen a la venta y sin datos del seguimiento
+      items: items
+        .filter((item) => item.available)
+        .map(({ priceWhenAdded, priceDrop, ...item }) => item),
+    };
+  }
+
+  // ==================== EVENT LISTENERS ====================
+
+  @OnEvent('product.back.in.stock')
+  async handleProductBackInStock(
+    event: ProductBackInStockEvent
+  ): Promise<void> {
+    try {
+      const userIds = await this.wishlistModel.distinct('userId', {
+        'items.productId': event.productId,
+      });
+
+      for (const userId of userIds) {
+        await this.notificationsService.sendProductBackInStock(
+          userId.toString(),
+          {
+            productId: event.productId,
+            productName: event.productData?.name,
+          }
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error manejando evento producto disponible:', error);
+    }
+  }
+
+  /**
+   * Avisa de las bajadas de precio de al menos WISHLIST_PRICE_DROP_PERCENT
+   * (por defecto 5) respecto al precio al guardar el producto o al último
+   * aviso enviado
+   */
+  @OnEvent('product.price.changed')
+  async handleProductPriceChanged(
+    event: ProductPriceChangedEvent
+  ): Promise<void> {
+    if (event.currentPrice >= event.previousPrice) return;
+
+    try {
+      const wishlists = await this.wishlistModel.find({
+        'items.productId': event.productId,
+      });
+
+      const notifiedUsers = new Set<string>();
+      for (const wishlist of wishlists) {
+        const item = wishlist.items.find(
+          (wishlistItem) =>
+            wishlistItem.productId.toString() === event.productId
+        );
+        const referencePrice = Math.min(
+          item.priceWhenAdded,
+          item.lastNotifiedPrice ?? Infinity
+        );
+        if (!this.isPriceDrop(referencePrice, event.currentPrice)) continue;
+
+        await this.wishlistModel.updateOne(
+          { _id: wishlist._id, 'items.productId': item.productId },
+          { $set: { 'items.$.lastNotifiedPrice': event.currentPrice } }
+        );
+
+        const userId = wishlist.userId.toString();
+        if (notifiedUsers.has(userId)) continue;
+        notifiedUsers.add(userId);
+
+        await this.notificationsService.sendPriceDrop(userId, {
+          productId: event.productId,
+          productName: event.productData?.name,
+          previousPrice: referencePrice,
+          currentPrice: event.currentPrice,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error manejando evento precio actualizado:', error);
+    }
+  }
+
+  // ==================== MÉTODOS PRIVADOS ====================
+
+  private async findOwned(
+    userId: string,
+    wishlistId: string
+  ): Promise<Wishlist> {
+    if (!Types.ObjectId.isValid(wishlistId)) {
+      throw new NotFoundException('Wishlist not found');
+    }
+
+    const wishlist = await this.wishlistModel.findOne({
+      _id: wishlistId,
+      userId,
+    });
+    if (!wishlist) {
+      throw new NotFoundException('Wishlist not found');
+    }
+
+    return wishlist;
+  }
+
+  private async findOrCreateDefault(userId: string): Promise<Wishlist> {
+    const wishlist = await this.wishlistModel.findOne({
+      userId,
+      isDefault: true,
+    });
+    if (wishlist) return wishlist;
+
+    return this.wishlistModel.create({
+      userId,
+      name: DEFAULT_WISHLIST_NAME,
+      isDefault: true,
+    });
+  }
+
+  private async assertNameAvailable(
+    userId: string,
+    name: string
+  ): Promise<void> {
+    const exists = await this.wishlistModel.exists({
+      userId,
+      name: name.trim(),
+    });
+    if (exists) {
+      throw new ConflictException('A wishlist with this name already exists');
+    }
+  }
+
+  private isPriceDrop(referencePrice: number, currentPrice: number): boolean {
+    const minDropPercent =
+      Number(this.configService.get<string>('WISHLIST_PRICE_DROP_PERCENT')) ||
+      5;
+    return (
+      referencePrice > 0 &&
+      ((referencePrice - currentPrice) / referencePrice) * 100 >= minDropPercent
+    );
+  }
+
+  private getShareUrl(shareToken: string): string {
+    return `${this.configService.get<string>('FRONTEND_URL')}/wishlists/shared/${shareToken}`;
+  }
+
+  private toSummary(wishlist: Wishlist) {
+    return {
+      id: wishlist._id,
+      name: wishlist.name,
+      isDefault: wishlist.isDefault,
+      itemCount: wishlist.items.length,
+      shareUrl: wishlist.shareToken
+        ? this.getShareUrl(wishlist.shareToken)
+        : undefined,
+      createdAt: wishlist.createdAt,
+      updatedAt: wishlist.updatedAt,
+    };
+  }
+
+  /**
+   * Detalle de la lista con el precio actual de cada producto y la bajada
+   * respecto al precio que tenía al guardarlo
+   */
+  private async toDetail(wishlist: Wishlist) {
+    const products = await this.productModel
+      .find({ _id: { $in: wishlist.items.map((item) => item.productId) } })
+      .select(PRODUCT_FIELDS);
+    const productsById = new Map(
+      products.map((product) => [product._id.toString(), product])
+    );
+
+    const items = wishlist.items.map((item) => {
+      const product = productsById.get(item.productId.toString());
+      const currentPrice = product ? getEffectivePrice(product) : undefined;
+
+      return {
+        productId: item.productId,
+        name: product?.name,
+        imageUrl: product?.images?.[0]?.url,
+        currentPrice,
+        priceWhenAdded: item.priceWhenAdded,
+        priceDrop:
+          currentPrice !== undefined && currentPrice < item.priceWhenAdded
+            ? Number((item.priceWhenAdded - currentPrice).toFixed(2))
+            : 0,
+        inStock: !!product && product.stock > 0,
+        available: !!product && product.isActive && !product.isDeleted,
+        addedAt: item.addedAt,
+      };
+    });
+
+    return { ...this.toSummary(wishlist), items };
+  }
+}
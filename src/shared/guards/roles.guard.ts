@@ -0,0 +1,79 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { UserRole } from '@core/domain/entities/user.entity';
+import { Permission, hasPermissions } from '@core/domain/permissions';
+import { TwoFactorPolicy } from '../utils/two-factor.policy';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+
+/**
+ * Guard global que aplica los metadatos de @Roles y @RequirePermissions.
+ * Los guards globales se ejecutan antes que los de controlador, por lo que
+ * si la ruta exige roles o permisos y aún no hay usuario en la petición,
+ * se autentica aquí mismo con JWT o, en su defecto, con una API key.
+ */
+@Injectable()
+export class RolesGuard extends AuthGuard(['jwt', 'api-key']) {
+  constructor(
+    private reflector: Reflector,
+    private twoFactorPolicy: TwoFactorPolicy
+  ) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()]
+    );
+    const requiredPermissions = this.reflector.getAllAndOverride<
+      Permission[]
+    >(PERMISSIONS_KEY, [context.getHandler(), context.getClass()]);
+
+    if (!requiredRoles?.length && !requiredPermissions?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    if (!request.user) {
+      await super.canActivate(context);
+    }
+
+    const { user } = request;
+
+    if (requiredRoles?.length && !requiredRoles.includes(user.role)) {
+      throw new ForbiddenException(
+        'You do not have the required role to access this resource'
+      );
+    }
+
+    if (
+      requiredPermissions?.length &&
+      !this.isGranted(user, requiredPermissions)
+    ) {
+      throw new ForbiddenException(
+        `Missing required permissions: ${requiredPermissions.join(', ')}`
+      );
+    }
+
+    // Las rutas privilegiadas exigen 2FA si el rol del usuario lo requiere
+    this.twoFactorPolicy.assertSatisfied(user);
+
+    return true;
+  }
+
+  // Las API keys no tienen rol: sus permisos son los scopes de la clave
+  private isGranted(user: any, permissions: Permission[]): boolean {
+    if (user.apiKeyId) {
+      return permissions.every((permission) =>
+        user.scopes.includes(permission)
+      );
+    }
+    return hasPermissions(user.role, permissions);
+  }
+}
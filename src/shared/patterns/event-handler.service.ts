@@ -51,6 +51,13 @@ export interface ProductBackInStockEvent {
   productData: any;
 }
 
+export interface ProductPriceChangedEvent {
+  productId: string;
+  previousPrice: number;
+  currentPrice: number;
+  productData: any;
+}
+
 @Injectable()
 export class EventHandlerService {
   private readonly logger = new Logger(EventHandlerService.name);
@@ -125,6 +132,17 @@ export class EventHandlerService {
     }
   }
 
+  emitProductPriceChanged(event: ProductPriceChangedEvent): void {
+    try {
+      this.eventEmitter.emit('product.price.changed', event);
+      this.logger.log(
+        `Evento precio actualizado emitido: ${event.productId} - Precio: ${event.currentPrice}`
+      );
+    } catch (error) {
+      this.logger.error('Error emitiendo evento precio actualizado:', error);
+    }
+  }
+
   // Event listeners
   @OnEvent('order.created')
   async handleOrderCreated(event: OrderCreatedEvent): Promise<void> {
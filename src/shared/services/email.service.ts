@@ -169,6 +169,23 @@ export class EmailService {
                 : ''
             }
 
+            ${
+              orderData.orderLookupUrl
+                ? `
+            <!-- Guest Order Lookup -->
+            <div style="text-align: center; margin: 30px 0;">
+              <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+                Compraste como invitado. Guarda este enlace para consultar el estado de tu pedido:
+              </p>
+              <a href="${orderData.orderLookupUrl}" style="display: inline-block; background-color: #667eea; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: 600; font-size: 16px;">Ver mi pedido</a>
+              <p style="color: #7f8c8d; font-size: 14px; line-height: 1.6; margin: 20px 0 0 0;">
+                Si creas una cuenta con este email podrás verlo también desde tu perfil.
+              </p>
+            </div>
+            `
+                : ''
+            }
+
             <!-- Next Steps -->
             <div style="background-color: #fff3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 30px 0;">
               <h4 style="color: #856404; margin: 0 0 10px 0; font-size: 16px;">¿Qué sigue?</h4>
@@ -763,6 +780,363 @@ export class EmailService {
     });
   }
 
+  async sendPasswordResetEmail(
+    email: string,
+    resetData: any
+  ): Promise<boolean> {
+    const html = `
+      <!DOCTYPE html>
+      <html lang="es">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Restablecer Contraseña</title>
+      </head>
+      <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8f9fa;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 300;">🔑 Restablecer Contraseña</h1>
+            <p style="color: #ffffff; margin: 10px 0 0 0; opacity: 0.9;">Moda Elegante</p>
+          </div>
+
+          <!-- Content -->
+          <div style="padding: 40px 30px;">
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 25px 0;">
+              Hola <strong>${resetData.customerName || 'Cliente'}</strong>,
+            </p>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 30px 0;">
+              Recibimos una solicitud para restablecer la contraseña de tu cuenta.
+              Haz clic en el botón para elegir una nueva contraseña.
+            </p>
+
+            <!-- CTA Button -->
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${resetData.resetUrl}" style="display: inline-block; background-color: #667eea; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: 600; font-size: 16px;">
+                Restablecer Contraseña
+              </a>
+            </div>
+
+            <!-- Expiry Note -->
+            <div style="background-color: #fff3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 30px 0;">
+              <p style="color: #856404; margin: 0; font-size: 14px;">
+                ⏰ Este enlace es de un solo uso y expira en <strong>${resetData.expiresInMinutes || 30} minutos</strong>.
+              </p>
+            </div>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 30px 0 0 0;">
+              Si no solicitaste este cambio, puedes ignorar este mensaje: tu contraseña actual seguirá funcionando.
+            </p>
+          </div>
+
+          <!-- Footer -->
+          <div style="background-color: #2c3e50; padding: 30px; text-align: center;">
+            <p style="color: #bdc3c7; margin: 0 0 10px 0; font-size: 14px;">
+              © 2024 Moda Elegante. Todos los derechos reservados.
+            </p>
+            <p style="color: #95a5a6; margin: 0; font-size: 12px;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: '🔑 Restablece tu contraseña - Moda Elegante',
+      html,
+    });
+  }
+
+  async sendAccountVerificationEmail(
+    email: string,
+    verificationData: any
+  ): Promise<boolean> {
+    const html = `
+      <!DOCTYPE html>
+      <html lang="es">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Verifica tu Email</title>
+      </head>
+      <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8f9fa;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <div style="background: linear-gradient(135deg, #28a745 0%, #20c997 100%); padding: 30px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 300;">✉️ Verifica tu Email</h1>
+            <p style="color: #ffffff; margin: 10px 0 0 0; opacity: 0.9;">Moda Elegante</p>
+          </div>
+
+          <!-- Content -->
+          <div style="padding: 40px 30px;">
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 25px 0;">
+              Hola <strong>${verificationData.customerName || 'Cliente'}</strong>,
+            </p>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 30px 0;">
+              Confirma tu dirección de correo para poder realizar pedidos y pagos en Moda Elegante.
+            </p>
+
+            <!-- CTA Button -->
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${verificationData.verificationUrl}" style="display: inline-block; background-color: #28a745; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: 600; font-size: 16px;">
+                Verificar Email
+              </a>
+            </div>
+
+            <!-- Expiry Note -->
+            <div style="background-color: #d1ecf1; border-left: 4px solid #17a2b8; padding: 20px; margin: 30px 0;">
+              <p style="color: #0c5460; margin: 0; font-size: 14px;">
+                ⏰ Este enlace expira en <strong>${verificationData.expiresInHours || 24} horas</strong>.
+                Puedes solicitar uno nuevo desde tu perfil.
+              </p>
+            </div>
+          </div>
+
+          <!-- Footer -->
+          <div style="background-color: #2c3e50; padding: 30px; text-align: center;">
+            <p style="color: #bdc3c7; margin: 0 0 10px 0; font-size: 14px;">
+              © 2024 Moda Elegante. Todos los derechos reservados.
+            </p>
+            <p style="color: #95a5a6; margin: 0; font-size: 12px;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: '✉️ Verifica tu email - Moda Elegante',
+      html,
+    });
+  }
+
+  async sendMagicLinkEmail(
+    email: string,
+    magicLinkData: any
+  ): Promise<boolean> {
+    const html = `
+      <!DOCTYPE html>
+      <html lang="es">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Accede a tu Cuenta</title>
+      </head>
+      <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8f9fa;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 300;">✨ Accede a tu Cuenta</h1>
+            <p style="color: #ffffff; margin: 10px 0 0 0; opacity: 0.9;">Moda Elegante</p>
+          </div>
+
+          <!-- Content -->
+          <div style="padding: 40px 30px;">
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 25px 0;">
+              Hola <strong>${magicLinkData.customerName || 'Cliente'}</strong>,
+            </p>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 30px 0;">
+              Haz clic en el botón para iniciar sesión en Moda Elegante sin necesidad de contraseña.
+            </p>
+
+            <!-- CTA Button -->
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${magicLinkData.loginUrl}" style="display: inline-block; background-color: #667eea; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: 600; font-size: 16px;">
+                Iniciar Sesión
+              </a>
+            </div>
+
+            <!-- Expiry Note -->
+            <div style="background-color: #fff3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 30px 0;">
+              <p style="color: #856404; margin: 0; font-size: 14px;">
+                ⏰ Este enlace es de un solo uso y expira en <strong>${magicLinkData.expiresInMinutes || 15} minutos</strong>.
+              </p>
+            </div>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 30px 0 0 0;">
+              Si no solicitaste este enlace, puedes ignorar este mensaje: nadie podrá acceder a tu cuenta sin él.
+            </p>
+          </div>
+
+          <!-- Footer -->
+          <div style="background-color: #2c3e50; padding: 30px; text-align: center;">
+            <p style="color: #bdc3c7; margin: 0 0 10px 0; font-size: 14px;">
+              © 2024 Moda Elegante. Todos los derechos reservados.
+            </p>
+            <p style="color: #95a5a6; margin: 0; font-size: 12px;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: '✨ Tu enlace de acceso - Moda Elegante',
+      html,
+    });
+  }
+
+  async sendAccountErasureScheduledEmail(
+    email: string,
+    erasureData: any
+  ): Promise<boolean> {
+    const html = `
+      <!DOCTYPE html>
+      <html lang="es">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Eliminación de Cuenta Programada</title>
+      </head>
+      <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8f9fa;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 300;">Eliminación de Cuenta</h1>
+            <p style="color: #ffffff; margin: 10px 0 0 0; opacity: 0.9;">Moda Elegante</p>
+          </div>
+
+          <!-- Content -->
+          <div style="padding: 40px 30px;">
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 25px 0;">
+              Hola <strong>${erasureData.customerName || 'Cliente'}</strong>,
+            </p>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 30px 0;">
+              Hemos recibido la solicitud para eliminar tu cuenta. El
+              <strong>${new Date(erasureData.scheduledFor).toLocaleDateString(
+                'es-ES',
+                {
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric',
+                }
+              )}</strong>
+              borraremos tus datos personales. Conservaremos de forma anónima los importes de tus pedidos y pagos por obligaciones contables.
+            </p>
+
+            <!-- Grace Period Note -->
+            <div style="background-color: #fff3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 30px 0;">
+              <p style="color: #856404; margin: 0; font-size: 14px;">
+                ⏰ Tienes <strong>${erasureData.graceDays || 30} días</strong> para cancelar la eliminación desde tu perfil. Después no se podrá deshacer.
+              </p>
+            </div>
+
+            <!-- CTA Button -->
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${erasureData.profileUrl}" style="display: inline-block; background-color: #667eea; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: 600; font-size: 16px;">
+                Ir a mi Perfil
+              </a>
+            </div>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 30px 0 0 0;">
+              Si no has solicitado la eliminación, cancela la solicitud y cambia tu contraseña lo antes posible.
+            </p>
+          </div>
+
+          <!-- Footer -->
+          <div style="background-color: #2c3e50; padding: 30px; text-align: center;">
+            <p style="color: #bdc3c7; margin: 0 0 10px 0; font-size: 14px;">
+              © 2024 Moda Elegante. Todos los derechos reservados.
+            </p>
+            <p style="color: #95a5a6; margin: 0; font-size: 12px;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: '⚠️ Eliminación de cuenta programada - Moda Elegante',
+      html,
+    });
+  }
+
+  async sendAccountErasureConfirmationEmail(
+    email: string,
+    confirmationData: any
+  ): Promise<boolean> {
+    const html = `
+      <!DOCTYPE html>
+      <html lang="es">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Confirma la Eliminación de tu Cuenta</title>
+      </head>
+      <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8f9fa;">
+        <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+            <h1 style="color: #ffffff; margin: 0; font-size: 28px; font-weight: 300;">Eliminación de Cuenta</h1>
+            <p style="color: #ffffff; margin: 10px 0 0 0; opacity: 0.9;">Moda Elegante</p>
+          </div>
+
+          <!-- Content -->
+          <div style="padding: 40px 30px;">
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 25px 0;">
+              Hola <strong>${confirmationData.customerName || 'Cliente'}</strong>,
+            </p>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 0 0 30px 0;">
+              Hemos recibido una solicitud para eliminar tu cuenta. Confírmala con el botón para programar el borrado de tus datos personales.
+            </p>
+
+            <!-- CTA Button -->
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${confirmationData.confirmUrl}" style="display: inline-block; background-color: #667eea; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: 600; font-size: 16px;">
+                Confirmar Eliminación
+              </a>
+            </div>
+
+            <!-- Expiry Note -->
+            <div style="background-color: #fff3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 30px 0;">
+              <p style="color: #856404; margin: 0; font-size: 14px;">
+                ⏰ Este enlace es de un solo uso y expira en <strong>${confirmationData.expiresInMinutes || 60} minutos</strong>.
+              </p>
+            </div>
+
+            <p style="color: #34495e; font-size: 16px; line-height: 1.6; margin: 30px 0 0 0;">
+              Si no has solicitado la eliminación, ignora este mensaje y cambia tu contraseña lo antes posible.
+            </p>
+          </div>
+
+          <!-- Footer -->
+          <div style="background-color: #2c3e50; padding: 30px; text-align: center;">
+            <p style="color: #bdc3c7; margin: 0 0 10px 0; font-size: 14px;">
+              © 2024 Moda Elegante. Todos los derechos reservados.
+            </p>
+            <p style="color: #95a5a6; margin: 0; font-size: 12px;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail({
+      to: email,
+      subject: '⚠️ Confirma la eliminación de tu cuenta - Moda Elegante',
+      html,
+    });
+  }
+
   // Método para verificar si el servicio está configurado
   isServiceConfigured(): boolean {
     return this.isConfigured;
@@ -2,6 +2,19 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as admin from 'firebase-admin';
 
+export interface MulticastResult {
+  successCount: number;
+  failureCount: number;
+  // Tokens que Firebase ya no acepta y deben eliminarse del registro
+  invalidTokens: string[];
+}
+
+// Errores de FCM que indican que el token no volverá a ser válido
+const INVALID_TOKEN_ERRORS = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+];
+
 export interface PushNotificationOptions {
   token: string;
   title: string;
@@ -88,7 +101,7 @@ export class PushNotificationService {
     title: string,
     body: string,
     data?: { [key: string]: string }
-  ): Promise<{ successCount: number; failureCount: number }> {
+  ): Promise<MulticastResult> {
     try {
       const message = {
         notification: {
@@ -99,18 +112,27 @@ export class PushNotificationService {
         tokens,
       };
 
-      const response = await admin.messaging().sendMulticast(message);
+      const response = await admin.messaging().sendEachForMulticast(message);
       this.logger.log(
         `Multicast notification sent. Success: ${response.successCount}, Failure: ${response.failureCount}`
       );
 
+      const invalidTokens = tokens.filter((token, index) =>
+        INVALID_TOKEN_ERRORS.includes(response.responses[index]?.error?.code)
+      );
+
       return {
         successCount: response.successCount,
         failureCount: response.failureCount,
+        invalidTokens,
       };
     } catch (error) {
       this.logger.error('Failed to send multicast notification:', error);
-      return { successCount: 0, failureCount: tokens.length };
+      return {
+        successCount: 0,
+        failureCount: tokens.length,
+        invalidTokens: [],
+      };
     }
   }
 
@@ -191,7 +213,7 @@ export class PushNotificationService {
   async sendPromotionalPush(
     tokens: string[],
     promoData: any
-  ): Promise<{ successCount: number; failureCount: number }> {
+  ): Promise<MulticastResult> {
     return this.sendToMultipleDevices(
       tokens,
       `🛍️ ${promoData.title}`,
@@ -295,7 +317,7 @@ export class PushNotificationService {
   async sendLowStockAlertPush(
     tokens: string[],
     productData: any
-  ): Promise<{ successCount: number; failureCount: number }> {
+  ): Promise<MulticastResult> {
     return this.sendToMultipleDevices(
       tokens,
       '⚠️ Stock Limitado',
@@ -311,7 +333,7 @@ export class PushNotificationService {
   async sendFlashSalePush(
     tokens: string[],
     saleData: any
-  ): Promise<{ successCount: number; failureCount: number }> {
+  ): Promise<MulticastResult> {
     return this.sendToMultipleDevices(
       tokens,
       '⚡ Oferta Flash',
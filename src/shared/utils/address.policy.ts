@@ -0,0 +1,70 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+
+interface CountryAddressRules {
+  zipCode: RegExp;
+  zipCodeExample: string;
+}
+
+// Formato del código postal de los países a los que se envía con más
+// frecuencia. El resto de países solo exige un código ISO válido.
+const COUNTRY_RULES: Record<string, CountryAddressRules> = {
+  US: { zipCode: /^\d{5}(-\d{4})?$/, zipCodeExample: '94105' },
+  CA: { zipCode: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/, zipCodeExample: 'K1A 0B1' },
+  MX: { zipCode: /^\d{5}$/, zipCodeExample: '06600' },
+  ES: { zipCode: /^(0[1-9]|[1-4]\d|5[0-2])\d{3}$/, zipCodeExample: '28013' },
+  FR: { zipCode: /^\d{5}$/, zipCodeExample: '75008' },
+  DE: { zipCode: /^\d{5}$/, zipCodeExample: '10115' },
+  IT: { zipCode: /^\d{5}$/, zipCodeExample: '00184' },
+  PT: { zipCode: /^\d{4}-\d{3}$/, zipCodeExample: '1100-148' },
+  GB: {
+    zipCode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    zipCodeExample: 'SW1A 1AA',
+  },
+  BR: { zipCode: /^\d{5}-?\d{3}$/, zipCodeExample: '01310-100' },
+  AR: { zipCode: /^([A-Z]\d{4}[A-Z]{3}|\d{4})$/, zipCodeExample: 'C1002AAP' },
+  CL: { zipCode: /^\d{7}$/, zipCodeExample: '8320000' },
+  CO: { zipCode: /^\d{6}$/, zipCodeExample: '110111' },
+  PE: { zipCode: /^\d{5}$/, zipCodeExample: '15001' },
+};
+
+const ISO_COUNTRY_CODE = /^[A-Z]{2}$/;
+
+/**
+ * Validación de direcciones según el país de destino
+ */
+@Injectable()
+export class AddressPolicy {
+  /**
+   * Devuelve un mensaje por cada campo que no cumple el formato del país
+   */
+  validate(address: { country: string; zipCode: string }): string[] {
+    const errors: string[] = [];
+    const country = address.country?.trim().toUpperCase();
+
+    if (!ISO_COUNTRY_CODE.test(country || '')) {
+      errors.push('Country must be a two-letter ISO 3166-1 code');
+      return errors;
+    }
+
+    const rules = COUNTRY_RULES[country];
+    if (
+      rules &&
+      !rules.zipCode.test(address.zipCode?.trim().toUpperCase() || '')
+    ) {
+      errors.push(
+        `Invalid postal code for ${country}, expected a format like ${rules.zipCodeExample}`
+      );
+    }
+
+    return errors;
+  }
+
+  assertValid(address: { country: string; zipCode: string }): void {
+    const errors = this.validate(address);
+    if (errors.length) {
+      throw new BadRequestException(
+        `Address validation failed: ${errors.join(', ')}`
+      );
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@core/domain/entities/user.entity';
+
+export enum VerificationScope {
+  ORDERS = 'orders',
+  PAYMENTS = 'payments',
+}
+
+/**
+ * Decide qué operaciones exigen un email verificado. Se configura con
+ * EMAIL_VERIFICATION_REQUIRED_FOR (por ejemplo "orders,payments").
+ */
+@Injectable()
+export class EmailVerificationPolicy {
+  private readonly requiredScopes: VerificationScope[];
+
+  constructor(private configService: ConfigService) {
+    this.requiredScopes = (
+      this.configService.get<string>('EMAIL_VERIFICATION_REQUIRED_FOR') || ''
+    )
+      .split(',')
+      .map((scope) => scope.trim().toLowerCase())
+      .filter((scope): scope is VerificationScope =>
+        Object.values(VerificationScope).includes(scope as VerificationScope)
+      );
+  }
+
+  isRequiredFor(scope: VerificationScope): boolean {
+    return this.requiredScopes.includes(scope);
+  }
+
+  assertVerified(user: User | null, scope: VerificationScope): void {
+    if (this.isRequiredFor(scope) && !user?.emailVerified) {
+      throw new ForbiddenException(
+        'Please verify your email address before continuing'
+      );
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@core/domain/entities/user.entity';
+import { PasswordService } from './password.service';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+export enum PasswordCharacterClass {
+  LOWERCASE = 'lowercase',
+  UPPERCASE = 'uppercase',
+  NUMBER = 'number',
+  SYMBOL = 'symbol',
+}
+
+const CHARACTER_CLASS_RULES: Record<
+  PasswordCharacterClass,
+  { pattern: RegExp; message: string }
+> = {
+  [PasswordCharacterClass.LOWERCASE]: {
+    pattern: /[a-z]/,
+    message: 'Password must contain at least one lowercase letter',
+  },
+  [PasswordCharacterClass.UPPERCASE]: {
+    pattern: /[A-Z]/,
+    message: 'Password must contain at least one uppercase letter',
+  },
+  [PasswordCharacterClass.NUMBER]: {
+    pattern: /\d/,
+    message: 'Password must contain at least one number',
+  },
+  [PasswordCharacterClass.SYMBOL]: {
+    pattern: /[^A-Za-z0-9]/,
+    message: 'Password must contain at least one special character',
+  },
+};
+
+// bcrypt ignora todo lo que pase de 72 bytes
+const MAX_PASSWORD_BYTES = 72;
+
+/**
+ * Política de contraseñas común a registro, alta de usuarios, cambio y
+ * restablecimiento. Se configura con PASSWORD_MIN_LENGTH (por defecto 8),
+ * PASSWORD_REQUIRED_CLASSES (por defecto "lowercase,uppercase,number,symbol")
+ * y PASSWORD_HISTORY_SIZE (contraseñas recientes que no se pueden reutilizar,
+ * por defecto 5; con 0 no se guarda historial).
+ */
+@Injectable()
+export class PasswordPolicy {
+  private readonly minLength: number;
+  private readonly requiredClasses: PasswordCharacterClass[];
+  private readonly historySize: number;
+
+  constructor(
+    private configService: ConfigService,
+    private passwordService: PasswordService
+  ) {
+    this.minLength =
+      Number(this.configService.get<string>('PASSWORD_MIN_LENGTH')) || 8;
+    this.historySize = this.getHistorySize();
+    this.requiredClasses = (
+      this.configService.get<string>('PASSWORD_REQUIRED_CLASSES') ??
+      Object.values(PasswordCharacterClass).join(',')
+    )
+      .split(',')
+      .map((characterClass) => characterClass.trim().toLowerCase())
+      .filter((characterClass): characterClass is PasswordCharacterClass =>
+        Object.values(PasswordCharacterClass).includes(
+          characterClass as PasswordCharacterClass
+        )
+      );
+  }
+
+  /**
+   * Devuelve un mensaje por cada regla incumplida. Si se indica el usuario,
+   * también comprueba que no reutilice la contraseña actual ni las anteriores.
+   */
+  async validate(password: string, user?: User): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (password.length < this.minLength) {
+      errors.push(
+        `Password must be at least ${this.minLength} characters long`
+      );
+    }
+    if (Buffer.byteLength(password) > MAX_PASSWORD_BYTES) {
+      errors.push(`Password must be at most ${MAX_PASSWORD_BYTES} bytes long`);
+    }
+
+    for (const characterClass of this.requiredClasses) {
+      const rule = CHARACTER_CLASS_RULES[characterClass];
+      if (!rule.pattern.test(password)) {
+        errors.push(rule.message);
+      }
+    }
+
+    if (this.isCommon(password)) {
+      errors.push('Password is too common or has appeared in a data breach');
+    }
+
+    if (user && (await this.isReused(password, user))) {
+      errors.push(
+        `Password must not match any of your last ${this.historySize} passwords`
+      );
+    }
+
+    return errors;
+  }
+
+  async assertValid(password: string, user?: User): Promise<void> {
+    const errors = await this.validate(password, user);
+    if (errors.length) {
+      throw new BadRequestException(
+        `Password validation failed: ${errors.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Historial que se guarda al sustituir la contraseña actual del usuario
+   */
+  buildHistory(user: User): string[] {
+    return [user.password, ...(user.passwordHistory || [])].slice(
+      0,
+      Math.max(this.historySize - 1, 0)
+    );
+  }
+
+  private getHistorySize(): number {
+    const value = this.configService.get<string>('PASSWORD_HISTORY_SIZE');
+    const historySize = Number(value ?? 5);
+    if (!Number.isInteger(historySize) || historySize < 0) {
+      throw new Error(
+        `PASSWORD_HISTORY_SIZE must be a non-negative integer, got "${value}"`
+      );
+    }
+    return historySize;
+  }
+
+  private isCommon(password: string): boolean {
+    const normalized = password.toLowerCase();
+    const withoutSuffix = normalized.replace(/[^a-zñ]+$/, '');
+
+    return (
+      COMMON_PASSWORDS.has(normalized) ||
+      (withoutSuffix.length > 0 && COMMON_PASSWORDS.has(withoutSuffix))
+    );
+  }
+
+  private async isReused(password: string, user: User): Promise<boolean> {
+    const hashes = [user.password, ...(user.passwordHistory || [])]
+      .filter(Boolean)
+      .slice(0, this.historySize);
+
+    const matches = await Promise.all(
+      hashes.map((hash) => this.passwordService.comparePassword(password, hash))
+    );
+
+    return matches.includes(true);
+  }
+}
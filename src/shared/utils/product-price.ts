@@ -0,0 +1,26 @@
+/**
+ * Precio que paga el cliente: el de oferta si es menor que el precio base
+ */
+export function getEffectivePrice(product: {
+  price: number;
+  discountPrice?: number;
+}): number {
+  return product.discountPrice > 0 && product.discountPrice < product.price
+    ? product.discountPrice
+    : product.price;
+}
+
+/**
+ * Precio de una variante: el suyo propio si lo tiene o, si no, el del producto
+ */
+export function getVariantPrice(
+  product: { price: number; discountPrice?: number },
+  variant?: { price?: number; discountPrice?: number }
+): number {
+  return variant?.price > 0
+    ? getEffectivePrice({
+        price: variant.price,
+        discountPrice: variant.discountPrice,
+      })
+    : getEffectivePrice(product);
+}
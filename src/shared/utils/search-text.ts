@@ -0,0 +1,130 @@
+/**
+ * Utilidades de texto para la búsqueda: normalización sin tildes ni
+ * mayúsculas, corrección de erratas y resaltado de coincidencias
+ */
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Pasa el texto a minúsculas y sin tildes carácter a carácter, de forma que
+ * cada posición del resultado corresponde a la misma del original
+ */
+export function normalizeSearchText(text: string): string {
+  return Array.from(text || '', (char) => {
+    const normalized = char
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase();
+    return normalized.length === char.length ? normalized : char;
+  }).join('');
+}
+
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeSearchText(text).match(WORD_PATTERN) || [];
+}
+
+/**
+ * Distancia de edición entre dos palabras. Deja de calcular en cuanto supera
+ * maxDistance y en ese caso devuelve maxDistance + 1.
+ */
+export function getEditDistance(
+  a: string,
+  b: string,
+  maxDistance: number
+): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Palabra del vocabulario más parecida al término, con una errata como
+ * máximo (dos en palabras largas). Devuelve null si no hay ninguna.
+ */
+export function findClosestTerm(
+  term: string,
+  vocabulary: Iterable<string>
+): string | null {
+  const maxDistance = term.length >= 8 ? 2 : 1;
+  let closest: string | null = null;
+  let closestDistance = maxDistance + 1;
+
+  for (const candidate of vocabulary) {
+    const distance = getEditDistance(term, candidate, maxDistance);
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Devuelve el texto escapado para HTML con las palabras que coinciden con
+ * algún término entre <mark>. Con maxLength recorta un fragmento alrededor
+ * de la primera coincidencia.
+ */
+export function highlightSearchTerms(
+  text: string,
+  terms: string[],
+  maxLength?: number
+): string {
+  if (!text) return '';
+
+  // Raíz aproximada para que "camisas" resalte "camisa" y al revés
+  const stems = terms.map((term) =>
+    term.length > 4 ? term.replace(/(es|s)$/, '') : term
+  );
+  const normalized = normalizeSearchText(text);
+  const matches: Array<[number, number]> = [];
+  for (const word of normalized.matchAll(WORD_PATTERN)) {
+    if (stems.some((stem) => word[0].startsWith(stem))) {
+      matches.push([word.index, word.index + word[0].length]);
+    }
+  }
+
+  let start = 0;
+  let end = text.length;
+  if (maxLength && text.length > maxLength) {
+    const firstMatch = matches.length ? matches[0][0] : 0;
+    start = Math.max(0, Math.min(firstMatch - 40, text.length - maxLength));
+    end = start + maxLength;
+  }
+
+  let result = start > 0 ? '…' : '';
+  let position = start;
+  for (const [matchStart, matchEnd] of matches) {
+    if (matchStart < position || matchEnd > end) continue;
+    result += escapeHtml(text.slice(position, matchStart));
+    result += `<mark>${escapeHtml(text.slice(matchStart, matchEnd))}</mark>`;
+    position = matchEnd;
+  }
+  result += escapeHtml(text.slice(position, end));
+
+  return end < text.length ? `${result}…` : result;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Implementación de TOTP (RFC 6238) compatible con Google Authenticator,
+ * Authy y similares: HMAC-SHA1, 6 dígitos y pasos de 30 segundos.
+ */
+@Injectable()
+export class TotpService {
+  private readonly digits = 6;
+  private readonly stepSeconds = 30;
+  // Pasos de tolerancia a cada lado para compensar desfases de reloj
+  private readonly window = 1;
+
+  constructor(private configService: ConfigService) {}
+
+  generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  buildOtpAuthUri(secret: string, accountName: string): string {
+    const issuer =
+      this.configService.get<string>('TWO_FACTOR_ISSUER') || 'Moda Elegante';
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(this.digits),
+      period: String(this.stepSeconds),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Devuelve el paso de tiempo que coincide con el código, o null si no es
+   * válido. El paso permite al llamador rechazar códigos ya utilizados.
+   */
+  verify(secret: string, code: string, now: number = Date.now()): number | null {
+    if (!new RegExp(`^\\d{${this.digits}}$`).test(code)) {
+      return null;
+    }
+
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(now / 1000 / this.stepSeconds);
+
+    for (let offset = -this.window; offset <= this.window; offset++) {
+      const step = currentStep + offset;
+      const expected = this.generateCode(key, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  private generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** this.digits).toString().padStart(this.digits, '0');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const cleaned = input.replace(/=+$/, '').toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) continue;
+
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
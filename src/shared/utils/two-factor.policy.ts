@@ -0,0 +1,42 @@
+import { Injectable, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserRole } from '@core/domain/entities/user.entity';
+
+/**
+ * Decide qué roles deben usar autenticación en dos pasos. Se configura con
+ * TWO_FACTOR_REQUIRED_ROLES (por defecto "admin").
+ */
+@Injectable()
+export class TwoFactorPolicy {
+  private readonly requiredRoles: UserRole[];
+
+  constructor(private configService: ConfigService) {
+    this.requiredRoles = (
+      this.configService.get<string>('TWO_FACTOR_REQUIRED_ROLES') ??
+      UserRole.ADMIN
+    )
+      .split(',')
+      .map((role) => role.trim().toLowerCase())
+      .filter((role): role is UserRole =>
+        Object.values(UserRole).includes(role as UserRole)
+      );
+  }
+
+  isRequiredFor(role: UserRole): boolean {
+    return this.requiredRoles.includes(role);
+  }
+
+  /**
+   * Exige que la sesión actual se haya completado con el segundo factor
+   */
+  assertSatisfied(user: {
+    role: UserRole;
+    twoFactorAuthenticated?: boolean;
+  }): void {
+    if (this.isRequiredFor(user.role) && !user.twoFactorAuthenticated) {
+      throw new ForbiddenException(
+        'Two-factor authentication is required for this account'
+      );
+    }
+  }
+}
@@ -2,9 +2,32 @@ import { Module } from '@nestjs/common';
 import { PasswordService } from './password.service';
 import { FileUploadService } from './file-upload.service';
 import { EmailService } from '../services/email.service';
+import { EmailVerificationPolicy } from './email-verification.policy';
+import { TotpService } from './totp.service';
+import { TwoFactorPolicy } from './two-factor.policy';
+import { PasswordPolicy } from './password.policy';
+import { AddressPolicy } from './address.policy';
 
 @Module({
-  providers: [PasswordService, EmailService, FileUploadService],
-  exports: [PasswordService, EmailService, FileUploadService],
+  providers: [
+    PasswordService,
+    EmailService,
+    FileUploadService,
+    EmailVerificationPolicy,
+    TotpService,
+    TwoFactorPolicy,
+    PasswordPolicy,
+    AddressPolicy,
+  ],
+  exports: [
+    PasswordService,
+    EmailService,
+    FileUploadService,
+    EmailVerificationPolicy,
+    TotpService,
+    TwoFactorPolicy,
+    PasswordPolicy,
+    AddressPolicy,
+  ],
 })
 export class UtilsModule {}